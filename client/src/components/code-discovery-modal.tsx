@@ -0,0 +1,225 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface DiscoveredCode {
+  code: string;
+  description: string;
+  category: 'PROVENTOS' | 'DESCONTOS' | 'OUTROS';
+  occurrences: number;
+  months: string[];
+  total: number;
+  mappedTo?: string;
+}
+
+interface PayrollCode {
+  code: string;
+  description: string;
+  category: 'PROVENTOS' | 'DESCONTOS' | 'OUTROS';
+}
+
+interface CodeGroup {
+  id: number;
+  displayName: string;
+  codes: string;
+}
+
+interface CodeDiscoveryModalProps {
+  catalogue: DiscoveredCode[] | null;
+  onClose: () => void;
+  onConfirm: (codes: string[]) => void; // Códigos marcados para extração
+}
+
+// Valor do seletor para manter o código em coluna própria (o Select não aceita valor vazio)
+const KEEP_CODE = "__keep__";
+
+const formatCurrencyValue = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+
+export default function CodeDiscoveryModal({ catalogue, onClose, onConfirm }: CodeDiscoveryModalProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [mappings, setMappings] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const { data: predefinedCodes = [] } = useQuery<PayrollCode[]>({
+    queryKey: ['/api/predefined-codes'],
+    enabled: catalogue !== null,
+  });
+  const { data: codeGroups = [] } = useQuery<CodeGroup[]>({
+    queryKey: ['/api/code-groups'],
+    enabled: catalogue !== null,
+    staleTime: 0,
+  });
+
+  const predefinedColumns = Array.from(new Set(predefinedCodes.map((code) => code.description)));
+  const groupColumns = codeGroups
+    .map((group) => group.displayName)
+    .filter((displayName) => !predefinedColumns.includes(displayName));
+
+  // Um novo catálogo começa com todos os códigos marcados e sem mapeamento
+  useEffect(() => {
+    setSelected(new Set(catalogue?.map((entry) => entry.code) || []));
+    setMappings({});
+  }, [catalogue]);
+
+  const toggleCode = (code: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(code)) {
+        next.delete(code);
+      } else {
+        next.add(code);
+      }
+      return next;
+    });
+  };
+
+  // Inclui os códigos mapeados nos grupos do usuário, criando o grupo quando a coluna ainda não existe
+  const saveMappings = async (codes: string[]) => {
+    const codesByColumn = new Map<string, string[]>();
+    codes.forEach((code) => {
+      const column = mappings[code];
+      if (!column || column === KEEP_CODE) return;
+      codesByColumn.set(column, [...(codesByColumn.get(column) || []), code]);
+    });
+
+    for (const [column, columnCodes] of Array.from(codesByColumn.entries())) {
+      const group = codeGroups.find((codeGroup) => codeGroup.displayName === column);
+      if (group) {
+        const groupCodes = group.codes.split(/[\s,]+/).filter(Boolean);
+        const merged = Array.from(new Set([...groupCodes, ...columnCodes]));
+        await apiRequest("PUT", `/api/code-groups/${group.id}`, { codes: merged.join(', ') });
+      } else {
+        await apiRequest("POST", "/api/code-groups", { displayName: column, codes: columnCodes.join(', ') });
+      }
+    }
+
+    if (codesByColumn.size > 0) {
+      queryClient.invalidateQueries({ queryKey: ['/api/code-groups'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/payroll-data'] });
+    }
+  };
+
+  const handleConfirm = async () => {
+    const codes = (catalogue || []).map((entry) => entry.code).filter((code) => selected.has(code));
+
+    try {
+      setIsSaving(true);
+      await saveMappings(codes);
+      onConfirm(codes);
+      onClose();
+    } catch (error) {
+      console.error("Failed to map discovered codes:", error);
+      toast({
+        variant: "destructive",
+        title: "Erro ao mapear códigos",
+        description: "Não foi possível atualizar os grupos de códigos",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={catalogue !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[90%] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Códigos encontrados nos contracheques</DialogTitle>
+          <DialogDescription>
+            Marque os códigos que devem ser extraídos. Um código pode ser somado a uma verba pré-definida
+            ou a um grupo existente; os demais aparecem em coluna própria.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!catalogue || catalogue.length === 0 ? (
+          <div className="py-8 text-center text-gray-500">
+            Nenhuma linha de verba foi reconhecida nos arquivos enviados.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10" />
+                <TableHead>Código</TableHead>
+                <TableHead>Descrição</TableHead>
+                <TableHead>Categoria</TableHead>
+                <TableHead className="text-right">Ocorrências</TableHead>
+                <TableHead>Competências</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead style={{ minWidth: '220px' }}>Coluna</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {catalogue.map((entry) => (
+                <TableRow key={entry.code} className={selected.has(entry.code) ? "" : "opacity-50"}>
+                  <TableCell>
+                    <Checkbox checked={selected.has(entry.code)} onCheckedChange={() => toggleCode(entry.code)} />
+                  </TableCell>
+                  <TableCell className="font-mono">{entry.code}</TableCell>
+                  <TableCell>{entry.description}</TableCell>
+                  <TableCell className="text-xs">{entry.category}</TableCell>
+                  <TableCell className="text-right">{entry.occurrences}</TableCell>
+                  <TableCell className="text-xs" title={entry.months.join(", ")}>
+                    {entry.months.length === 1
+                      ? entry.months[0]
+                      : `${entry.months[0]} a ${entry.months[entry.months.length - 1]} (${entry.months.length})`}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrencyValue(entry.total)}</TableCell>
+                  <TableCell>
+                    {entry.mappedTo ? (
+                      <span className="text-xs text-gray-600">{entry.mappedTo}</span>
+                    ) : (
+                      <Select
+                        value={mappings[entry.code] || KEEP_CODE}
+                        onValueChange={(column) => setMappings((current) => ({ ...current, [entry.code]: column }))}
+                        disabled={!selected.has(entry.code)}
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={KEEP_CODE}>Coluna própria ({entry.code})</SelectItem>
+                          {predefinedColumns.length > 0 && (
+                            <SelectGroup>
+                              <SelectLabel>Verbas pré-definidas</SelectLabel>
+                              {predefinedColumns.map((column) => (
+                                <SelectItem key={`predefined-${column}`} value={column}>{column}</SelectItem>
+                              ))}
+                            </SelectGroup>
+                          )}
+                          {groupColumns.length > 0 && (
+                            <SelectGroup>
+                              <SelectLabel>Grupos de códigos</SelectLabel>
+                              {groupColumns.map((column) => (
+                                <SelectItem key={`group-${column}`} value={column}>{column}</SelectItem>
+                              ))}
+                            </SelectGroup>
+                          )}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancelar
+          </Button>
+          <Button onClick={handleConfirm} disabled={isSaving || selected.size === 0}>
+            {isSaving ? "Salvando..." : `Usar ${selected.size} código(s)`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,147 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardHeader, CardContent, CardTitle, CardDescription } from "@/components/ui/card";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Download, FileSpreadsheet, Settings2 } from "lucide-react";
+
+interface DifferenceCell {
+  paid: number;
+  due: number;
+  difference: number;
+}
+
+interface DifferenceRow {
+  date: string;
+  cells: Record<string, DifferenceCell>;
+  difference: number;
+  reflex13: number;
+  reflexVacation: number;
+  total: number;
+  prescribed: boolean;
+}
+
+interface PayrollDifferences {
+  columns: string[];
+  rows: DifferenceRow[];
+  totals: { difference: number; reflex13: number; reflexVacation: number; total: number };
+}
+
+interface DifferencesTableProps {
+  onEditDueSeries: () => void;
+}
+
+const formatCurrencyValue = (value: number) => `R$ ${value.toFixed(2).replace(".", ",")}`;
+
+// Diferenças negativas (pago acima do devido) em vermelho
+const differenceClass = (value: number) => (value < 0 ? "text-right text-red-600" : "text-right");
+
+export default function DifferencesTable({ onEditDueSeries }: DifferencesTableProps) {
+  const { data: differences } = useQuery<PayrollDifferences>({
+    queryKey: ["/api/differences"],
+    staleTime: 0,
+  });
+
+  const hasRows = !!differences && differences.rows.length > 0;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between py-5">
+        <div>
+          <CardTitle>Diferenças devido x pago</CardTitle>
+          <CardDescription>
+            Valor devido de cada coluna comparado com o pago nos contracheques, com os reflexos em 13º e 1/3 de férias.
+          </CardDescription>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" onClick={onEditDueSeries}>
+            <Settings2 className="mr-2 h-4 w-4" />
+            Valores devidos
+          </Button>
+          <Button
+            variant="outline"
+            disabled={!hasRows}
+            onClick={() => window.open("/api/differences/export/csv", "_blank")}
+          >
+            <Download className="mr-2 h-4 w-4" />
+            CSV
+          </Button>
+          <Button
+            variant="outline"
+            disabled={!hasRows}
+            onClick={() => window.open("/api/differences/export/xlsx", "_blank")}
+          >
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            XLSX
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!hasRows ? (
+          <p className="text-sm text-gray-500 py-8 text-center">
+            Cadastre os valores devidos de uma coluna para comparar com os valores extraídos.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead rowSpan={2}>Data</TableHead>
+                  {differences.columns.map((column) => (
+                    <TableHead key={column} colSpan={3} className="text-center border-l">{column}</TableHead>
+                  ))}
+                  <TableHead rowSpan={2} className="text-right border-l">Diferença</TableHead>
+                  <TableHead rowSpan={2} className="text-right">Reflexo 13º</TableHead>
+                  <TableHead rowSpan={2} className="text-right">Reflexo 1/3 férias</TableHead>
+                  <TableHead rowSpan={2} className="text-right">Total</TableHead>
+                </TableRow>
+                <TableRow>
+                  {differences.columns.flatMap((column) => [
+                    <TableHead key={`${column}-paid`} className="text-right border-l">Pago</TableHead>,
+                    <TableHead key={`${column}-due`} className="text-right">Devido</TableHead>,
+                    <TableHead key={`${column}-difference`} className="text-right">Diferença</TableHead>,
+                  ])}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {differences.rows.map((row) => (
+                  <TableRow key={row.date} className={row.prescribed ? "text-gray-500" : undefined}>
+                    <TableCell className={`font-medium ${row.prescribed ? "bg-rose-50 text-rose-900" : ""}`}>
+                      {row.date}
+                      {row.prescribed && <div className="text-xs font-normal">Prescrita</div>}
+                    </TableCell>
+                    {differences.columns.flatMap((column) => {
+                      const cell = row.cells[column];
+                      return cell
+                        ? [
+                            <TableCell key={`${column}-paid`} className="text-right border-l">{formatCurrencyValue(cell.paid)}</TableCell>,
+                            <TableCell key={`${column}-due`} className="text-right">{formatCurrencyValue(cell.due)}</TableCell>,
+                            <TableCell key={`${column}-difference`} className={differenceClass(cell.difference)}>
+                              {formatCurrencyValue(cell.difference)}
+                            </TableCell>,
+                          ]
+                        : [<TableCell key={column} colSpan={3} className="text-center text-gray-400 border-l">-</TableCell>];
+                    })}
+                    <TableCell className={`${differenceClass(row.difference)} border-l`}>{formatCurrencyValue(row.difference)}</TableCell>
+                    <TableCell className={differenceClass(row.reflex13)}>{formatCurrencyValue(row.reflex13)}</TableCell>
+                    <TableCell className={differenceClass(row.reflexVacation)}>{formatCurrencyValue(row.reflexVacation)}</TableCell>
+                    <TableCell className={`${differenceClass(row.total)} font-medium`}>{formatCurrencyValue(row.total)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="bg-muted/50 font-semibold">
+                  <TableCell>Total</TableCell>
+                  {differences.columns.map((column) => (
+                    <TableCell key={column} colSpan={3} className="border-l" />
+                  ))}
+                  <TableCell className="text-right border-l">{formatCurrencyValue(differences.totals.difference)}</TableCell>
+                  <TableCell className="text-right">{formatCurrencyValue(differences.totals.reflex13)}</TableCell>
+                  <TableCell className="text-right">{formatCurrencyValue(differences.totals.reflexVacation)}</TableCell>
+                  <TableCell className="text-right">{formatCurrencyValue(differences.totals.total)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,125 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Download, ExternalLink, Trash2 } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface StoredDocument {
+  id: string;
+  fileName: string;
+  fileHash: string;
+  size: number;
+  layout?: string;
+  uploadedAt: string;
+  months: string[];
+}
+
+interface DocumentList {
+  enabled: boolean;
+  documents: StoredDocument[];
+}
+
+interface DocumentsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatSize = (size: number) =>
+  size >= 1024 * 1024 ? `${(size / (1024 * 1024)).toFixed(1).replace('.', ',')} MB` : `${Math.ceil(size / 1024)} KB`;
+
+export default function DocumentsModal({ isOpen, onClose }: DocumentsModalProps) {
+  const { toast } = useToast();
+  const { data, isLoading } = useQuery<DocumentList>({
+    queryKey: ['/api/documents'],
+    enabled: isOpen,
+    staleTime: 0,
+  });
+
+  const handleDelete = async (document: StoredDocument) => {
+    if (!confirm(`Excluir o documento ${document.fileName}? Os dados extraídos dele serão mantidos.`)) {
+      return;
+    }
+
+    try {
+      await apiRequest("DELETE", `/api/documents/${document.id}`);
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+    } catch (error) {
+      console.error("Failed to delete document:", error);
+      toast({
+        variant: "destructive",
+        title: "Erro ao excluir documento",
+        description: "Não foi possível excluir o documento",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Documentos originais</DialogTitle>
+          <DialogDescription>
+            PDFs enviados, guardados de forma criptografada para consulta quando um valor for contestado.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-8 text-center text-gray-500">Carregando...</div>
+        ) : !data?.enabled ? (
+          <div className="py-8 text-center text-gray-500">
+            O repositório de documentos não está habilitado neste servidor. Os PDFs são processados apenas em memória.
+          </div>
+        ) : data.documents.length === 0 ? (
+          <div className="py-8 text-center text-gray-500">Nenhum documento guardado.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Arquivo</TableHead>
+                <TableHead>Competências</TableHead>
+                <TableHead>Layout</TableHead>
+                <TableHead>Enviado em</TableHead>
+                <TableHead className="text-right">Tamanho</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.documents.map((document) => (
+                <TableRow key={document.id}>
+                  <TableCell className="font-medium max-w-[250px] truncate" title={`SHA-256 ${document.fileHash}`}>
+                    {document.fileName}
+                  </TableCell>
+                  <TableCell className="text-xs" title={document.months.join(", ")}>
+                    {document.months.length === 1
+                      ? document.months[0]
+                      : `${document.months[0]} a ${document.months[document.months.length - 1]} (${document.months.length})`}
+                  </TableCell>
+                  <TableCell className="text-xs">{document.layout || "-"}</TableCell>
+                  <TableCell className="text-xs">{new Date(document.uploadedAt).toLocaleString("pt-BR")}</TableCell>
+                  <TableCell className="text-right text-xs">{formatSize(document.size)}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="sm" asChild title="Abrir">
+                      <a href={`/api/documents/${document.id}`} target="_blank" rel="noreferrer">
+                        <ExternalLink className="h-4 w-4" />
+                      </a>
+                    </Button>
+                    <Button variant="ghost" size="sm" asChild title="Baixar">
+                      <a href={`/api/documents/${document.id}?download=true`}>
+                        <Download className="h-4 w-4" />
+                      </a>
+                    </Button>
+                    <Button variant="ghost" size="sm" title="Excluir" onClick={() => handleDelete(document)}>
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
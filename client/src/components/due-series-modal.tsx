@@ -0,0 +1,302 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Plus, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type DueSeriesMethod = "fixed" | "percentage" | "table";
+
+interface DueSeries {
+  id: number;
+  column: string;
+  method: DueSeriesMethod;
+  amount: number | null;
+  percentage: number | null;
+  baseColumn: string | null;
+  dueTable: Record<string, number> | null; // Valor devido por competência
+  startDate: string | null;
+  endDate: string | null;
+  reflexes: boolean;
+}
+
+interface DueSeriesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  codeHeaders: string[]; // Colunas da tabela que podem ser comparadas
+}
+
+const METHOD_LABELS: Record<DueSeriesMethod, string> = {
+  fixed: "Valor fixo mensal",
+  percentage: "Percentual de outra coluna",
+  table: "Tabela importada (CSV)",
+};
+
+// Conversão entre a competência (MM/AAAA) e o valor do campo de mês do navegador (AAAA-MM)
+const toMonthInput = (date: string | null) => {
+  const [month, year] = (date || "").split("/");
+  return year ? `${year}-${month}` : "";
+};
+const fromMonthInput = (value: string) => {
+  const [year, month] = value.split("-");
+  return value ? `${month}/${year}` : null;
+};
+
+const formatCurrencyValue = (value: number) => `R$ ${value.toFixed(2).replace(".", ",")}`;
+
+const describeSeries = (series: DueSeries) => {
+  if (series.method === "fixed") return formatCurrencyValue(series.amount ?? 0);
+  if (series.method === "percentage") return `${String(series.percentage).replace(".", ",")}% de ${series.baseColumn}`;
+  const months = Object.keys(series.dueTable || {}).length;
+  return `Tabela com ${months} ${months === 1 ? "competência" : "competências"}`;
+};
+
+const describePeriod = (series: DueSeries) => {
+  if (!series.startDate && !series.endDate) return "Todo o período";
+  return `${series.startDate ?? "início"} a ${series.endDate ?? "fim"}`;
+};
+
+export default function DueSeriesModal({ isOpen, onClose, codeHeaders }: DueSeriesModalProps) {
+  const { toast } = useToast();
+  const [column, setColumn] = useState("");
+  const [method, setMethod] = useState<DueSeriesMethod>("fixed");
+  const [amount, setAmount] = useState("");
+  const [percentage, setPercentage] = useState("");
+  const [baseColumn, setBaseColumn] = useState("");
+  const [tableCsv, setTableCsv] = useState<string | null>(null);
+  const [startDate, setStartDate] = useState<string | null>(null);
+  const [endDate, setEndDate] = useState<string | null>(null);
+  const [reflexes, setReflexes] = useState(true);
+
+  const { data: seriesList } = useQuery<DueSeries[]>({
+    queryKey: ["/api/due-series"],
+    enabled: isOpen,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/due-series"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/differences"] });
+  };
+
+  const resetForm = () => {
+    setColumn("");
+    setMethod("fixed");
+    setAmount("");
+    setPercentage("");
+    setBaseColumn("");
+    setTableCsv(null);
+    setStartDate(null);
+    setEndDate(null);
+    setReflexes(true);
+  };
+
+  const createSeriesMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/due-series", {
+        column,
+        method,
+        ...(method === "fixed" ? { amount: Number(amount.replace(",", ".")) } : {}),
+        ...(method === "percentage" ? { percentage: Number(percentage.replace(",", ".")), baseColumn } : {}),
+        ...(method === "table" ? { tableCsv } : {}),
+        startDate,
+        endDate,
+        reflexes,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Valores devidos cadastrados" });
+      resetForm();
+      refresh();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erro ao cadastrar valores devidos",
+        description: error instanceof Error ? error.message : "Ocorreu um erro ao salvar",
+      });
+    },
+  });
+
+  const updateSeriesMutation = useMutation({
+    mutationFn: async (data: { id: number; reflexes: boolean }) => {
+      return apiRequest("PUT", `/api/due-series/${data.id}`, { reflexes: data.reflexes });
+    },
+    onSuccess: refresh,
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erro ao atualizar valores devidos",
+        description: error instanceof Error ? error.message : "Ocorreu um erro ao atualizar",
+      });
+    },
+  });
+
+  const deleteSeriesMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/due-series/${id}`);
+    },
+    onSuccess: refresh,
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erro ao excluir valores devidos",
+        description: error instanceof Error ? error.message : "Ocorreu um erro ao excluir",
+      });
+    },
+  });
+
+  const canSubmit = column !== "" && (
+    (method === "fixed" && amount !== "") ||
+    (method === "percentage" && percentage !== "" && baseColumn !== "") ||
+    (method === "table" && tableCsv !== null)
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Valores devidos</DialogTitle>
+          <DialogDescription>
+            Informe quanto deveria ter sido pago em cada coluna da tabela. A diferença mensal é o devido menos o pago,
+            com reflexos de 1/12 em 13º salário e de 1/3 desse duodécimo em férias.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="space-y-1">
+            <Label>Coluna</Label>
+            <Select value={column} onValueChange={setColumn}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione" />
+              </SelectTrigger>
+              <SelectContent>
+                {codeHeaders.map((header) => (
+                  <SelectItem key={header} value={header}>{header}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Forma de cálculo</Label>
+            <Select value={method} onValueChange={(value) => setMethod(value as DueSeriesMethod)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(METHOD_LABELS) as DueSeriesMethod[]).map((value) => (
+                  <SelectItem key={value} value={value}>{METHOD_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {method === "fixed" && (
+            <div className="space-y-1">
+              <Label htmlFor="dueAmount">Valor mensal (R$)</Label>
+              <Input id="dueAmount" inputMode="decimal" value={amount} onChange={(event) => setAmount(event.target.value)} />
+            </div>
+          )}
+          {method === "percentage" && (
+            <>
+              <div className="space-y-1">
+                <Label htmlFor="duePercentage">Percentual (%)</Label>
+                <Input id="duePercentage" inputMode="decimal" value={percentage} onChange={(event) => setPercentage(event.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>Sobre a coluna</Label>
+                <Select value={baseColumn} onValueChange={setBaseColumn}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {codeHeaders.map((header) => (
+                      <SelectItem key={header} value={header}>{header}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+          {method === "table" && (
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="dueTable">Arquivo CSV (competência;valor)</Label>
+              <Input
+                id="dueTable"
+                type="file"
+                accept=".csv,text/csv,text/plain"
+                onChange={async (event) => {
+                  const file = event.target.files?.[0];
+                  setTableCsv(file ? await file.text() : null);
+                }}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="dueStart">A partir de</Label>
+            <Input id="dueStart" type="month" value={toMonthInput(startDate)} onChange={(event) => setStartDate(fromMonthInput(event.target.value))} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="dueEnd">Até</Label>
+            <Input id="dueEnd" type="month" value={toMonthInput(endDate)} onChange={(event) => setEndDate(fromMonthInput(event.target.value))} />
+          </div>
+          <label className="flex items-center gap-2 text-sm pb-2">
+            <Checkbox checked={reflexes} onCheckedChange={(checked) => setReflexes(checked === true)} />
+            Reflexos em 13º e 1/3 de férias
+          </label>
+          <Button
+            className="ml-auto"
+            onClick={() => createSeriesMutation.mutate()}
+            disabled={!canSubmit || createSeriesMutation.isPending}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Adicionar
+          </Button>
+        </div>
+
+        {seriesList && seriesList.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Coluna</TableHead>
+                <TableHead>Forma de cálculo</TableHead>
+                <TableHead>Valor devido</TableHead>
+                <TableHead>Período</TableHead>
+                <TableHead>Reflexos</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {seriesList.map((series) => (
+                <TableRow key={series.id}>
+                  <TableCell className="font-medium">{series.column}</TableCell>
+                  <TableCell>{METHOD_LABELS[series.method]}</TableCell>
+                  <TableCell>{describeSeries(series)}</TableCell>
+                  <TableCell>{describePeriod(series)}</TableCell>
+                  <TableCell>
+                    <Checkbox
+                      checked={series.reflexes}
+                      onCheckedChange={(checked) => updateSeriesMutation.mutate({ id: series.id, reflexes: checked === true })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" title="Excluir" onClick={() => deleteSeriesMutation.mutate(series.id)}>
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,51 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+
+interface DuplicateFile {
+  fileName: string;
+  dates: string[];
+}
+
+interface DuplicateFilesModalProps {
+  duplicates: DuplicateFile[] | null;
+  onClose: () => void;
+  onChoose: (mode: "skip" | "replace") => void; // Reenvia os arquivos ignorando ou substituindo o que já foi importado
+}
+
+export default function DuplicateFilesModal({ duplicates, onClose, onChoose }: DuplicateFilesModalProps) {
+  return (
+    <Dialog open={duplicates !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Arquivos já importados</DialogTitle>
+          <DialogDescription>
+            Os arquivos abaixo (ou contracheques contidos neles) já foram importados. Importá-los de novo somaria os valores em dobro.
+            Ignore os contracheques já importados ou substitua-os pelos dados extraídos agora
+            (por exemplo, depois de ajustar os códigos).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="text-sm border rounded-md divide-y max-h-[300px] overflow-y-auto">
+          {duplicates?.map((file, index) => (
+            <div key={`${file.fileName}-${index}`} className="px-3 py-2">
+              <div className="truncate font-medium text-gray-700">{file.fileName}</div>
+              <div className="text-xs text-gray-500">{file.dates.join(", ")}</div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button variant="outline" onClick={() => onChoose("skip")}>
+            Ignorar já importados
+          </Button>
+          <Button onClick={() => onChoose("replace")}>
+            Substituir
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,384 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Calculator, FileSpreadsheet, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface PriceIndex {
+  id: string;
+  name: string;
+  months: number;
+}
+
+interface InterestRule {
+  from: string;
+  type: "fixed" | "series";
+  rate?: number;
+  series?: string;
+  compounding: "simple" | "compound";
+  replacesCorrection: boolean;
+}
+
+interface InterestPeriod {
+  rule: string;
+  from: string;
+  to: string;
+  months: number;
+  rate: number;
+}
+
+interface InterestCalculationRow {
+  date: string;
+  amount: number;
+  correctionFactor: number;
+  correctedAmount: number;
+  interestFrom?: string;
+  interestMonths: number;
+  interestRate: number;
+  interest: number;
+  total: number;
+  periods: InterestPeriod[];
+  prescribed: boolean;
+}
+
+interface InterestCalculation {
+  rows: InterestCalculationRow[];
+  totals: { amount: number; correctedAmount: number; interest: number; total: number };
+}
+
+interface InterestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  priceIndexes: PriceIndex[];
+  firstMonth?: string; // Primeira competência da tabela, início sugerido para a primeira regra
+}
+
+const NO_CORRECTION = "nominal";
+const FIXED_RATE = "fixed";
+
+const BASIS_OPTIONS = [
+  { value: "net", label: "Líquido" },
+  { value: "proventos", label: "Total de proventos" },
+  { value: "descontos", label: "Total de descontos" },
+];
+
+// Regime usual das condenações da Fazenda Pública: 1% a.m., poupança a partir da Lei 11.960/2009
+// e SELIC (que já inclui a correção monetária) a partir da EC 113/2021
+const publicTreasuryRules = (firstMonth: string): InterestRule[] => [
+  { from: firstMonth, type: "fixed", rate: 1, compounding: "simple", replacesCorrection: false },
+  { from: "07/2009", type: "series", series: "POUPANCA", compounding: "simple", replacesCorrection: false },
+  { from: "12/2021", type: "series", series: "SELIC", compounding: "simple", replacesCorrection: true },
+];
+
+// Conversão entre a competência (MM/AAAA) e o valor do campo de mês do navegador (AAAA-MM)
+const toMonthInput = (date: string) => {
+  const [month, year] = date.split("/");
+  return year ? `${year}-${month}` : "";
+};
+const fromMonthInput = (value: string) => {
+  const [year, month] = value.split("-");
+  return `${month}/${year}`;
+};
+
+const currentMonth = () => {
+  const today = new Date();
+  return `${String(today.getMonth() + 1).padStart(2, "0")}/${today.getFullYear()}`;
+};
+
+const formatCurrencyValue = (value: number) => `R$ ${value.toFixed(2).replace(".", ",")}`;
+const formatRate = (value: number) => `${value.toFixed(4).replace(".", ",")}%`;
+
+// Mensagem de erro devolvida pela API (JSON com "message")
+const errorMessage = async (response: Response) => {
+  const body = await response.json().catch(() => null);
+  return body?.message || `${response.status}: ${response.statusText}`;
+};
+
+export default function InterestModal({ isOpen, onClose, priceIndexes, firstMonth = "01/2000" }: InterestModalProps) {
+  const { toast } = useToast();
+  const [target, setTarget] = useState(currentMonth());
+  const [citation, setCitation] = useState("");
+  const [basis, setBasis] = useState("net");
+  const [correctionIndex, setCorrectionIndex] = useState(NO_CORRECTION);
+  const [rules, setRules] = useState<InterestRule[]>(() => publicTreasuryRules(firstMonth));
+  const [calculation, setCalculation] = useState<InterestCalculation | null>(null);
+  const [isCalculating, setIsCalculating] = useState(false);
+
+  const availableIndexes = priceIndexes.filter((priceIndex) => priceIndex.months > 0);
+
+  const updateRule = (index: number, changes: Partial<InterestRule>) => {
+    setRules(rules.map((rule, ruleIndex) => (ruleIndex === index ? { ...rule, ...changes } : rule)));
+    setCalculation(null);
+  };
+
+  const requestBody = () => ({
+    target,
+    citation,
+    basis,
+    ...(correctionIndex !== NO_CORRECTION ? { correctionIndex } : {}),
+    rules,
+  });
+
+  const postInterest = (url: string) =>
+    fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(requestBody()),
+      credentials: "include",
+    });
+
+  const handleCalculate = async () => {
+    if (!citation) {
+      toast({ variant: "destructive", title: "Informe a data da citação" });
+      return;
+    }
+
+    setIsCalculating(true);
+    try {
+      const response = await postInterest("/api/interest");
+      if (!response.ok) {
+        throw new Error(await errorMessage(response));
+      }
+      setCalculation(await response.json());
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Erro no cálculo dos juros",
+        description: error instanceof Error ? error.message : "Não foi possível calcular os juros",
+      });
+    } finally {
+      setIsCalculating(false);
+    }
+  };
+
+  const handleExportXLSX = async () => {
+    try {
+      const response = await postInterest("/api/interest/xlsx");
+      if (!response.ok) {
+        throw new Error(await errorMessage(response));
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "memoria-de-calculo.xlsx";
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Erro ao exportar a memória de cálculo",
+        description: error instanceof Error ? error.message : "Não foi possível exportar",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[1100px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Juros de mora</DialogTitle>
+          <DialogDescription>
+            Corrige o valor mensal escolhido e aplica os juros de cada regra, da citação (ou do vencimento da parcela,
+            se posterior) até a data do cálculo.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="interestTarget">Data do cálculo</Label>
+            <Input
+              id="interestTarget"
+              type="month"
+              value={toMonthInput(target)}
+              onChange={(event) => event.target.value && setTarget(fromMonthInput(event.target.value))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="interestCitation">Citação</Label>
+            <Input id="interestCitation" type="date" value={citation} onChange={(event) => setCitation(event.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>Base</Label>
+            <Select value={basis} onValueChange={setBasis}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BASIS_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Correção monetária</Label>
+            <Select value={correctionIndex} onValueChange={setCorrectionIndex}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CORRECTION}>Sem correção</SelectItem>
+                {availableIndexes.map((priceIndex) => (
+                  <SelectItem key={priceIndex.id} value={priceIndex.id}>{priceIndex.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Regras de juros</Label>
+            <div className="space-x-2">
+              <Button variant="ghost" size="sm" onClick={() => setRules(publicTreasuryRules(firstMonth))}>
+                Regime da Fazenda Pública
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setRules([...rules, { from: target, type: "fixed", rate: 1, compounding: "simple", replacesCorrection: false }])}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Regra
+              </Button>
+            </div>
+          </div>
+          {rules.map((rule, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-3 text-sm border rounded-md px-3 py-2">
+              <span className="text-gray-500">A partir de</span>
+              <Input
+                type="month"
+                className="h-8 w-[160px]"
+                value={toMonthInput(rule.from)}
+                onChange={(event) => event.target.value && updateRule(index, { from: fromMonthInput(event.target.value) })}
+              />
+              <Select
+                value={rule.type === "fixed" ? FIXED_RATE : rule.series}
+                onValueChange={(value) =>
+                  updateRule(index, value === FIXED_RATE
+                    ? { type: "fixed", rate: rule.rate ?? 1, series: undefined }
+                    : { type: "series", series: value, rate: undefined })
+                }
+              >
+                <SelectTrigger className="h-8 w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={FIXED_RATE}>Taxa fixa mensal</SelectItem>
+                  {priceIndexes.map((priceIndex) => (
+                    <SelectItem key={priceIndex.id} value={priceIndex.id} disabled={priceIndex.months === 0}>
+                      {priceIndex.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {rule.type === "fixed" && (
+                <div className="flex items-center gap-1">
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    className="h-8 w-[90px]"
+                    value={rule.rate ?? ""}
+                    onChange={(event) => updateRule(index, { rate: Number(event.target.value) })}
+                  />
+                  <span className="text-gray-500">% a.m.</span>
+                </div>
+              )}
+              <label className="flex items-center gap-2">
+                <Checkbox
+                  checked={rule.compounding === "compound"}
+                  onCheckedChange={(checked) => updateRule(index, { compounding: checked === true ? "compound" : "simple" })}
+                />
+                Capitalizar
+              </label>
+              <label className="flex items-center gap-2">
+                <Checkbox
+                  checked={rule.replacesCorrection}
+                  onCheckedChange={(checked) => updateRule(index, { replacesCorrection: checked === true })}
+                />
+                Substitui a correção
+              </label>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ml-auto"
+                title="Remover regra"
+                disabled={rules.length === 1}
+                onClick={() => setRules(rules.filter((_, ruleIndex) => ruleIndex !== index))}
+              >
+                <Trash2 className="h-4 w-4 text-red-600" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={handleExportXLSX} disabled={!calculation}>
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            Exportar XLSX
+          </Button>
+          <Button onClick={handleCalculate} disabled={isCalculating}>
+            <Calculator className="mr-2 h-4 w-4" />
+            {isCalculating ? "Calculando..." : "Calcular"}
+          </Button>
+        </div>
+
+        {calculation && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Competência</TableHead>
+                <TableHead className="text-right">Nominal</TableHead>
+                <TableHead className="text-right">Fator</TableHead>
+                <TableHead className="text-right">Corrigido</TableHead>
+                <TableHead>Juros desde</TableHead>
+                <TableHead className="text-right">Juros (%)</TableHead>
+                <TableHead className="text-right">Juros</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {calculation.rows.map((row) => (
+                <TableRow key={row.date} className={row.prescribed ? "text-gray-500" : undefined}>
+                  <TableCell className={`font-medium ${row.prescribed ? "bg-rose-50 text-rose-900" : ""}`}>
+                    {row.date}
+                    {row.prescribed && <div className="text-xs font-normal">Prescrita</div>}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrencyValue(row.amount)}</TableCell>
+                  <TableCell className="text-right">{row.correctionFactor.toFixed(6).replace(".", ",")}</TableCell>
+                  <TableCell className="text-right">{formatCurrencyValue(row.correctedAmount)}</TableCell>
+                  <TableCell>{row.interestFrom ?? "-"}</TableCell>
+                  <TableCell
+                    className="text-right"
+                    title={row.periods.map((period) => `${period.rule}: ${period.from} a ${period.to} = ${formatRate(period.rate)}`).join("\n")}
+                  >
+                    {formatRate(row.interestRate)}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrencyValue(row.interest)}</TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrencyValue(row.total)}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="bg-muted/50 font-semibold">
+                <TableCell>Total</TableCell>
+                <TableCell className="text-right">{formatCurrencyValue(calculation.totals.amount)}</TableCell>
+                <TableCell />
+                <TableCell className="text-right">{formatCurrencyValue(calculation.totals.correctedAmount)}</TableCell>
+                <TableCell />
+                <TableCell />
+                <TableCell className="text-right">{formatCurrencyValue(calculation.totals.interest)}</TableCell>
+                <TableCell className="text-right">{formatCurrencyValue(calculation.totals.total)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
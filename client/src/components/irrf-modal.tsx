@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Calculator, FileSpreadsheet } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface IrrfCalculationRow {
+  date: string;
+  group: string;
+  table?: string;
+  gross: number;
+  deductions: number;
+  deductionType: "legal" | "simplified";
+  base: number;
+  rate: number;
+  reduction: number;
+  expected: number;
+  withheld: number;
+  difference: number;
+  discrepancy: boolean;
+  prescribed: boolean;
+}
+
+interface IrrfGroup {
+  name: string;
+  taxableColumns: string[];
+  deductionColumns: string[];
+  withheldColumns: string[];
+}
+
+interface IrrfCalculation {
+  groups: IrrfGroup[];
+  rows: IrrfCalculationRow[];
+  totals: { expected: number; withheld: number; difference: number };
+}
+
+interface IrrfModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatCurrencyValue = (value: number) => `R$ ${value.toFixed(2).replace(".", ",")}`;
+const formatRate = (value: number) => `${String(value).replace(".", ",")}%`;
+
+// Mensagem de erro devolvida pela API (JSON com "message")
+const errorMessage = async (response: Response) => {
+  const body = await response.json().catch(() => null);
+  return body?.message || `${response.status}: ${response.statusText}`;
+};
+
+export default function IrrfModal({ isOpen, onClose }: IrrfModalProps) {
+  const { toast } = useToast();
+  const [dependents, setDependents] = useState(0);
+  const [tolerance, setTolerance] = useState(0.05);
+  const [calculation, setCalculation] = useState<IrrfCalculation | null>(null);
+  const [isCalculating, setIsCalculating] = useState(false);
+
+  const postIrrf = (url: string) =>
+    fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ dependents, tolerance }),
+      credentials: "include",
+    });
+
+  const handleCalculate = async () => {
+    setIsCalculating(true);
+    try {
+      const response = await postIrrf("/api/irrf");
+      if (!response.ok) {
+        throw new Error(await errorMessage(response));
+      }
+      setCalculation(await response.json());
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Erro na conferência do IRRF",
+        description: error instanceof Error ? error.message : "Não foi possível recalcular o IRRF",
+      });
+    } finally {
+      setIsCalculating(false);
+    }
+  };
+
+  const handleExportXLSX = async () => {
+    try {
+      const response = await postIrrf("/api/irrf/xlsx");
+      if (!response.ok) {
+        throw new Error(await errorMessage(response));
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "conferencia-irrf.xlsx";
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Erro ao exportar a conferência do IRRF",
+        description: error instanceof Error ? error.message : "Não foi possível exportar",
+      });
+    }
+  };
+
+  const discrepancies = calculation?.rows.filter((row) => row.discrepancy).length ?? 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[1100px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Conferência do IRRF</DialogTitle>
+          <DialogDescription>
+            Recalcula o imposto de cada competência pela tabela progressiva vigente, a partir dos rendimentos extraídos,
+            e compara com o IRRF retido nos contracheques.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="irrfDependents">Dependentes</Label>
+            <Input
+              id="irrfDependents"
+              type="number"
+              min={0}
+              step={1}
+              className="w-[120px]"
+              value={dependents}
+              onChange={(event) => {
+                setDependents(Math.max(0, Math.floor(Number(event.target.value))));
+                setCalculation(null);
+              }}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="irrfTolerance">Tolerância (R$)</Label>
+            <Input
+              id="irrfTolerance"
+              type="number"
+              min={0}
+              step={0.01}
+              className="w-[120px]"
+              value={tolerance}
+              onChange={(event) => {
+                setTolerance(Math.max(0, Number(event.target.value)));
+                setCalculation(null);
+              }}
+            />
+          </div>
+          <div className="ml-auto space-x-2">
+            <Button variant="outline" onClick={handleExportXLSX} disabled={!calculation}>
+              <FileSpreadsheet className="mr-2 h-4 w-4" />
+              Exportar XLSX
+            </Button>
+            <Button onClick={handleCalculate} disabled={isCalculating}>
+              <Calculator className="mr-2 h-4 w-4" />
+              {isCalculating ? "Calculando..." : "Calcular"}
+            </Button>
+          </div>
+        </div>
+
+        {calculation && (
+          <>
+            <div className="text-xs text-gray-500 space-y-1">
+              {calculation.groups.map((group) => (
+                <div key={group.name}>
+                  <span className="font-medium">{group.name}:</span> rendimentos {group.taxableColumns.join(", ") || "-"};
+                  deduções {group.deductionColumns.join(", ") || "-"}; imposto {group.withheldColumns.join(", ")}
+                </div>
+              ))}
+            </div>
+
+            <p className={`text-sm ${discrepancies > 0 ? "text-red-700" : "text-green-700"}`}>
+              {discrepancies > 0
+                ? `${discrepancies} ${discrepancies === 1 ? "divergência encontrada" : "divergências encontradas"}.`
+                : "O IRRF retido confere com o recalculado em todas as competências."}
+            </p>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Competência</TableHead>
+                  <TableHead>Grupo</TableHead>
+                  <TableHead className="text-right">Rendimentos</TableHead>
+                  <TableHead className="text-right">Deduções</TableHead>
+                  <TableHead className="text-right">Base</TableHead>
+                  <TableHead className="text-right">Alíquota</TableHead>
+                  <TableHead className="text-right">Devido</TableHead>
+                  <TableHead className="text-right">Retido</TableHead>
+                  <TableHead className="text-right">Diferença</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {calculation.rows.map((row) => (
+                  <TableRow key={`${row.date}-${row.group}`} className={row.discrepancy ? "bg-red-50" : undefined}>
+                    <TableCell className="font-medium">
+                      {row.date}
+                      {row.prescribed && <div className="text-xs font-normal text-rose-900">Prescrita</div>}
+                    </TableCell>
+                    <TableCell>{row.group}</TableCell>
+                    <TableCell className="text-right">{formatCurrencyValue(row.gross)}</TableCell>
+                    <TableCell
+                      className="text-right"
+                      title={row.deductionType === "simplified" ? "Desconto simplificado" : "Previdência e dependentes"}
+                    >
+                      {formatCurrencyValue(row.deductions)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrencyValue(row.base)}</TableCell>
+                    <TableCell className="text-right" title={row.table ? `Tabela de ${row.table}` : "Sem tabela para a competência"}>
+                      {row.table ? formatRate(row.rate) : "-"}
+                    </TableCell>
+                    <TableCell
+                      className="text-right"
+                      title={row.reduction > 0 ? `Redução de ${formatCurrencyValue(row.reduction)}` : undefined}
+                    >
+                      {formatCurrencyValue(row.expected)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrencyValue(row.withheld)}</TableCell>
+                    <TableCell className={`text-right font-medium ${row.discrepancy ? "text-red-700" : ""}`}>
+                      {formatCurrencyValue(row.difference)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="bg-muted/50 font-semibold">
+                  <TableCell>Total</TableCell>
+                  <TableCell colSpan={5} />
+                  <TableCell className="text-right">{formatCurrencyValue(calculation.totals.expected)}</TableCell>
+                  <TableCell className="text-right">{formatCurrencyValue(calculation.totals.withheld)}</TableCell>
+                  <TableCell className="text-right">{formatCurrencyValue(calculation.totals.difference)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,267 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatPayrollType, payrollTypeLabels } from "@/lib/payroll-types";
+import { Save, Trash2, Undo2, Plus } from "lucide-react";
+
+interface PayrollOverride {
+  id: number;
+  action: "edit" | "add" | "delete" | "revert";
+  changedBy: string;
+  changedAt: string;
+}
+
+interface PayrollItemState {
+  payrollType: string;
+  code: string;
+  description: string;
+  extractedValue: number | null;
+  value: number | null;
+  override?: PayrollOverride;
+}
+
+interface PayrollItemsModalProps {
+  date: string | null;
+  onClose: () => void;
+}
+
+const formatCurrencyValue = (value: number | null) =>
+  value === null ? "—" : `R$ ${value.toFixed(2).replace('.', ',')}`;
+
+// Converte valores digitados no formato brasileiro (1.234,56) para número
+const parseCurrencyInput = (input: string): number => {
+  const normalized = input.includes(",")
+    ? input.replace(/\./g, "").replace(",", ".")
+    : input;
+  return parseFloat(normalized.replace(/[^\d.-]/g, ""));
+};
+
+const formatInputValue = (value: number | null) =>
+  value === null ? "" : value.toFixed(2).replace('.', ',');
+
+// A mesma verba pode constar de mais de uma folha da competência (normal, 13º...)
+const itemKey = (item: PayrollItemState) => `${item.payrollType}|${item.code}`;
+
+export default function PayrollItemsModal({ date, onClose }: PayrollItemsModalProps) {
+  const [editedValues, setEditedValues] = useState<Record<string, string>>({});
+  const [newPayrollType, setNewPayrollType] = useState("NORMAL");
+  const [newCode, setNewCode] = useState("");
+  const [newDescription, setNewDescription] = useState("");
+  const [newValue, setNewValue] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const itemsQueryKey = `/api/payroll-data/items?${new URLSearchParams({ date: date || "" }).toString()}`;
+  const { data: items, isLoading } = useQuery<PayrollItemState[]>({
+    queryKey: [itemsQueryKey],
+    enabled: date !== null,
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    const values: Record<string, string> = {};
+    (items || []).forEach((item) => {
+      values[itemKey(item)] = formatInputValue(item.value);
+    });
+    setEditedValues(values);
+  }, [items]);
+
+  const resetNewItem = () => {
+    setNewPayrollType("NORMAL");
+    setNewCode("");
+    setNewDescription("");
+    setNewValue("");
+  };
+
+  const handleClose = () => {
+    resetNewItem();
+    onClose();
+  };
+
+  // Executa a alteração e atualiza a tabela de resultados
+  const runChange = async (change: () => Promise<Response>, successMessage: string) => {
+    setSaving(true);
+    try {
+      await change();
+      toast({ title: successMessage });
+      queryClient.invalidateQueries({ queryKey: [itemsQueryKey] });
+      queryClient.invalidateQueries({ queryKey: ['/api/payroll-data'] });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Erro ao salvar alteração",
+        description: error instanceof Error ? error.message : "Não foi possível salvar a alteração",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = (item: PayrollItemState) => {
+    const value = parseCurrencyInput(editedValues[itemKey(item)] || "");
+    if (isNaN(value)) {
+      toast({
+        variant: "destructive",
+        title: "Valor inválido",
+        description: "Informe um valor numérico, por exemplo 1.234,56",
+      });
+      return;
+    }
+
+    runChange(
+      () => apiRequest("PUT", "/api/payroll-data/items", { date, payrollType: item.payrollType, code: item.code, value }),
+      "Valor corrigido com sucesso"
+    );
+  };
+
+  const handleDelete = (item: PayrollItemState) => {
+    const params = new URLSearchParams({ date: date || "", payrollType: item.payrollType, code: item.code }).toString();
+    runChange(
+      () => apiRequest("DELETE", `/api/payroll-data/items?${params}`),
+      "Item excluído com sucesso"
+    );
+  };
+
+  const handleRevert = (item: PayrollItemState) => {
+    runChange(
+      () => apiRequest("POST", "/api/payroll-data/items/revert", { date, payrollType: item.payrollType, code: item.code }),
+      "Valor extraído restaurado"
+    );
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = parseCurrencyInput(newValue);
+    if (!newCode.trim() || isNaN(value)) {
+      toast({
+        variant: "destructive",
+        title: "Campos obrigatórios",
+        description: "Informe o código e um valor numérico",
+      });
+      return;
+    }
+
+    await runChange(
+      () => apiRequest("PUT", "/api/payroll-data/items", {
+        date,
+        payrollType: newPayrollType,
+        code: newCode.trim(),
+        description: newDescription.trim() || undefined,
+        value
+      }),
+      "Item adicionado com sucesso"
+    );
+    resetNewItem();
+  };
+
+  return (
+    <Dialog open={date !== null} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-[90%] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Corrigir valores · {date}</DialogTitle>
+          <DialogDescription>
+            As correções substituem o valor extraído na tabela e nas exportações. O valor original e o histórico de alterações são preservados.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Código</TableHead>
+              <TableHead>Descrição</TableHead>
+              <TableHead className="text-right">Extraído</TableHead>
+              <TableHead className="w-[160px]">Valor</TableHead>
+              <TableHead>Alteração</TableHead>
+              <TableHead className="w-[140px]">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-6">Carregando...</TableCell>
+              </TableRow>
+            ) : !items || items.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-6">Nenhum item nesta competência.</TableCell>
+              </TableRow>
+            ) : (
+              items.map((item) => (
+                <TableRow key={itemKey(item)} className={item.value === null ? "opacity-60" : ""}>
+                  <TableCell className="font-medium">{item.code}</TableCell>
+                  <TableCell>
+                    {item.description}
+                    {item.payrollType !== "NORMAL" && (
+                      <div className="text-xs text-gray-500">{formatPayrollType(item.payrollType)}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrencyValue(item.extractedValue)}</TableCell>
+                  <TableCell>
+                    <Input
+                      value={editedValues[itemKey(item)] ?? ""}
+                      placeholder={item.value === null ? "Excluído" : ""}
+                      onChange={(e) => setEditedValues({ ...editedValues, [itemKey(item)]: e.target.value })}
+                      className="h-8"
+                    />
+                  </TableCell>
+                  <TableCell className="text-xs text-gray-500">
+                    {item.override
+                      ? `${item.override.action === "delete" ? "Excluído" : "Alterado"} por ${item.override.changedBy} em ${new Date(item.override.changedAt).toLocaleString("pt-BR")}`
+                      : "—"}
+                  </TableCell>
+                  <TableCell className="flex gap-1">
+                    <Button size="sm" variant="outline" disabled={saving} onClick={() => handleSave(item)} title="Salvar">
+                      <Save className="h-4 w-4" />
+                    </Button>
+                    {item.value !== null && (
+                      <Button size="sm" variant="destructive" disabled={saving} onClick={() => handleDelete(item)} title="Excluir">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {item.override && (
+                      <Button size="sm" variant="ghost" disabled={saving} onClick={() => handleRevert(item)} title="Desfazer correção">
+                        <Undo2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-5 gap-2 border-t pt-4">
+          <Select value={newPayrollType} onValueChange={setNewPayrollType}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.keys(payrollTypeLabels).map((payrollType) => (
+                <SelectItem key={payrollType} value={payrollType}>{formatPayrollType(payrollType)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input placeholder="Código" value={newCode} onChange={(e) => setNewCode(e.target.value)} />
+          <Input placeholder="Descrição" value={newDescription} onChange={(e) => setNewDescription(e.target.value)} />
+          <Input placeholder="Valor (ex: 1.234,56)" value={newValue} onChange={(e) => setNewValue(e.target.value)} />
+          <Button type="submit" disabled={saving}>
+            <Plus className="mr-2 h-4 w-4" />
+            Adicionar item
+          </Button>
+        </form>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={handleClose}>
+            Fechar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,70 +1,262 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { Card, CardHeader, CardContent, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { FileText, X, Wand2 } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery } from "@tanstack/react-query";
+import { FileText, X, Wand2, Ban, Search } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import CodeDiscoveryModal from "@/components/code-discovery-modal";
+import DuplicateFilesModal from "@/components/duplicate-files-modal";
+
+interface LayoutProfileSummary {
+  id: string;
+  name: string;
+  description?: string;
+  builtIn: boolean;
+}
+
+interface LayoutDetection {
+  profileId: string;
+  confidence: number;
+  automatic: boolean;
+  candidates: { profileId: string; confidence: number }[];
+}
+
+interface ExtractionDiagnostics {
+  totalPages: number;
+  pagesWithoutDate: number[];
+  pagesWithoutItems: { pageNumber: number; date: string }[];
+  ocrPages?: number[];
+  layout?: LayoutDetection;
+}
+
+interface BatchFileSummary {
+  fileName: string;
+  dates: string[];
+  itemsExtracted: number;
+  diagnostics?: ExtractionDiagnostics;
+  error?: string;
+}
+
+interface DiscoveredCode {
+  code: string;
+  description: string;
+  category: 'PROVENTOS' | 'DESCONTOS' | 'OUTROS';
+  occurrences: number;
+  months: string[];
+  total: number;
+  mappedTo?: string;
+}
+
+interface ExtractionJob {
+  id: string;
+  status: "queued" | "running" | "conflict" | "completed" | "failed" | "cancelled";
+  progress: {
+    totalFiles: number;
+    filesProcessed: number;
+    currentFile?: string;
+    pagesProcessed: number;
+    currentFilePages?: number;
+    datesFound: string[];
+    errors: string[];
+  };
+  files: BatchFileSummary[];
+  savedCount: number;
+  skippedCount: number;
+  replacedCount: number;
+  duplicates?: DuplicateFile[]; // Contracheques já importados, quando o job aguarda a decisão do usuário
+}
+
+interface DuplicateFile {
+  fileName: string;
+  dates: string[];
+}
+
+// Tratamento dos arquivos já importados: perguntar (padrão), ignorar ou substituir
+type DuplicateMode = "ask" | "skip" | "replace";
+
+// Intervalo de consulta do andamento do job (ms)
+const JOB_POLL_INTERVAL = 1000;
+
+// Abaixo desta confiança o layout usado é destacado para conferência
+const LOW_LAYOUT_CONFIDENCE = 0.5;
+
+const AUTO_PROFILE_ID = "auto";
+
+const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}%`;
+
+// Ordena competências "MM/AAAA" do mais antigo para o mais recente
+const compareMonths = (a: string, b: string) => {
+  const [monthA, yearA] = a.split("/");
+  const [monthB, yearB] = b.split("/");
+  return yearA.localeCompare(yearB) || monthA.localeCompare(monthB);
+};
+
+// Junta os catálogos de vários arquivos, somando ocorrências e totais do mesmo código
+const mergeCatalogues = (catalogues: DiscoveredCode[][]) => {
+  const merged = new Map<string, DiscoveredCode>();
+  catalogues.flat().forEach((entry) => {
+    const existing = merged.get(entry.code);
+    if (!existing) {
+      merged.set(entry.code, { ...entry, months: [...entry.months] });
+      return;
+    }
+    existing.occurrences += entry.occurrences;
+    existing.total = parseFloat((existing.total + entry.total).toFixed(2));
+    existing.months = Array.from(new Set([...existing.months, ...entry.months])).sort(compareMonths);
+  });
+  return Array.from(merged.values()).sort((a, b) => a.code.localeCompare(b.code));
+};
 
 interface PDFUploadSectionProps {
-  type: "ERP" | "RH";
   codes: string;
   onProcessSuccess: () => void;
+  onCodesDiscovered: (codes: string[]) => void; // Códigos escolhidos no catálogo da descoberta
 }
 
 export default function PDFUploadSection({ 
-  type, 
   codes, 
-  onProcessSuccess 
+  onProcessSuccess,
+  onCodesDiscovered
 }: PDFUploadSectionProps) {
-  const [file, setFile] = useState<File | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [profileId, setProfileId] = useState(AUTO_PROFILE_ID);
+  const [job, setJob] = useState<ExtractionJob | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [isDiscovering, setIsDiscovering] = useState(false);
+  const [catalogue, setCatalogue] = useState<DiscoveredCode[] | null>(null);
+  const [duplicates, setDuplicates] = useState<DuplicateFile[] | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
   
-  const isERP = type === "ERP";
-  const bgColor = isERP ? "bg-blue-600" : "bg-green-600";
-  const hoverColor = isERP ? "hover:bg-blue-700" : "hover:bg-green-700";
-  const borderColor = isERP ? "focus:border-blue-500 focus:ring-blue-500" : "focus:border-green-500 focus:ring-green-500";
-  const textColor = isERP ? "text-blue-600" : "text-green-600";
-  const textHoverColor = isERP ? "hover:text-blue-800" : "hover:text-green-800";
+  const { data: profiles = [] } = useQuery<LayoutProfileSummary[]>({
+    queryKey: ['/api/layout-profiles'],
+  });
+  const selectedProfile = profiles.find((profile) => profile.id === profileId);
+  const profileName = (id: string) => profiles.find((profile) => profile.id === id)?.name || id;
   
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const selectedFile = e.target.files[0];
+  // Descreve o layout usado no arquivo e sugere outro quando ele parece mais adequado que o escolhido
+  const describeLayout = (layout: LayoutDetection) => {
+    const best = layout.candidates[0];
+    const suggestion = !layout.automatic && best && best.profileId !== layout.profileId && best.confidence > layout.confidence
+      ? ` · o layout ${profileName(best.profileId)} parece mais adequado (${formatConfidence(best.confidence)})`
+      : "";
+    return `Layout ${profileName(layout.profileId)} ${layout.automatic ? "detectado" : "escolhido"}` +
+      ` · confiança ${formatConfidence(layout.confidence)}${suggestion}`;
+  };
+  
+  const isJobActive = job?.status === "queued" || job?.status === "running";
+  
+  const notifyCompleted = (completedJob: ExtractionJob) => {
+    const failedFiles = completedJob.files.filter((file) => file.error).length;
+    if (failedFiles > 0) {
+      toast({
+        variant: "destructive",
+        title: "Alguns arquivos falharam",
+        description: `${failedFiles} de ${completedJob.progress.totalFiles} arquivos não puderam ser processados`,
+      });
+    }
+    onProcessSuccess();
+  };
+  
+  // Consulta periodicamente o andamento do job enquanto ele estiver ativo
+  useEffect(() => {
+    if (!job || !isJobActive) return;
+    
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/jobs/${job.id}`, { credentials: "include" });
+        if (!response.ok) {
+          throw new Error(`Erro ao consultar o processamento (${response.status})`);
+        }
+        
+        const updatedJob: ExtractionJob = await response.json();
+        setJob(updatedJob);
+        
+        if (updatedJob.status === "completed") {
+          notifyCompleted(updatedJob);
+        } else if (updatedJob.status === "conflict") {
+          // Contracheques já importados a partir de outro arquivo: o job aguarda a decisão do usuário
+          setDuplicates(updatedJob.duplicates || []);
+        } else if (updatedJob.status === "cancelled") {
+          toast({
+            title: "Processamento cancelado",
+            description: "Nenhum dado deste envio foi salvo",
+          });
+        } else if (updatedJob.status === "failed") {
+          toast({
+            variant: "destructive",
+            title: "Erro ao processar o PDF",
+            description: updatedJob.progress.errors[updatedJob.progress.errors.length - 1] || "Ocorreu um erro ao processar os arquivos",
+          });
+        }
+      } catch (error) {
+        console.error("Error polling job:", error);
+        setJob({ ...job, status: "failed" });
+      }
+    }, JOB_POLL_INTERVAL);
+    
+    return () => clearTimeout(timer);
+  }, [job]);
+  
+  // Valida os arquivos selecionados, aceitando PDFs e arquivos ZIP com PDFs
+  const addFiles = (selectedFiles: FileList) => {
+    const validFiles: File[] = [];
+    
+    Array.from(selectedFiles).forEach((selectedFile) => {
+      const isPDF = selectedFile.type === "application/pdf" || selectedFile.name.toLowerCase().endsWith(".pdf");
+      const isZIP = selectedFile.name.toLowerCase().endsWith(".zip");
       
       // Validate file type
-      if (selectedFile.type !== "application/pdf") {
+      if (!isPDF && !isZIP) {
         toast({
           variant: "destructive",
           title: "Tipo de arquivo inválido",
-          description: "Por favor, selecione um arquivo PDF",
+          description: `${selectedFile.name} não é um arquivo PDF ou ZIP`,
         });
         return;
       }
       
-      // Validate file size (10MB max)
-      if (selectedFile.size > 10 * 1024 * 1024) {
+      // Validate file size (10MB max per PDF, 50MB per ZIP)
+      const maxSize = isZIP ? 50 * 1024 * 1024 : 10 * 1024 * 1024;
+      if (selectedFile.size > maxSize) {
         toast({
           variant: "destructive",
           title: "Arquivo muito grande",
-          description: "O tamanho máximo permitido é 10MB",
+          description: `${selectedFile.name} excede o tamanho máximo de ${isZIP ? "50MB" : "10MB"}`,
         });
         return;
       }
       
-      setFile(selectedFile);
+      validFiles.push(selectedFile);
+    });
+    
+    if (validFiles.length > 0) {
+      setFiles((current) => [...current, ...validFiles]);
+      if (!isJobActive) {
+        setJob(null);
+      }
+    }
+  };
+  
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      addFiles(e.target.files);
     }
   };
   
-  const handleRemoveFile = () => {
-    setFile(null);
+  const handleRemoveFile = (index: number) => {
+    setFiles((current) => current.filter((_, i) => i !== index));
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
   };
   
-  const handleProcessFile = async () => {
-    if (!file) {
+  const handleProcessFile = async (duplicateMode: DuplicateMode = "ask") => {
+    if (files.length === 0) {
       toast({
         variant: "destructive",
         title: "Nenhum arquivo selecionado",
@@ -77,7 +269,7 @@ export default function PDFUploadSection({
       toast({
         variant: "destructive",
         title: "Nenhum código informado",
-        description: "Por favor, informe os códigos das verbas para extrair",
+        description: "Informe os códigos das verbas para extrair ou use \"Descobrir códigos\"",
       });
       return;
     }
@@ -86,22 +278,35 @@ export default function PDFUploadSection({
       setIsUploading(true);
       
       const formData = new FormData();
-      formData.append("pdf", file);
-      formData.append("source", type);
+      files.forEach((file) => formData.append("pdfs", file));
+      formData.append("profile", profileId);
       formData.append("codes", codes);
+      formData.append("onDuplicate", duplicateMode);
       
-      const response = await fetch("/api/process-pdf", {
+      const response = await fetch("/api/jobs", {
         method: "POST",
         body: formData,
         credentials: "include",
       });
       
+      // Arquivos já importados: o usuário escolhe entre ignorar e substituir antes de reenviar
+      if (response.status === 409) {
+        const conflict: { duplicates: DuplicateFile[] } = await response.json();
+        setDuplicates(conflict.duplicates);
+        return;
+      }
+      
       if (!response.ok) {
         const errorText = await response.text();
         throw new Error(errorText || `Erro ao processar PDF (${response.status})`);
       }
       
-      onProcessSuccess();
+      const createdJob: ExtractionJob = await response.json();
+      setJob(createdJob);
+      setFiles([]);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
       
     } catch (error) {
       console.error("Error processing PDF:", error);
@@ -115,50 +320,135 @@ export default function PDFUploadSection({
     }
   };
   
-  const handleDragOver = (e: React.DragEvent) => {
-    e.preventDefault();
-  };
-  
-  const handleDrop = (e: React.DragEvent) => {
-    e.preventDefault();
-    
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const droppedFile = e.dataTransfer.files[0];
+  // Lista todas as verbas dos arquivos selecionados, sem salvar, para o usuário escolher o que extrair
+  const handleDiscoverCodes = async () => {
+    try {
+      setIsDiscovering(true);
+      const catalogues: DiscoveredCode[][] = [];
       
-      // Validate file type
-      if (droppedFile.type !== "application/pdf") {
-        toast({
-          variant: "destructive",
-          title: "Tipo de arquivo inválido",
-          description: "Por favor, selecione um arquivo PDF",
+      for (const file of files) {
+        const formData = new FormData();
+        formData.append("pdf", file);
+        formData.append("profile", profileId);
+        formData.append("mode", "discover");
+        
+        const response = await fetch("/api/process-pdf", {
+          method: "POST",
+          body: formData,
+          credentials: "include",
         });
-        return;
+        
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(errorText || `Erro ao ler ${file.name} (${response.status})`);
+        }
+        
+        const { catalogue: fileCatalogue } = await response.json();
+        catalogues.push(fileCatalogue);
       }
       
-      // Validate file size (10MB max)
-      if (droppedFile.size > 10 * 1024 * 1024) {
+      setCatalogue(mergeCatalogues(catalogues));
+    } catch (error) {
+      console.error("Error discovering codes:", error);
+      toast({
+        variant: "destructive",
+        title: "Erro ao descobrir códigos",
+        description: error instanceof Error ? error.message : "Ocorreu um erro ao ler os arquivos",
+      });
+    } finally {
+      setIsDiscovering(false);
+    }
+  };
+  
+  const handleCancelJob = async () => {
+    if (!job) return;
+    
+    try {
+      const response = await apiRequest("POST", `/api/jobs/${job.id}/cancel`);
+      setJob(await response.json());
+    } catch (error) {
+      console.error("Error cancelling job:", error);
+      toast({
+        variant: "destructive",
+        title: "Erro ao cancelar",
+        description: "Não foi possível cancelar o processamento",
+      });
+    }
+  };
+  
+  // Grava o job em conflito ignorando ou substituindo os contracheques já importados
+  const handleResolveJob = async (duplicateMode: "skip" | "replace") => {
+    if (!job) return;
+    
+    try {
+      const response = await apiRequest("POST", `/api/jobs/${job.id}/resolve`, { onDuplicate: duplicateMode });
+      const resolvedJob: ExtractionJob = await response.json();
+      setJob(resolvedJob);
+      if (resolvedJob.status === "completed") {
+        notifyCompleted(resolvedJob);
+      } else if (resolvedJob.status === "failed") {
         toast({
           variant: "destructive",
-          title: "Arquivo muito grande",
-          description: "O tamanho máximo permitido é 10MB",
+          title: "Erro ao salvar",
+          description: resolvedJob.progress.errors[resolvedJob.progress.errors.length - 1] || "Não foi possível salvar os contracheques",
         });
-        return;
       }
-      
-      setFile(droppedFile);
+    } catch (error) {
+      console.error("Error resolving job:", error);
+      toast({
+        variant: "destructive",
+        title: "Erro ao salvar",
+        description: error instanceof Error ? error.message : "Não foi possível salvar os contracheques",
+      });
+    }
+  };
+  
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+  };
+  
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      addFiles(e.dataTransfer.files);
     }
   };
   
   return (
     <Card>
-      <CardHeader className={`${bgColor} text-white`}>
-        <CardTitle>{type}</CardTitle>
+      <CardHeader className="bg-blue-600 text-white">
+        <CardTitle>Contracheques</CardTitle>
         <CardDescription className="text-white/90">
-          Upload de contracheques do sistema {type}.
+          Upload de contracheques conforme o layout do sistema de origem.
         </CardDescription>
       </CardHeader>
       <CardContent className="p-6">
         <div className="flex flex-col space-y-4">
+          <div className="space-y-2">
+            <Label>Layout do contracheque</Label>
+            <Select value={profileId} onValueChange={setProfileId} disabled={isJobActive}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione o layout" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  <SelectItem value={AUTO_PROFILE_ID}>Detectar automaticamente</SelectItem>
+                  {profiles.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">
+              {profileId === AUTO_PROFILE_ID
+                ? "O layout de cada arquivo é identificado pelas primeiras páginas."
+                : selectedProfile?.description}
+            </p>
+          </div>
+          
           <div
             className="border-2 border-dashed border-gray-300 rounded-md px-6 pt-5 pb-6 flex justify-center items-center flex-col"
             onDragOver={handleDragOver}
@@ -168,53 +458,174 @@ export default function PDFUploadSection({
               <FileText className="mx-auto h-12 w-12 text-gray-400" />
               <div className="flex text-sm text-gray-600">
                 <label
-                  htmlFor={`${type.toLowerCase()}FileUpload`}
-                  className={`relative cursor-pointer bg-white rounded-md font-medium ${textColor} ${textHoverColor} focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 ${borderColor}`}
+                  htmlFor="payslipFileUpload"
+                  className="relative cursor-pointer bg-white rounded-md font-medium text-blue-600 hover:text-blue-800 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus:border-blue-500 focus:ring-blue-500"
                 >
-                  <span>Selecionar arquivo</span>
+                  <span>Selecionar arquivos</span>
                   <input
-                    id={`${type.toLowerCase()}FileUpload`}
+                    id="payslipFileUpload"
                     type="file"
                     className="sr-only"
-                    accept=".pdf"
+                    accept=".pdf,.zip"
+                    multiple
                     onChange={handleFileChange}
                     ref={fileInputRef}
                   />
                 </label>
                 <p className="pl-1">ou arraste e solte</p>
               </div>
-              <p className="text-xs text-gray-500">PDF até 10MB</p>
+              <p className="text-xs text-gray-500">PDFs até 10MB ou ZIP até 50MB</p>
             </div>
           </div>
           
-          {file && (
-            <div className="p-4 bg-gray-50 rounded-md">
-              <div className="flex items-center">
-                <FileText className="h-5 w-5 text-gray-400" />
-                <span className="ml-2 text-sm text-gray-500 truncate">
-                  {file.name}
+          {files.length > 0 && (
+            <div className="p-4 bg-gray-50 rounded-md space-y-2">
+              {files.map((file, index) => (
+                <div key={`${file.name}-${index}`} className="flex items-center">
+                  <FileText className="h-5 w-5 text-gray-400" />
+                  <span className="ml-2 text-sm text-gray-500 truncate">
+                    {file.name}
+                  </span>
+                  <button
+                    type="button"
+                    className="ml-auto text-gray-500 hover:text-gray-700"
+                    onClick={() => handleRemoveFile(index)}
+                  >
+                    <X className="h-5 w-5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          
+          <div className="flex space-x-2">
+            <Button
+              variant="outline"
+              onClick={handleDiscoverCodes}
+              disabled={isDiscovering || isUploading || isJobActive || files.length === 0}
+            >
+              <Search className="mr-2 h-5 w-5" />
+              {isDiscovering ? "Lendo arquivos..." : "Descobrir códigos"}
+            </Button>
+            <Button
+              className="flex-1 bg-blue-600 hover:bg-blue-700"
+              onClick={() => handleProcessFile()}
+              disabled={isUploading || isDiscovering || isJobActive || files.length === 0}
+            >
+              <Wand2 className="mr-2 h-5 w-5" />
+              {isUploading
+                ? "Enviando..."
+                : isJobActive
+                  ? "Processando..."
+                  : files.length > 1 ? `Processar ${files.length} arquivos` : "Processar"}
+            </Button>
+          </div>
+          
+          {job && isJobActive && (
+            <div className="space-y-2 text-sm">
+              <Progress
+                value={job.progress.totalFiles > 0 ? (job.progress.filesProcessed / job.progress.totalFiles) * 100 : 0}
+              />
+              <div className="flex items-center text-gray-600">
+                <span className="truncate">
+                  {job.status === "queued"
+                    ? "Aguardando na fila..."
+                    : `Arquivo ${Math.min(job.progress.filesProcessed + 1, job.progress.totalFiles)} de ${job.progress.totalFiles}` +
+                      ` · ${job.progress.pagesProcessed} página(s) lida(s)` +
+                      ` · ${job.progress.datesFound.length} competência(s) encontrada(s)`}
                 </span>
-                <button
-                  type="button"
-                  className="ml-auto text-gray-500 hover:text-gray-700"
-                  onClick={handleRemoveFile}
-                >
-                  <X className="h-5 w-5" />
-                </button>
+                <Button variant="ghost" size="sm" className="ml-auto" onClick={handleCancelJob}>
+                  <Ban className="mr-1 h-4 w-4" />
+                  Cancelar
+                </Button>
               </div>
+              {job.progress.currentFile && (
+                <div className="text-xs text-gray-500 truncate">{job.progress.currentFile}</div>
+              )}
             </div>
           )}
           
-          <Button
-            className={`${bgColor} ${hoverColor}`}
-            onClick={handleProcessFile}
-            disabled={isUploading || !file}
-          >
-            <Wand2 className="mr-2 h-5 w-5" />
-            {isUploading ? "Processando..." : "Processar"}
-          </Button>
+          {job && job.status === "completed" && (
+            <div className="text-sm border rounded-md divide-y">
+              <div className="px-3 py-2 font-medium">
+                {job.files.length} arquivo(s) processado(s), {job.savedCount} competência(s) salva(s)
+                {job.skippedCount > 0 && `, ${job.skippedCount} já importada(s) ignorada(s)`}
+                {job.replacedCount > 0 && `, ${job.replacedCount} substituída(s)`}
+              </div>
+              {job.files.map((fileSummary, index) => (
+                <div key={`${fileSummary.fileName}-${index}`} className="px-3 py-2">
+                  <div className="truncate font-medium text-gray-700">{fileSummary.fileName}</div>
+                  {fileSummary.error ? (
+                    <div className="text-red-600">Falha: {fileSummary.error}</div>
+                  ) : (
+                    <>
+                      <div className="text-gray-500">
+                        {fileSummary.dates.length > 0
+                          ? `${fileSummary.dates.join(", ")} · ${fileSummary.itemsExtracted} itens`
+                          : "Nenhuma competência encontrada"}
+                      </div>
+                      {fileSummary.diagnostics?.layout && (
+                        <div
+                          className={`text-xs mt-1 ${
+                            fileSummary.diagnostics.layout.confidence < LOW_LAYOUT_CONFIDENCE ? "text-red-600" : "text-gray-500"
+                          }`}
+                        >
+                          {describeLayout(fileSummary.diagnostics.layout)}
+                        </div>
+                      )}
+                      {fileSummary.diagnostics && (
+                        <div className="text-xs text-amber-700 space-y-0.5 mt-1">
+                          {fileSummary.diagnostics.ocrPages && fileSummary.diagnostics.ocrPages.length > 0 && (
+                            <div>
+                              Páginas digitalizadas lidas por OCR (confira os valores): {fileSummary.diagnostics.ocrPages.join(", ")}
+                            </div>
+                          )}
+                          {fileSummary.diagnostics.pagesWithoutDate.length > 0 && (
+                            <div>
+                              Páginas sem competência (ignoradas): {fileSummary.diagnostics.pagesWithoutDate.join(", ")}
+                            </div>
+                          )}
+                          {fileSummary.diagnostics.pagesWithoutItems.length > 0 && (
+                            <div>
+                              Páginas sem os códigos informados:{" "}
+                              {fileSummary.diagnostics.pagesWithoutItems
+                                .map((page) => `${page.pageNumber} (${page.date})`)
+                                .join(", ")}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </CardContent>
+      
+      <CodeDiscoveryModal
+        catalogue={catalogue}
+        onClose={() => setCatalogue(null)}
+        onConfirm={onCodesDiscovered}
+      />
+      
+      <DuplicateFilesModal
+        duplicates={duplicates}
+        onClose={() => {
+          setDuplicates(null);
+          // Sem decisão, o job em conflito é descartado sem salvar nada
+          if (job?.status === "conflict") handleCancelJob();
+        }}
+        onChoose={(mode) => {
+          setDuplicates(null);
+          if (job?.status === "conflict") {
+            handleResolveJob(mode);
+          } else {
+            handleProcessFile(mode);
+          }
+        }}
+      />
     </Card>
   );
 }
@@ -0,0 +1,101 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { useQuery } from "@tanstack/react-query";
+import { formatPayrollType } from "@/lib/payroll-types";
+
+interface TotalReconciliation {
+  total: 'proventos' | 'descontos' | 'net';
+  extracted: number;
+  printed: number;
+  difference: number;
+}
+
+interface MonthlyReconciliation {
+  date: string;
+  payrollType?: string;
+  totals: TotalReconciliation[];
+  missingItems: boolean;
+}
+
+interface ReconciliationModalProps {
+  isOpen: boolean;
+  separateTypes?: boolean; // Confere cada tipo de folha da competência separadamente
+  onClose: () => void;
+}
+
+const TOTAL_LABELS: Record<TotalReconciliation['total'], string> = {
+  proventos: 'Total de Vantagens',
+  descontos: 'Total de Descontos',
+  net: 'Líquido a Receber'
+};
+
+const formatCurrencyValue = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+
+export default function ReconciliationModal({ isOpen, separateTypes = false, onClose }: ReconciliationModalProps) {
+  const { data, isLoading } = useQuery<MonthlyReconciliation[]>({
+    queryKey: [`/api/payroll-data/reconciliation${separateTypes ? '?separateTypes=true' : ''}`],
+    enabled: isOpen,
+    staleTime: 0,
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Conferência dos totais impressos</DialogTitle>
+          <DialogDescription>
+            Soma das verbas extraídas comparada com os totais impressos em cada contracheque.
+            Diferenças indicam códigos que não foram informados na extração.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-8 text-center text-gray-500">Carregando...</div>
+        ) : !data || data.length === 0 ? (
+          <div className="py-8 text-center text-gray-500">
+            Nenhum total impresso foi encontrado nos contracheques processados.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Competência</TableHead>
+                <TableHead>Total</TableHead>
+                <TableHead className="text-right">Extraído</TableHead>
+                <TableHead className="text-right">Impresso</TableHead>
+                <TableHead className="text-right">Diferença</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.flatMap((month) =>
+                month.totals.map((line, index) => (
+                  <TableRow
+                    key={`${month.date}-${month.payrollType || ""}-${line.total}`}
+                    className={month.missingItems ? "bg-orange-50" : ""}
+                  >
+                    <TableCell className="font-medium">
+                      {index === 0 && (
+                        <>
+                          {month.date}
+                          {month.payrollType && (
+                            <div className="text-xs font-normal text-gray-500">{formatPayrollType(month.payrollType)}</div>
+                          )}
+                        </>
+                      )}
+                    </TableCell>
+                    <TableCell>{TOTAL_LABELS[line.total]}</TableCell>
+                    <TableCell className="text-right">{formatCurrencyValue(line.extracted)}</TableCell>
+                    <TableCell className="text-right">{formatCurrencyValue(line.printed)}</TableCell>
+                    <TableCell className={`text-right ${Math.abs(line.difference) > 0.01 ? "text-red-700 font-semibold" : "text-green-700"}`}>
+                      {formatCurrencyValue(line.difference)}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,20 +1,153 @@
+import { useState } from "react";
 import { Card, CardHeader, CardContent, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Download, FileJson } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { ClipboardCheck, Download, FileJson, FileSpreadsheet, Landmark, Pencil, Percent } from "lucide-react";
 import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { formatPayrollType } from "@/lib/payroll-types";
 
 interface CodeInfo {
   code: string;
   description: string;
 }
 
+interface OverriddenCell {
+  date: string;
+  payrollType?: string;
+  column: string;
+}
+
+// Linha da tabela: a competência e, com as folhas separadas, o tipo de folha
+interface PayrollRowKey {
+  date: string;
+  payrollType?: string;
+}
+
+interface LowConfidenceCell {
+  date: string;
+  payrollType?: string;
+  column: string;
+  confidence: number;
+}
+
+interface MonthlyTotals {
+  date: string;
+  payrollType?: string;
+  proventos: number;
+  descontos: number;
+  net: number;
+  printed: { proventos?: number; descontos?: number; net?: number };
+  reconciliation: { total: 'proventos' | 'descontos' | 'net'; extracted: number; printed: number; difference: number }[];
+  netMismatch: boolean;
+  missingItems: boolean;
+}
+
+// Índice de correção monetária e período da série importada no servidor
+interface PriceIndex {
+  id: string;
+  name: string;
+  firstMonth?: string;
+  lastMonth?: string;
+  months: number;
+}
+
+// Correção monetária escolhida: índice e competência de destino (MM/AAAA)
+export interface MonetaryCorrection {
+  index: string;
+  target: string;
+}
+
+// Prescrição quinquenal do processo: ajuizamento e primeira competência não prescrita (MM/AAAA)
+export interface PrescriptionSettings {
+  filingDate: string | null;
+  excludePrescribed: boolean;
+  limit: string | null;
+}
+
+interface CorrectedTotals {
+  date: string;
+  payrollType?: string;
+  factor: number;
+  proventos: number;
+  descontos: number;
+  net: number;
+}
+
+// Visões exportáveis em CSV: a tabela consolidada ou as planilhas de vantagens e descontos
+export type CsvView = 'consolidado' | 'vantagens' | 'descontos';
+
+export interface CsvExportOptions {
+  ptBR: boolean; // ";" como separador e vírgula decimal; desmarcado, usa "," e ponto decimal
+  bom: boolean; // Inclui a marca BOM UTF-8 para o Excel reconhecer os acentos
+  corrected: boolean; // Exporta os valores corrigidos pela correção monetária selecionada
+}
+
+const CSV_VIEWS: { view: CsvView; label: string }[] = [
+  { view: 'consolidado', label: 'Tabela consolidada' },
+  { view: 'vantagens', label: 'Vantagens' },
+  { view: 'descontos', label: 'Descontos' },
+];
+
+// Colunas de totais exibidas após as verbas
+const TOTAL_HEADERS = ['Total Proventos', 'Total Descontos', 'Líquido'];
+
+// Colunas exibidas com a correção monetária selecionada
+const CORRECTED_HEADERS = ['Fator', 'Proventos Corrigidos', 'Descontos Corrigidos', 'Líquido Corrigido'];
+
+const NO_CORRECTION = 'nominal';
+
+// Conversão entre a competência (MM/AAAA) e o valor do campo de mês do navegador (AAAA-MM)
+const toMonthInput = (date: string) => {
+  const [month, year] = date.split('/');
+  return `${year}-${month}`;
+};
+const fromMonthInput = (value: string) => {
+  const [year, month] = value.split('-');
+  return `${month}/${year}`;
+};
+
 interface ResultsTableProps {
   data: any[];
   codeHeaders: string[];
   codeInfo?: CodeInfo[]; // Nova propriedade para informações de código
-  onExportCSV: () => void;
-  onExportJSON: () => void;
+  onExportCSV: (view: CsvView, options: CsvExportOptions) => void;
+  onExportXLSX: (corrected: boolean) => void;
+  onExportJSON: (corrected: boolean) => void;
   onReset?: () => void; // Nova propriedade para função de reset
+  onCellClick?: (date: string, column: string, payrollType?: string) => void; // Abre a revisão da origem do valor
+  overriddenCells?: OverriddenCell[]; // Células com valores corrigidos manualmente
+  lowConfidenceCells?: LowConfidenceCell[]; // Células com valores lidos por OCR
+  monthlyTotals?: MonthlyTotals[]; // Proventos, descontos e líquido de cada competência
+  onShowReconciliation?: () => void; // Abre a conferência com os totais impressos
+  onShowInterest?: () => void; // Abre o cálculo de juros de mora
+  onShowIrrf?: () => void; // Abre a conferência do IRRF retido
+  separateTypes?: boolean; // Exibe cada tipo de folha da competência (suplementar, 13º...) em linha própria
+  onSeparateTypesChange?: (separateTypes: boolean) => void;
+  dropEmptyColumns?: boolean; // Oculta as colunas em que todos os valores são zero (também nas exportações)
+  onDropEmptyColumnsChange?: (dropEmptyColumns: boolean) => void;
+  continuousTimeline?: boolean; // Inclui linhas vazias para os meses sem contracheque
+  onContinuousTimelineChange?: (continuousTimeline: boolean) => void;
+  missingMonths?: string[]; // Competências sem contracheque na linha do tempo contínua
+  priceIndexes?: PriceIndex[]; // Índices disponíveis para a correção monetária
+  correction?: MonetaryCorrection | null;
+  onCorrectionChange?: (correction: MonetaryCorrection | null) => void;
+  correctedTotals?: CorrectedTotals[]; // Totais de cada linha corrigidos até a competência de destino
+  onEditMonth?: (date: string) => void; // Abre a correção dos itens da competência
+  prescription?: PrescriptionSettings | null;
+  onPrescriptionChange?: (prescription: Pick<PrescriptionSettings, 'filingDate' | 'excludePrescribed'>) => void;
+  prescribedMonths?: string[]; // Competências prescritas mantidas na tabela (marcadas)
 }
 
 export default function ResultsTable({ 
@@ -22,9 +155,99 @@ export default function ResultsTable({
   codeHeaders,
   codeInfo = [], // Default para array vazio
   onExportCSV, 
+  onExportXLSX,
   onExportJSON,
-  onReset
+  onReset,
+  onCellClick,
+  overriddenCells = [],
+  lowConfidenceCells = [],
+  monthlyTotals = [],
+  onShowReconciliation,
+  onShowInterest,
+  onShowIrrf,
+  separateTypes = false,
+  onSeparateTypesChange,
+  dropEmptyColumns = false,
+  onDropEmptyColumnsChange,
+  continuousTimeline = false,
+  onContinuousTimelineChange,
+  missingMonths = [],
+  priceIndexes = [],
+  correction = null,
+  onCorrectionChange,
+  correctedTotals = [],
+  onEditMonth,
+  prescription = null,
+  onPrescriptionChange,
+  prescribedMonths = []
 }: ResultsTableProps) {
+  const [editMode, setEditMode] = useState(false);
+  const [csvOptions, setCsvOptions] = useState<Omit<CsvExportOptions, 'corrected'>>({ ptBR: true, bom: false });
+  const [exportCorrected, setExportCorrected] = useState(true);
+  const showTotals = monthlyTotals.length > 0;
+  const showCorrection = correctedTotals.length > 0;
+  const correctedExport = correction !== null && exportCorrected;
+  const extraHeaders = [...(showTotals ? TOTAL_HEADERS : []), ...(showCorrection ? CORRECTED_HEADERS : [])];
+  
+  const isSameRow = (cell: PayrollRowKey, row: PayrollRowKey) =>
+    cell.date === row.date && cell.payrollType === row.payrollType;
+  
+  const getTotals = (row: PayrollRowKey) => monthlyTotals.find(totals => isSameRow(totals, row));
+  
+  const getCorrectedTotals = (row: PayrollRowKey) => correctedTotals.find(totals => isSameRow(totals, row));
+  
+  // Ao escolher um índice, a correção vai até o último mês importado da série
+  const handleIndexChange = (index: string) => {
+    if (index === NO_CORRECTION) {
+      onCorrectionChange?.(null);
+      return;
+    }
+    const priceIndex = priceIndexes.find(item => item.id === index);
+    onCorrectionChange?.({ index, target: correction?.target ?? priceIndex?.lastMonth ?? '' });
+  };
+  
+  const netTitle = (totals?: MonthlyTotals) => {
+    const net = totals?.reconciliation.find(line => line.total === 'net');
+    if (!totals || !net) return undefined;
+    if (!totals.netMismatch) return 'Confere com o líquido impresso no contracheque';
+    const difference = net.extracted - net.printed;
+    return `Líquido impresso: ${formatCurrencyValue(net.printed)} (diferença de ${formatCurrencyValue(difference)}). ` +
+      'O cálculo considera apenas as verbas extraídas.';
+  };
+  
+  const isPrescribed = (row: PayrollRowKey) => prescribedMonths.includes(row.date);
+  
+  const dateTitle = (row: PayrollRowKey) => {
+    if (getTotals(row)?.missingItems) {
+      return 'Os totais impressos no contracheque diferem da soma das verbas extraídas: provavelmente faltam códigos.';
+    }
+    return isPrescribed(row)
+      ? `Competência anterior a ${prescription?.limit}: alcançada pela prescrição quinquenal.`
+      : undefined;
+  };
+  
+  const isOverridden = (row: PayrollRowKey, column: string) =>
+    overriddenCells.some(cell => isSameRow(cell, row) && cell.column === column);
+  
+  const getLowConfidence = (row: PayrollRowKey, column: string) =>
+    lowConfidenceCells.find(cell => isSameRow(cell, row) && cell.column === column);
+  
+  const cellTitle = (row: PayrollRowKey, column: string) => {
+    if (isOverridden(row, column)) return 'Valor corrigido manualmente';
+    const lowConfidence = getLowConfidence(row, column);
+    return lowConfidence
+      ? `Valor lido por OCR (confiança ${Math.round(lowConfidence.confidence * 100)}%). Confira a origem.`
+      : undefined;
+  };
+  
+  const handleCellClick = (row: PayrollRowKey, column: string) => {
+    if (editMode) {
+      onEditMonth?.(row.date);
+    } else {
+      onCellClick?.(row.date, column, row.payrollType);
+    }
+  };
+
   const formatCurrencyValue = (value: any) => {
     if (typeof value === 'number') {
       return `R$ ${value.toFixed(2).replace('.', ',')}`;
@@ -37,25 +260,171 @@ export default function ResultsTable({
       <CardHeader className="flex flex-row items-center justify-between py-5">
         <div>
           <CardTitle>Resultados da Extração</CardTitle>
-          <CardDescription>Dados extraídos dos contracheques.</CardDescription>
+          <CardDescription>
+            {editMode
+              ? "Modo de edição: clique em uma linha para corrigir, adicionar ou excluir itens da competência."
+              : "Dados extraídos dos contracheques."}
+          </CardDescription>
         </div>
-        <div className="flex space-x-2">
+        <div className="flex items-center space-x-2">
+          {onSeparateTypesChange && (
+            <div className="flex items-center space-x-2 pr-2">
+              <Switch id="separateTypes" checked={separateTypes} onCheckedChange={onSeparateTypesChange} />
+              <Label htmlFor="separateTypes" className="text-sm whitespace-nowrap">Separar folhas do mês</Label>
+            </div>
+          )}
+          {onDropEmptyColumnsChange && (
+            <div className="flex items-center space-x-2 pr-2">
+              <Switch id="dropEmptyColumns" checked={dropEmptyColumns} onCheckedChange={onDropEmptyColumnsChange} />
+              <Label htmlFor="dropEmptyColumns" className="text-sm whitespace-nowrap">Ocultar colunas vazias</Label>
+            </div>
+          )}
+          {onContinuousTimelineChange && (
+            <div className="flex items-center space-x-2 pr-2">
+              <Switch id="continuousTimeline" checked={continuousTimeline} onCheckedChange={onContinuousTimelineChange} />
+              <Label htmlFor="continuousTimeline" className="text-sm whitespace-nowrap">Linha do tempo contínua</Label>
+            </div>
+          )}
+          {onEditMonth && (
+            <Button
+              variant={editMode ? "default" : "outline"}
+              size="sm"
+              onClick={() => setEditMode(!editMode)}
+            >
+              <Pencil className="mr-2 h-4 w-4" />
+              {editMode ? "Concluir Edição" : "Editar Valores"}
+            </Button>
+          )}
+          {onShowReconciliation && monthlyTotals.length > 0 && (
+            <Button variant="outline" size="sm" onClick={onShowReconciliation}>
+              <ClipboardCheck className="mr-2 h-4 w-4" />
+              Conferir Totais
+            </Button>
+          )}
+          {onShowInterest && data.length > 0 && (
+            <Button variant="outline" size="sm" onClick={onShowInterest}>
+              <Percent className="mr-2 h-4 w-4" />
+              Juros de Mora
+            </Button>
+          )}
+          {onShowIrrf && data.length > 0 && (
+            <Button variant="outline" size="sm" onClick={onShowIrrf}>
+              <Landmark className="mr-2 h-4 w-4" />
+              Conferir IRRF
+            </Button>
+          )}
           {onReset && (
             <Button variant="destructive" size="sm" onClick={onReset}>
               Limpar Dados
             </Button>
           )}
-          <Button variant="outline" size="sm" onClick={onExportCSV}>
-            <Download className="mr-2 h-4 w-4" />
-            Exportar CSV
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Download className="mr-2 h-4 w-4" />
+                Exportar CSV
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Exportar CSV</DropdownMenuLabel>
+              {CSV_VIEWS.map(({ view, label }) => (
+                <DropdownMenuItem key={view} onClick={() => onExportCSV(view, { ...csvOptions, corrected: correctedExport })}>
+                  {label}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+              <DropdownMenuCheckboxItem
+                checked={csvOptions.ptBR}
+                onCheckedChange={(checked) => setCsvOptions({ ...csvOptions, ptBR: checked === true })}
+                onSelect={(event) => event.preventDefault()}
+              >
+                Formato pt-BR (; e vírgula decimal)
+              </DropdownMenuCheckboxItem>
+              <DropdownMenuCheckboxItem
+                checked={csvOptions.bom}
+                onCheckedChange={(checked) => setCsvOptions({ ...csvOptions, bom: checked === true })}
+                onSelect={(event) => event.preventDefault()}
+              >
+                Incluir BOM UTF-8 (Excel)
+              </DropdownMenuCheckboxItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="outline" size="sm" onClick={() => onExportXLSX(correctedExport)}>
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            Exportar XLSX
           </Button>
-          <Button variant="outline" size="sm" onClick={onExportJSON}>
+          <Button variant="outline" size="sm" onClick={() => onExportJSON(correctedExport)}>
             <FileJson className="mr-2 h-4 w-4" />
             Exportar JSON
           </Button>
         </div>
       </CardHeader>
       <CardContent>
+        {onPrescriptionChange && (
+          <div className="flex flex-wrap items-center gap-3 mb-3">
+            <Label htmlFor="filingDate" className="text-sm whitespace-nowrap">Ajuizamento</Label>
+            <Input
+              id="filingDate"
+              type="date"
+              className="h-8 w-[160px] text-sm"
+              value={prescription?.filingDate ?? ''}
+              onChange={(event) => onPrescriptionChange({
+                filingDate: event.target.value || null,
+                excludePrescribed: prescription?.excludePrescribed ?? false
+              })}
+            />
+            {prescription?.limit && (
+              <>
+                <span className="text-sm text-gray-500">Prescritas as competências anteriores a {prescription.limit}</span>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="excludePrescribed"
+                    checked={prescription.excludePrescribed}
+                    onCheckedChange={(checked) => onPrescriptionChange({ filingDate: prescription.filingDate, excludePrescribed: checked })}
+                  />
+                  <Label htmlFor="excludePrescribed" className="text-sm whitespace-nowrap">Excluir meses prescritos</Label>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {onCorrectionChange && (
+          <div className="flex flex-wrap items-center gap-3 mb-3">
+            <Label className="text-sm whitespace-nowrap">Correção monetária</Label>
+            <Select value={correction?.index ?? NO_CORRECTION} onValueChange={handleIndexChange}>
+              <SelectTrigger className="h-8 w-[220px] text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CORRECTION}>Valores nominais</SelectItem>
+                {priceIndexes.map((priceIndex) => (
+                  <SelectItem key={priceIndex.id} value={priceIndex.id} disabled={priceIndex.months === 0}>
+                    {priceIndex.name}
+                    {priceIndex.months === 0 ? " (série não importada)" : ` (${priceIndex.firstMonth} a ${priceIndex.lastMonth})`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {correction && (
+              <>
+                <Label htmlFor="correctionTarget" className="text-sm">até</Label>
+                <Input
+                  id="correctionTarget"
+                  type="month"
+                  className="h-8 w-[160px] text-sm"
+                  value={correction.target ? toMonthInput(correction.target) : ''}
+                  onChange={(event) => event.target.value && onCorrectionChange({ ...correction, target: fromMonthInput(event.target.value) })}
+                />
+                <div className="flex items-center space-x-2">
+                  <Switch id="exportCorrected" checked={exportCorrected} onCheckedChange={setExportCorrected} />
+                  <Label htmlFor="exportCorrected" className="text-sm whitespace-nowrap">Exportar valores corrigidos</Label>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
         {/* Container com rolagem horizontal e vertical */}
         <div 
           className="border rounded-md" 
@@ -96,6 +465,15 @@ export default function ResultsTable({
                         </TableHead>
                       );
                     })}
+                    {extraHeaders.map(header => (
+                      <TableHead
+                        key={header}
+                        className="font-semibold whitespace-nowrap px-4 py-3 bg-muted"
+                        style={{ minWidth: '150px' }}
+                      >
+                        {header}
+                      </TableHead>
+                    ))}
                   </TableRow>
                 </TableHeader>
               </Table>
@@ -106,28 +484,99 @@ export default function ResultsTable({
               <TableBody>
                 {data.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={codeHeaders.length + 1} className="text-center py-8 text-gray-500">
+                    <TableCell colSpan={codeHeaders.length + extraHeaders.length + 1} className="text-center py-8 text-gray-500">
                       Nenhum dado disponível. Faça o upload e processamento de PDFs para ver os resultados.
                     </TableCell>
                   </TableRow>
                 ) : (
-                  data.map((row, index) => (
-                    <TableRow key={index}>
+                  data.map((row, index) => missingMonths.includes(row.date) ? (
+                    <TableRow key={index} className="bg-gray-50 text-gray-400">
+                      <TableCell
+                        className="font-medium sticky left-0 bg-gray-50 italic"
+                        style={{ minWidth: '120px' }}
+                        title="Nenhum contracheque importado para esta competência"
+                      >
+                        {row.date}
+                        <div className="text-xs font-normal">Sem contracheque</div>
+                      </TableCell>
+                      {[...codeHeaders, ...extraHeaders].map((column) => (
+                        <TableCell key={column} className="text-right" style={{ minWidth: '150px' }}>-</TableCell>
+                      ))}
+                    </TableRow>
+                  ) : (
+                    <TableRow key={index} className={isPrescribed(row) ? 'text-gray-500' : undefined}>
                       <TableCell 
-                        className="font-medium sticky left-0 bg-background"
+                        className={`font-medium sticky left-0 ${
+                          getTotals(row)?.missingItems
+                            ? 'bg-orange-100 text-orange-900'
+                            : isPrescribed(row) ? 'bg-rose-50 text-rose-900' : 'bg-background'
+                        } ${editMode ? 'cursor-pointer hover:bg-blue-50' : ''}`}
                         style={{ minWidth: '120px' }}
+                        title={dateTitle(row)}
+                        onClick={() => editMode && onEditMonth?.(row.date)}
                       >
                         {row.date}
+                        {row.payrollType && (
+                          <div className="text-xs font-normal text-gray-500">{formatPayrollType(row.payrollType)}</div>
+                        )}
+                        {isPrescribed(row) && (
+                          <div className="text-xs font-normal">Prescrita</div>
+                        )}
                       </TableCell>
                       {codeHeaders.map((code) => (
                         <TableCell 
                           key={code}
-                          className="text-right"
+                          className={`text-right ${onCellClick || editMode ? 'cursor-pointer hover:bg-blue-50' : ''} ${
+                            isOverridden(row, code)
+                              ? 'bg-amber-50 text-amber-900'
+                              : getLowConfidence(row, code) ? 'underline decoration-dotted decoration-red-500 text-red-800' : ''
+                          }`}
                           style={{ minWidth: '150px' }}
+                          title={cellTitle(row, code)}
+                          onClick={() => handleCellClick(row, code)}
                         >
                           {formatCurrencyValue(row[code])}
                         </TableCell>
                       ))}
+                      {showTotals && (() => {
+                        const totals = getTotals(row);
+                        return (
+                          <>
+                            <TableCell className="text-right font-medium bg-muted/50" style={{ minWidth: '150px' }}>
+                              {formatCurrencyValue(totals?.proventos)}
+                            </TableCell>
+                            <TableCell className="text-right font-medium bg-muted/50" style={{ minWidth: '150px' }}>
+                              {formatCurrencyValue(totals?.descontos)}
+                            </TableCell>
+                            <TableCell
+                              className={`text-right font-semibold ${totals?.netMismatch ? 'bg-red-50 text-red-700' : 'bg-muted/50'}`}
+                              style={{ minWidth: '150px' }}
+                              title={netTitle(totals)}
+                            >
+                              {formatCurrencyValue(totals?.net)}
+                            </TableCell>
+                          </>
+                        );
+                      })()}
+                      {showCorrection && (() => {
+                        const corrected = getCorrectedTotals(row);
+                        return (
+                          <>
+                            <TableCell className="text-right bg-blue-50/50" style={{ minWidth: '150px' }}>
+                              {corrected ? corrected.factor.toFixed(6).replace('.', ',') : '-'}
+                            </TableCell>
+                            <TableCell className="text-right font-medium bg-blue-50/50" style={{ minWidth: '150px' }}>
+                              {formatCurrencyValue(corrected?.proventos)}
+                            </TableCell>
+                            <TableCell className="text-right font-medium bg-blue-50/50" style={{ minWidth: '150px' }}>
+                              {formatCurrencyValue(corrected?.descontos)}
+                            </TableCell>
+                            <TableCell className="text-right font-semibold bg-blue-50/50" style={{ minWidth: '150px' }}>
+                              {formatCurrencyValue(corrected?.net)}
+                            </TableCell>
+                          </>
+                        );
+                      })()}
                     </TableRow>
                   ))
                 )}
@@ -140,6 +589,7 @@ export default function ResultsTable({
         {data.length > 0 && codeHeaders.length > 5 && (
           <div className="text-xs text-muted-foreground mt-2">
             Role horizontalmente para ver mais colunas, e verticalmente para ver mais linhas.
+            {onCellClick && " Clique em um valor para ver sua origem no PDF."}
           </div>
         )}
       </CardContent>
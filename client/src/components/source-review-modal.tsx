@@ -0,0 +1,194 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useQuery } from "@tanstack/react-query";
+import { ExternalLink } from "lucide-react";
+import { formatPayrollType } from "@/lib/payroll-types";
+
+interface PayrollItemSource {
+  fileName?: string;
+  pageNumber: number;
+  matchedText: string;
+  value: number;
+  confidence?: number;
+}
+
+interface SourceItem {
+  payrollDataId: number;
+  source: string;
+  payrollType?: string;
+  documentId?: string; // PDF original guardado no repositório de documentos
+  code: string;
+  description: string;
+  value: number;
+  sources?: PayrollItemSource[];
+}
+
+interface SourcePage {
+  fileName?: string;
+  pageNumber: number;
+  text: string;
+  ocr?: boolean;
+}
+
+interface SourceReviewData {
+  date: string;
+  column: string;
+  items: SourceItem[];
+  pages: SourcePage[];
+}
+
+interface SourceReviewModalProps {
+  cell: { date: string; column: string; payrollType?: string } | null;
+  onClose: () => void;
+}
+
+const formatCurrencyValue = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+
+// Destaca o trecho capturado dentro do texto da página
+function HighlightedText({ text, highlight }: { text: string; highlight?: string }) {
+  if (!highlight) {
+    return <>{text}</>;
+  }
+
+  const parts = text.split(highlight);
+  return (
+    <>
+      {parts.map((part, index) => (
+        <span key={index}>
+          {part}
+          {index < parts.length - 1 && (
+            <mark className="bg-yellow-200 rounded px-0.5">{highlight}</mark>
+          )}
+        </span>
+      ))}
+    </>
+  );
+}
+
+export default function SourceReviewModal({ cell, onClose }: SourceReviewModalProps) {
+  const [selectedSource, setSelectedSource] = useState<PayrollItemSource | null>(null);
+
+  const params = cell
+    ? new URLSearchParams({
+        date: cell.date,
+        column: cell.column,
+        ...(cell.payrollType ? { payrollType: cell.payrollType } : {}),
+      }).toString()
+    : "";
+  const { data, isLoading } = useQuery<SourceReviewData>({
+    queryKey: [`/api/payroll-data/sources?${params}`],
+    enabled: cell !== null,
+    staleTime: 0,
+  });
+
+  // Seleciona o primeiro trecho disponível ao abrir uma nova célula
+  useEffect(() => {
+    const firstSource = data?.items.flatMap((item) => item.sources || [])[0];
+    setSelectedSource(firstSource || null);
+  }, [data]);
+
+  const selectedPage = selectedSource
+    ? data?.pages.find((page) =>
+        page.pageNumber === selectedSource.pageNumber && page.fileName === selectedSource.fileName
+      )
+    : undefined;
+  const selectedDocumentId = selectedSource
+    ? data?.items.find((item) => item.sources?.includes(selectedSource))?.documentId
+    : undefined;
+
+  return (
+    <Dialog open={cell !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[90%] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            Origem do valor: {cell?.column} · {cell?.date}
+            {cell?.payrollType && ` · ${formatPayrollType(cell.payrollType)}`}
+          </DialogTitle>
+          <DialogDescription>
+            Linhas do contracheque que compõem o valor da célula, com o texto da página de origem.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-8 text-center text-gray-500">Carregando...</div>
+        ) : !data || data.items.length === 0 ? (
+          <div className="py-8 text-center text-gray-500">Nenhum item encontrado para esta célula.</div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-3">
+              {data.items.map((item, itemIndex) => (
+                <div key={`${item.payrollDataId}-${item.code}-${itemIndex}`} className="border rounded-md">
+                  <div className="px-3 py-2 bg-muted flex justify-between text-sm font-medium">
+                    <span>
+                      {item.code} · {item.description} ({item.source}
+                      {item.payrollType && item.payrollType !== "NORMAL" && ` · ${formatPayrollType(item.payrollType)}`})
+                    </span>
+                    <span>{formatCurrencyValue(item.value)}</span>
+                  </div>
+                  {!item.sources || item.sources.length === 0 ? (
+                    <div className="px-3 py-2 text-xs text-gray-500">
+                      Origem não registrada para este item (processado antes da revisão estar disponível).
+                    </div>
+                  ) : (
+                    item.sources.map((itemSource, sourceIndex) => (
+                      <button
+                        key={sourceIndex}
+                        type="button"
+                        className={`w-full text-left px-3 py-2 text-xs border-t hover:bg-blue-50 ${
+                          selectedSource === itemSource ? "bg-blue-50" : ""
+                        }`}
+                        onClick={() => setSelectedSource(itemSource)}
+                      >
+                        <div className="flex justify-between text-gray-600">
+                          <span>
+                            {itemSource.fileName || "Arquivo"} · página {itemSource.pageNumber}
+                            {itemSource.confidence !== undefined && (
+                              <span className="ml-1 text-red-600">
+                                · OCR {Math.round(itemSource.confidence * 100)}%
+                              </span>
+                            )}
+                          </span>
+                          <span>{formatCurrencyValue(itemSource.value)}</span>
+                        </div>
+                        <div className="font-mono text-gray-800 break-words">{itemSource.matchedText}</div>
+                      </button>
+                    ))
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="border rounded-md">
+              <div className="px-3 py-2 bg-muted text-sm font-medium flex justify-between">
+                <span>
+                  {selectedPage
+                    ? `${selectedPage.fileName || "Arquivo"} · página ${selectedPage.pageNumber}` +
+                      (selectedPage.ocr ? " · texto obtido por OCR" : "")
+                    : "Texto da página"}
+                </span>
+                {selectedPage && selectedDocumentId && (
+                  <a
+                    href={`/api/documents/${selectedDocumentId}#page=${selectedPage.pageNumber}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="flex items-center text-blue-600 hover:text-blue-800 font-normal"
+                  >
+                    <ExternalLink className="mr-1 h-4 w-4" />
+                    PDF original
+                  </a>
+                )}
+              </div>
+              <div className="p-3 text-xs font-mono whitespace-pre-wrap break-words max-h-[60vh] overflow-y-auto">
+                {selectedPage ? (
+                  <HighlightedText text={selectedPage.text} highlight={selectedSource?.matchedText} />
+                ) : (
+                  <span className="text-gray-500">Selecione uma linha para ver o texto da página.</span>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -14,6 +14,8 @@ interface AuthState {
   isLoading: boolean;
   error: string | null;
   login: (username: string, password: string) => Promise<void>;
+  register: (username: string, password: string) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
   logout: () => Promise<void>;
   checkAuth: () => Promise<void>;
 }
@@ -39,6 +41,25 @@ const useAuthStore = create<AuthState>((set) => ({
     }
   },
   
+  register: async (username: string, password: string) => {
+    try {
+      set({ isLoading: true, error: null });
+      const response = await apiRequest('POST', '/api/auth/register', { username, password });
+      const user = await response.json();
+      set({ user, isAuthenticated: true, isLoading: false });
+    } catch (error) {
+      console.error('Register error:', error);
+      set({ 
+        error: error instanceof Error ? error.message : 'Failed to register', 
+        isLoading: false 
+      });
+    }
+  },
+  
+  changePassword: async (currentPassword: string, newPassword: string) => {
+    await apiRequest('POST', '/api/auth/change-password', { currentPassword, newPassword });
+  },
+  
   logout: async () => {
     try {
       set({ isLoading: true });
@@ -0,0 +1,11 @@
+// Tipos de folha que podem existir na mesma competência, com os nomes exibidos na tabela
+export const payrollTypeLabels: Record<string, string> = {
+  NORMAL: "Normal",
+  SUPLEMENTAR: "Suplementar",
+  DECIMO_TERCEIRO: "13º Salário",
+  FERIAS: "Férias",
+  RESCISAO: "Rescisão",
+};
+
+export const formatPayrollType = (payrollType?: string) =>
+  payrollType ? payrollTypeLabels[payrollType] || payrollType : "";
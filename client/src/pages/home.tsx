@@ -1,15 +1,30 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/lib/auth";
 import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { FileText, LogOut, Sliders, Link } from "lucide-react";
+import { FileText, LogOut, Sliders, Link, KeyRound, FolderOpen } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import CodeInputSection from "@/components/code-input-section";
 import PDFUploadSection from "@/components/pdf-upload-section";
-import ResultsTable from "@/components/results-table";
+import ResultsTable, {
+  type CsvExportOptions,
+  type CsvView,
+  type MonetaryCorrection,
+  type PrescriptionSettings
+} from "@/components/results-table";
 import TemplateModal from "@/components/template-modal";
 import CodeGroupModal from "@/components/code-group-modal";
+import ChangePasswordModal from "@/components/change-password-modal";
+import SourceReviewModal from "@/components/source-review-modal";
+import PayrollItemsModal from "@/components/payroll-items-modal";
+import ReconciliationModal from "@/components/reconciliation-modal";
+import InterestModal from "@/components/interest-modal";
+import IrrfModal from "@/components/irrf-modal";
+import DifferencesTable from "@/components/differences-table";
+import DueSeriesModal from "@/components/due-series-modal";
+import DocumentsModal from "@/components/documents-modal";
 
 interface TemplateType {
   id: number;
@@ -22,10 +37,39 @@ export default function Home() {
   const { toast } = useToast();
   const [templateModalOpen, setTemplateModalOpen] = useState(false);
   const [codeGroupModalOpen, setCodeGroupModalOpen] = useState(false);
+  const [changePasswordModalOpen, setChangePasswordModalOpen] = useState(false);
+  const [reviewCell, setReviewCell] = useState<{ date: string; column: string; payrollType?: string } | null>(null);
   const [codes, setCodes] = useState("");
   const [processedData, setProcessedData] = useState<any[]>([]);
   const [codeHeaders, setCodeHeaders] = useState<string[]>([]);
   const [codeInfo, setCodeInfo] = useState<{code: string, description: string}[]>([]);
+  const [overriddenCells, setOverriddenCells] = useState<{date: string, payrollType?: string, column: string}[]>([]);
+  const [lowConfidenceCells, setLowConfidenceCells] = useState<{date: string, column: string, confidence: number}[]>([]);
+  const [monthlyTotals, setMonthlyTotals] = useState<{date: string, payrollType?: string, proventos: number, descontos: number, net: number, printed: {proventos?: number, descontos?: number, net?: number}, reconciliation: {total: 'proventos' | 'descontos' | 'net', extracted: number, printed: number, difference: number}[], netMismatch: boolean, missingItems: boolean}[]>([]);
+  const [missingMonths, setMissingMonths] = useState<string[]>([]);
+  const [prescribedMonths, setPrescribedMonths] = useState<string[]>([]);
+  const [reconciliationOpen, setReconciliationOpen] = useState(false);
+  const [interestModalOpen, setInterestModalOpen] = useState(false);
+  const [irrfModalOpen, setIrrfModalOpen] = useState(false);
+  const [dueSeriesModalOpen, setDueSeriesModalOpen] = useState(false);
+  const [documentsModalOpen, setDocumentsModalOpen] = useState(false);
+  const [separateTypes, setSeparateTypes] = useState(false);
+  const [dropEmptyColumns, setDropEmptyColumns] = useState(false);
+  const [continuousTimeline, setContinuousTimeline] = useState(false);
+  const [correction, setCorrection] = useState<MonetaryCorrection | null>(null);
+  const [correctedTotals, setCorrectedTotals] = useState<{date: string, payrollType?: string, factor: number, proventos: number, descontos: number, net: number}[]>([]);
+  // Opções de visualização aplicadas à tabela e às exportações; a correção monetária pode ser deixada de fora da exportação
+  const viewParams = (withCorrection: boolean) => new URLSearchParams({
+    ...(separateTypes ? { separateTypes: 'true' } : {}),
+    ...(dropEmptyColumns ? { dropEmpty: 'true' } : {}),
+    ...(continuousTimeline ? { continuous: 'true' } : {}),
+    ...(withCorrection && correction?.target ? { index: correction.index, target: correction.target } : {}),
+  });
+  const viewQuery = (withCorrection: boolean) => {
+    const params = viewParams(withCorrection).toString();
+    return params ? `?${params}` : '';
+  };
+  const [editingMonth, setEditingMonth] = useState<string | null>(null);
 
   // Fetch templates
   const { data: templatesData } = useQuery({
@@ -36,18 +80,76 @@ export default function Home() {
   // Safe templates array
   const templates: TemplateType[] = Array.isArray(templatesData) ? templatesData : [];
 
+  // Índices disponíveis para a correção monetária
+  const { data: priceIndexesData } = useQuery({
+    queryKey: ['/api/price-indexes'],
+  });
+  const priceIndexes = Array.isArray(priceIndexesData) ? priceIndexesData : [];
+
+  // Ajuizamento e exclusão dos meses prescritos, gravados para o processo
+  const { data: prescriptionData } = useQuery<PrescriptionSettings>({
+    queryKey: ['/api/prescription'],
+  });
+
+  const prescriptionMutation = useMutation({
+    mutationFn: async (prescription: Pick<PrescriptionSettings, 'filingDate' | 'excludePrescribed'>) => {
+      return apiRequest('PUT', '/api/prescription', prescription);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/prescription'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/payroll-data'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/differences'] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Erro ao salvar o ajuizamento",
+        description: error instanceof Error ? error.message : "Não foi possível salvar a data do ajuizamento",
+      });
+    }
+  });
+
   // Fetch payroll data
-  const { data: payrollData, refetch: refetchPayrollData } = useQuery({
-    queryKey: ['/api/payroll-data'],
-    staleTime: 0
+  const { data: payrollData, error: payrollDataError, refetch: refetchPayrollData } = useQuery({
+    queryKey: ['/api/payroll-data', { separateTypes, dropEmptyColumns, continuousTimeline, correction }],
+    queryFn: async () => {
+      const response = await fetch(`/api/payroll-data${viewQuery(true)}`, { credentials: "include" });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || `${response.status}: ${response.statusText}`);
+      }
+      return response.json();
+    },
+    staleTime: 0,
+    retry: false
   });
   
+  // Sem a série do índice para todo o período, a tabela volta aos valores nominais
+  useEffect(() => {
+    if (payrollDataError && correction) {
+      toast({
+        variant: "destructive",
+        title: "Correção monetária indisponível",
+        description: payrollDataError.message,
+      });
+      setCorrection(null);
+    }
+  }, [payrollDataError]);
+  
   // Update state when payroll data changes
   useEffect(() => {
     if (payrollData && typeof payrollData === 'object') {
       const data = (payrollData as any)?.data || [];
       const codes = (payrollData as any)?.codes || [];
       const codeInfoData = (payrollData as any)?.codeInfo || [];
+      const overriddenCellsData = (payrollData as any)?.overriddenCells || [];
+      const lowConfidenceCellsData = (payrollData as any)?.lowConfidenceCells || [];
+      const monthlyTotalsData = (payrollData as any)?.monthlyTotals || [];
+      const missingMonthsData = (payrollData as any)?.missingMonths || [];
+      const correctedTotalsData = (payrollData as any)?.correction?.totals || [];
+      // Meses prescritos só aparecem na tabela quando não foram excluídos
+      const prescription = (payrollData as any)?.prescription;
+      const prescribedMonthsData = prescription && !prescription.excluded ? prescription.months : [];
       
       if (Array.isArray(data) && Array.isArray(codes)) {
         setProcessedData(data);
@@ -56,6 +158,30 @@ export default function Home() {
         if (Array.isArray(codeInfoData)) {
           setCodeInfo(codeInfoData);
         }
+        
+        if (Array.isArray(overriddenCellsData)) {
+          setOverriddenCells(overriddenCellsData);
+        }
+        
+        if (Array.isArray(lowConfidenceCellsData)) {
+          setLowConfidenceCells(lowConfidenceCellsData);
+        }
+        
+        if (Array.isArray(monthlyTotalsData)) {
+          setMonthlyTotals(monthlyTotalsData);
+        }
+        
+        if (Array.isArray(missingMonthsData)) {
+          setMissingMonths(missingMonthsData);
+        }
+        
+        if (Array.isArray(correctedTotalsData)) {
+          setCorrectedTotals(correctedTotalsData);
+        }
+        
+        if (Array.isArray(prescribedMonthsData)) {
+          setPrescribedMonths(prescribedMonthsData);
+        }
       }
     }
   }, [payrollData]);
@@ -81,8 +207,14 @@ export default function Home() {
     setCodes(template.codes);
   };
 
+  // Acrescenta os códigos escolhidos na descoberta aos já informados
+  const handleCodesDiscovered = (discoveredCodes: string[]) => {
+    const currentCodes = codes.split(/[\s,]+/).filter(Boolean);
+    setCodes(Array.from(new Set([...currentCodes, ...discoveredCodes])).join(', '));
+  };
+
   // Handle export CSV
-  const handleExportCSV = () => {
+  const handleExportCSV = (view: CsvView, options: CsvExportOptions) => {
     if (processedData.length === 0) {
       toast({
         variant: "destructive",
@@ -92,11 +224,30 @@ export default function Home() {
       return;
     }
     
-    window.open('/api/export/csv', '_blank');
+    const params = viewParams(options.corrected);
+    params.set('view', view);
+    params.set('delimiter', options.ptBR ? ';' : ',');
+    params.set('decimal', options.ptBR ? ',' : '.');
+    params.set('bom', String(options.bom));
+    window.open(`/api/export/csv?${params.toString()}`, '_blank');
+  };
+
+  // Handle export XLSX
+  const handleExportXLSX = (corrected: boolean) => {
+    if (processedData.length === 0) {
+      toast({
+        variant: "destructive",
+        title: "Nenhum dado para exportar",
+        description: "Processe alguns PDFs primeiro",
+      });
+      return;
+    }
+    
+    window.open(`/api/export/xlsx${viewQuery(corrected)}`, '_blank');
   };
 
   // Handle export JSON
-  const handleExportJSON = () => {
+  const handleExportJSON = (corrected: boolean) => {
     if (processedData.length === 0) {
       toast({
         variant: "destructive",
@@ -106,7 +257,7 @@ export default function Home() {
       return;
     }
     
-    window.open('/api/export/json', '_blank');
+    window.open(`/api/export/json${viewQuery(corrected)}`, '_blank');
   };
   
   // Função para limpar os dados da tabela
@@ -128,6 +279,7 @@ export default function Home() {
       setProcessedData([]);
       setCodeHeaders([]);
       setCodeInfo([]);
+      setOverriddenCells([]);
       
       toast({
         title: "Dados limpos com sucesso",
@@ -180,6 +332,22 @@ export default function Home() {
                 <Sliders className="mr-2 h-4 w-4" />
                 Gerenciar Modelos
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDocumentsModalOpen(true)}
+              >
+                <FolderOpen className="mr-2 h-4 w-4" />
+                Documentos
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setChangePasswordModalOpen(true)}
+              >
+                <KeyRound className="mr-2 h-4 w-4" />
+                Alterar Senha
+              </Button>
               <Button
                 variant="destructive"
                 size="sm"
@@ -205,42 +373,64 @@ export default function Home() {
 
         {/* Upload Sections */}
         <section className="mb-8">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <PDFUploadSection
-              type="ERP"
-              codes={codes}
-              onProcessSuccess={() => {
-                refetchPayrollData();
-                toast({
-                  title: "PDF processado com sucesso",
-                  description: "Os dados foram extraídos e adicionados à tabela",
-                });
-              }}
-            />
-            
-            <PDFUploadSection
-              type="RH"
-              codes={codes}
-              onProcessSuccess={() => {
-                refetchPayrollData();
-                toast({
-                  title: "PDF processado com sucesso",
-                  description: "Os dados foram extraídos e adicionados à tabela",
-                });
-              }}
-            />
-          </div>
+          <PDFUploadSection
+            codes={codes}
+            onCodesDiscovered={handleCodesDiscovered}
+            onProcessSuccess={() => {
+              refetchPayrollData();
+              toast({
+                title: "PDF processado com sucesso",
+                description: "Os dados foram extraídos e adicionados à tabela",
+              });
+            }}
+          />
         </section>
 
         {/* Results Table */}
-        <ResultsTable 
-          data={processedData} 
-          codeHeaders={codeHeaders}
-          codeInfo={codeInfo}
-          onExportCSV={handleExportCSV}
-          onExportJSON={handleExportJSON}
-          onReset={handleResetData}
-        />
+        <Tabs defaultValue="extracted">
+          <TabsList className="mb-4">
+            <TabsTrigger value="extracted">Valores extraídos</TabsTrigger>
+            <TabsTrigger value="differences">Diferenças</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="extracted">
+            <ResultsTable 
+              data={processedData} 
+              codeHeaders={codeHeaders}
+              codeInfo={codeInfo}
+              onExportCSV={handleExportCSV}
+              onExportXLSX={handleExportXLSX}
+              onExportJSON={handleExportJSON}
+              onReset={handleResetData}
+              onCellClick={(date, column, payrollType) => setReviewCell({ date, column, payrollType })}
+              overriddenCells={overriddenCells}
+              lowConfidenceCells={lowConfidenceCells}
+              monthlyTotals={monthlyTotals}
+              onShowReconciliation={() => setReconciliationOpen(true)}
+              onShowInterest={() => setInterestModalOpen(true)}
+              onShowIrrf={() => setIrrfModalOpen(true)}
+              separateTypes={separateTypes}
+              onSeparateTypesChange={setSeparateTypes}
+              dropEmptyColumns={dropEmptyColumns}
+              onDropEmptyColumnsChange={setDropEmptyColumns}
+              continuousTimeline={continuousTimeline}
+              onContinuousTimelineChange={setContinuousTimeline}
+              missingMonths={missingMonths}
+              priceIndexes={priceIndexes}
+              correction={correction}
+              onCorrectionChange={setCorrection}
+              correctedTotals={correction ? correctedTotals : []}
+              onEditMonth={setEditingMonth}
+              prescription={prescriptionData}
+              onPrescriptionChange={(prescription) => prescriptionMutation.mutate(prescription)}
+              prescribedMonths={prescribedMonths}
+            />
+          </TabsContent>
+
+          <TabsContent value="differences">
+            <DifferencesTable onEditDueSeries={() => setDueSeriesModalOpen(true)} />
+          </TabsContent>
+        </Tabs>
       </main>
 
       {/* Footer */}
@@ -269,6 +459,55 @@ export default function Home() {
           queryClient.invalidateQueries({ queryKey: ['/api/payroll-data'] });
         }}
       />
+      
+      {/* Source Review Modal */}
+      <SourceReviewModal
+        cell={reviewCell}
+        onClose={() => setReviewCell(null)}
+      />
+      
+      {/* Payroll Items Modal */}
+      <PayrollItemsModal
+        date={editingMonth}
+        onClose={() => setEditingMonth(null)}
+      />
+      
+      {/* Reconciliation Modal */}
+      <ReconciliationModal
+        isOpen={reconciliationOpen}
+        separateTypes={separateTypes}
+        onClose={() => setReconciliationOpen(false)}
+      />
+
+      <InterestModal
+        isOpen={interestModalOpen}
+        onClose={() => setInterestModalOpen(false)}
+        priceIndexes={priceIndexes}
+        firstMonth={processedData.find((row) => !missingMonths.includes(row.date))?.date}
+      />
+      
+      <IrrfModal
+        isOpen={irrfModalOpen}
+        onClose={() => setIrrfModalOpen(false)}
+      />
+      
+      <DueSeriesModal
+        isOpen={dueSeriesModalOpen}
+        onClose={() => setDueSeriesModalOpen(false)}
+        codeHeaders={codeHeaders}
+      />
+      
+      {/* Documents Modal */}
+      <DocumentsModal
+        isOpen={documentsModalOpen}
+        onClose={() => setDocumentsModalOpen(false)}
+      />
+      
+      {/* Change Password Modal */}
+      <ChangePasswordModal
+        isOpen={changePasswordModalOpen}
+        onClose={() => setChangePasswordModalOpen(false)}
+      />
     </div>
   );
 }
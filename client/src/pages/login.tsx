@@ -10,23 +10,43 @@ import { FileText } from "lucide-react";
 export default function Login() {
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
-  const { login, error, isLoading } = useAuth();
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isRegistering, setIsRegistering] = useState(false);
+  const { login, register, error, isLoading } = useAuth();
   const { toast } = useToast();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
+    if (isRegistering && password !== confirmPassword) {
+      toast({
+        variant: "destructive",
+        title: "Senhas diferentes",
+        description: "A confirmação não confere com a senha informada",
+      });
+      return;
+    }
+    
     try {
-      await login(username, password);
+      if (isRegistering) {
+        await register(username, password);
+      } else {
+        await login(username, password);
+      }
     } catch (error) {
       toast({
         variant: "destructive",
-        title: "Erro ao fazer login",
+        title: isRegistering ? "Erro ao criar conta" : "Erro ao fazer login",
         description: error instanceof Error ? error.message : "Credenciais inválidas",
       });
     }
   };
 
+  const toggleMode = () => {
+    setIsRegistering(!isRegistering);
+    setConfirmPassword("");
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50">
       <Card className="w-full max-w-md p-2">
@@ -44,7 +64,7 @@ export default function Login() {
               <Label htmlFor="username">Usuário</Label>
               <Input
                 id="username"
-                placeholder="dlinhares"
+                placeholder="seu.usuario"
                 value={username}
                 onChange={(e) => setUsername(e.target.value)}
                 required
@@ -61,6 +81,19 @@ export default function Login() {
                 required
               />
             </div>
+            {isRegistering && (
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirmar Senha</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  placeholder="******"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                />
+              </div>
+            )}
             
             {error && (
               <div className="p-3 bg-red-100 border border-red-200 text-red-700 rounded-md text-sm">
@@ -69,11 +102,15 @@ export default function Login() {
             )}
             
             <Button type="submit" className="w-full" disabled={isLoading}>
-              {isLoading ? "Entrando..." : "Entrar"}
+              {isLoading
+                ? (isRegistering ? "Criando conta..." : "Entrando...")
+                : (isRegistering ? "Criar conta" : "Entrar")}
             </Button>
             
             <div className="text-center text-sm text-gray-500 mt-2">
-              <p>Use as credenciais: dlinhares / 123456</p>
+              <button type="button" className="text-blue-600 hover:text-blue-800" onClick={toggleMode}>
+                {isRegistering ? "Já tem conta? Entrar" : "Não tem conta? Cadastre-se"}
+              </button>
             </div>
           </form>
         </CardContent>
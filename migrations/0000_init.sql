@@ -0,0 +1,28 @@
+CREATE TABLE "code_groups" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"display_name" text NOT NULL,
+	"codes" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "payroll_data" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"date" text NOT NULL,
+	"source" text NOT NULL,
+	"code_data" jsonb NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "templates" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"codes" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
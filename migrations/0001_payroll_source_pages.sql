@@ -0,0 +1 @@
+ALTER TABLE "payroll_data" ADD COLUMN "source_pages" jsonb;
\ No newline at end of file
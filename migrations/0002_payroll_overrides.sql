@@ -0,0 +1,12 @@
+CREATE TABLE "payroll_overrides" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"date" text NOT NULL,
+	"code" text NOT NULL,
+	"description" text,
+	"action" text NOT NULL,
+	"original_value" double precision,
+	"value" double precision,
+	"changed_by" text NOT NULL,
+	"changed_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1 @@
+ALTER TABLE "payroll_data" ADD COLUMN "printed_totals" jsonb;
\ No newline at end of file
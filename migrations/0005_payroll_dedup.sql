@@ -0,0 +1,2 @@
+ALTER TABLE "payroll_data" ADD COLUMN "file_hash" text;--> statement-breakpoint
+ALTER TABLE "payroll_data" ADD COLUMN "page_fingerprints" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "payroll_data" ADD COLUMN "document_id" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "payroll_data" ADD COLUMN "competence" date;--> statement-breakpoint
+UPDATE "payroll_data" SET "competence" = to_date("date", 'MM/YYYY') WHERE "date" ~ '^(0[1-9]|1[0-2])/[0-9]{4}$';
@@ -0,0 +1,13 @@
+CREATE TABLE "due_series" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"column_name" text NOT NULL,
+	"method" text NOT NULL,
+	"amount" double precision,
+	"percentage" double precision,
+	"base_column" text,
+	"due_table" jsonb,
+	"start_date" text,
+	"end_date" text,
+	"reflexes" boolean DEFAULT true NOT NULL
+);
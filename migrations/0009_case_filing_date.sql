@@ -0,0 +1,2 @@
+ALTER TABLE "users" ADD COLUMN "filing_date" date;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "exclude_prescribed" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,5 @@
+UPDATE "payroll_data" SET "code_data" = ("code_data" #>> '{}')::jsonb WHERE jsonb_typeof("code_data") = 'string';--> statement-breakpoint
+UPDATE "payroll_data" SET "source_pages" = ("source_pages" #>> '{}')::jsonb WHERE jsonb_typeof("source_pages") = 'string';--> statement-breakpoint
+UPDATE "payroll_data" SET "printed_totals" = ("printed_totals" #>> '{}')::jsonb WHERE jsonb_typeof("printed_totals") = 'string';--> statement-breakpoint
+UPDATE "payroll_data" SET "page_fingerprints" = ("page_fingerprints" #>> '{}')::jsonb WHERE jsonb_typeof("page_fingerprints") = 'string';--> statement-breakpoint
+UPDATE "due_series" SET "due_table" = ("due_table" #>> '{}')::jsonb WHERE jsonb_typeof("due_table") = 'string';
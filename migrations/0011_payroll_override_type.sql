@@ -0,0 +1 @@
+ALTER TABLE "payroll_overrides" ADD COLUMN "payroll_type" text DEFAULT 'NORMAL' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { hashPassword, isLegacyPassword, verifyPassword } from "./auth";
+
+describe("verifyPassword", () => {
+  it("accepts the password that generated the hash and rejects others", async () => {
+    const stored = await hashPassword("segredo123");
+
+    expect(isLegacyPassword(stored)).toBe(false);
+    expect(await verifyPassword("segredo123", stored)).toBe(true);
+    expect(await verifyPassword("segredo124", stored)).toBe(false);
+  });
+
+  it("compares passwords stored in plain text before hashing was adopted", async () => {
+    expect(isLegacyPassword("123456")).toBe(true);
+    expect(await verifyPassword("123456", "123456")).toBe(true);
+    expect(await verifyPassword("1234567", "123456")).toBe(false);
+  });
+});
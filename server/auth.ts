@@ -0,0 +1,36 @@
+import { createHash, scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt);
+
+// Tamanho da chave derivada pelo scrypt (em bytes)
+const KEY_LENGTH = 64;
+
+// Formato "hash.salt" gerado por hashPassword: chave derivada e salt em hexadecimal
+const HASH_FORMAT = /^[0-9a-f]{128}\.[0-9a-f]{32}$/;
+
+// Gera o hash da senha no formato "hash.salt"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const derived = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${derived.toString("hex")}.${salt}`;
+}
+
+// Senhas gravadas antes da adoção do hash (texto puro) não seguem o formato "hash.salt"
+export function isLegacyPassword(stored: string): boolean {
+  return !HASH_FORMAT.test(stored);
+}
+
+// Compara a senha informada com o hash armazenado em tempo constante. Senhas legadas são comparadas pelo
+// SHA-256 dos dois textos, também em tempo constante; cabe a quem autentica regravá-las com hash
+export async function verifyPassword(supplied: string, stored: string): Promise<boolean> {
+  if (isLegacyPassword(stored)) {
+    const digest = (value: string) => createHash("sha256").update(value).digest();
+    return timingSafeEqual(digest(supplied), digest(stored));
+  }
+
+  const [hashed, salt] = stored.split(".");
+  const storedBuffer = Buffer.from(hashed, "hex");
+  const suppliedBuffer = (await scryptAsync(supplied, salt, KEY_LENGTH)) as Buffer;
+  return timingSafeEqual(storedBuffer, suppliedBuffer);
+}
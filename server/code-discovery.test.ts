@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import type { ExtractedPayrollItem, ProcessedPayslip } from "@shared/schema";
+import { buildCodeCatalogue } from "./code-discovery";
+
+const payslip = (date: string, items: ExtractedPayrollItem[]): ProcessedPayslip => ({
+  date,
+  payrollType: "NORMAL",
+  items,
+  source: "ERP",
+});
+
+const item = (code: string, value: number, sources = 1): ExtractedPayrollItem => ({
+  code,
+  description: `VERBA ${code}`,
+  value,
+  category: "PROVENTOS",
+  sources: Array.from({ length: sources }, (_, index) => ({ pageNumber: index + 1, matchedText: code, value })),
+});
+
+describe("buildCodeCatalogue", () => {
+  it("counts the payslip lines, months and total of each code, sorted by code", () => {
+    const catalogue = buildCodeCatalogue([
+      payslip("03/2020", [item("0900", 10.1), item("0002", 1500)]),
+      payslip("01/2020", [item("0900", 20.2, 2)]),
+      payslip("03/2020", [item("0900", 0.1)]),
+    ], new Map([["0002", "VENCIMENTO"]]));
+
+    expect(catalogue).toEqual([
+      {
+        code: "0002",
+        description: "VERBA 0002",
+        category: "PROVENTOS",
+        occurrences: 1,
+        months: ["03/2020"],
+        total: 1500,
+        mappedTo: "VENCIMENTO",
+      },
+      {
+        code: "0900",
+        description: "VERBA 0900",
+        category: "PROVENTOS",
+        occurrences: 4,
+        months: ["01/2020", "03/2020"],
+        total: 30.4,
+        mappedTo: undefined,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,36 @@
+import { DiscoveredCode, ProcessedPayslip } from '@shared/schema';
+import { sortCompetences } from './competence';
+import { roundMoney } from './money';
+
+// Monta o catálogo dos códigos encontrados nos contracheques, com ocorrências, competências e coluna atual
+export function buildCodeCatalogue(
+  payslips: ProcessedPayslip[],
+  codeToDisplayMap: Map<string, string>
+): DiscoveredCode[] {
+  const catalogue = new Map<string, DiscoveredCode>();
+
+  payslips.forEach(payslip => {
+    payslip.items.forEach(item => {
+      const entry = catalogue.get(item.code) || {
+        code: item.code,
+        description: item.description,
+        category: item.category,
+        occurrences: 0,
+        months: [],
+        total: 0,
+        mappedTo: codeToDisplayMap.get(item.code)
+      };
+
+      entry.occurrences += item.sources?.length || 1;
+      entry.total = roundMoney(entry.total + item.value);
+      if (!entry.months.includes(payslip.date)) {
+        entry.months.push(payslip.date);
+      }
+      catalogue.set(item.code, entry);
+    });
+  });
+
+  return Array.from(catalogue.values())
+    .map(entry => ({ ...entry, months: sortCompetences(entry.months) }))
+    .sort((a, b) => a.code.localeCompare(b.code));
+}
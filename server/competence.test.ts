@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import {
+  addMonths,
+  continuousCompetences,
+  parseCompetence,
+  sortByCompetence,
+  sortCompetences,
+  toCompetenceDate,
+} from "./competence";
+
+describe("parseCompetence", () => {
+  it("reads MM/YYYY and rejects other formats and invalid months", () => {
+    expect(parseCompetence("03/2021")).toEqual({ year: 2021, month: 3 });
+    expect(parseCompetence("13/2021")).toBeNull();
+    expect(parseCompetence("00/2021")).toBeNull();
+    expect(parseCompetence("3/2021")).toBeNull();
+    expect(toCompetenceDate("03/2021")).toBe("2021-03-01");
+    expect(toCompetenceDate("2021-03")).toBeNull();
+  });
+});
+
+describe("addMonths", () => {
+  it("moves across year boundaries in both directions", () => {
+    expect(addMonths("11/2020", 3)).toBe("02/2021");
+    expect(addMonths("01/2021", -1)).toBe("12/2020");
+    expect(addMonths("01/2021", -60)).toBe("01/2016");
+    expect(addMonths("invalida", 1)).toBeNull();
+  });
+});
+
+describe("sortCompetences", () => {
+  it("sorts chronologically instead of by text, leaving invalid dates at the end", () => {
+    expect(sortCompetences(["12/2021", "sem data", "01/2020", "02/2021", "01/2021"])).toEqual([
+      "01/2020",
+      "01/2021",
+      "02/2021",
+      "12/2021",
+      "sem data",
+    ]);
+  });
+
+  it("keeps the original order of rows of the same competence", () => {
+    const rows = [{ date: "02/2020", id: 1 }, { date: "01/2020", id: 2 }, { date: "02/2020", id: 3 }];
+
+    expect(sortByCompetence(rows).map(row => row.id)).toEqual([2, 1, 3]);
+  });
+});
+
+describe("continuousCompetences", () => {
+  it("lists every month between the first and the last, whatever the input order", () => {
+    expect(continuousCompetences(["02/2021", "11/2020", "invalida"])).toEqual(["11/2020", "12/2020", "01/2021", "02/2021"]);
+    expect(continuousCompetences([])).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+
+// Competência (mês de referência) de um contracheque. Na extração e na API ela circula como texto MM/AAAA;
+// estas funções a convertem em ano/mês para ordenar os períodos e montar a linha do tempo
+export interface Competence {
+  year: number;
+  month: number; // 1 a 12
+}
+
+const COMPETENCE_PATTERN = /^(\d{2})\/(\d{4})$/;
+
+export function parseCompetence(date: string): Competence | null {
+  const match = date.match(COMPETENCE_PATTERN);
+  if (!match) return null;
+
+  const month = parseInt(match[1], 10);
+  return month >= 1 && month <= 12 ? { year: parseInt(match[2], 10), month } : null;
+}
+
+// Validação de competências MM/AAAA recebidas nas requisições e nos arquivos de dados
+export const competenceSchema = z.string().refine(date => parseCompetence(date) !== null, { message: 'Expected MM/YYYY' });
+
+export function formatCompetence(competence: Competence): string {
+  return `${String(competence.month).padStart(2, '0')}/${competence.year}`;
+}
+
+// Valor gravado na coluna competence (primeiro dia do mês, AAAA-MM-01); nulo para datas fora do formato MM/AAAA
+export function toCompetenceDate(date: string): string | null {
+  const competence = parseCompetence(date);
+  return competence ? `${competence.year}-${String(competence.month).padStart(2, '0')}-01` : null;
+}
+
+// Número sequencial do mês, para comparar e percorrer competências
+function monthIndex(competence: Competence): number {
+  return competence.year * 12 + competence.month - 1;
+}
+
+// Competência deslocada em meses (negativo para meses anteriores)
+export function addMonths(date: string, months: number): string | null {
+  const competence = parseCompetence(date);
+  if (!competence) return null;
+
+  const index = monthIndex(competence) + months;
+  return formatCompetence({ year: Math.floor(index / 12), month: (index % 12) + 1 });
+}
+
+// Ordem cronológica; datas fora do formato MM/AAAA vão para o final, em ordem alfabética
+export function compareCompetences(a: string, b: string): number {
+  const first = parseCompetence(a);
+  const second = parseCompetence(b);
+  if (first && second) return monthIndex(first) - monthIndex(second);
+  if (first) return -1;
+  if (second) return 1;
+  return a.localeCompare(b);
+}
+
+// Ordena registros pela competência, mantendo a ordem original entre os da mesma competência
+export function sortByCompetence<T extends { date: string }>(rows: T[]): T[] {
+  return rows.slice().sort((a, b) => compareCompetences(a.date, b.date));
+}
+
+export function sortCompetences(dates: string[]): string[] {
+  return dates.slice().sort(compareCompetences);
+}
+
+// Todas as competências entre a primeira e a última informadas, inclusive as que não aparecem na lista
+export function continuousCompetences(dates: string[]): string[] {
+  const indexes = dates
+    .map(parseCompetence)
+    .filter((competence): competence is Competence => competence !== null)
+    .map(monthIndex);
+  if (indexes.length === 0) return [];
+
+  const first = Math.min(...indexes);
+  const last = Math.max(...indexes);
+  return Array.from({ length: last - first + 1 }, (_, offset) => formatCompetence({
+    year: Math.floor((first + offset) / 12),
+    month: ((first + offset) % 12) + 1
+  }));
+}
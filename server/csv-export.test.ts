@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { toCsv } from "./csv-export";
+
+const rows = [
+  ["COMPETÊNCIA", "VENCIMENTO", "ÍNDICE"],
+  ["01/2020", 1500.5, 1.0123456],
+  ["TOTAL", 1500.5, null],
+];
+
+describe("toCsv", () => {
+  it("uses semicolons, decimal commas and CRLF line endings by default", () => {
+    expect(toCsv(rows)).toBe("COMPETÊNCIA;VENCIMENTO;ÍNDICE\r\n01/2020;1500,50;1,01\r\nTOTAL;1500,50;\r\n");
+  });
+
+  it("formats the columns given in columnDecimals with their own number of decimals", () => {
+    expect(toCsv(rows, undefined, { 2: 6 }).split("\r\n")[1]).toBe("01/2020;1500,50;1,012346");
+  });
+
+  it("honours the delimiter, decimal separator and byte order mark options", () => {
+    const csv = toCsv(rows, { delimiter: "\t", decimalSeparator: ".", bom: true });
+
+    expect(csv.startsWith("\uFEFFCOMPETÊNCIA\tVENCIMENTO")).toBe(true);
+    expect(csv.split("\r\n")[1]).toBe("01/2020\t1500.50\t1.01");
+  });
+
+  it("quotes fields containing the delimiter, quotes or line breaks", () => {
+    const csv = toCsv([["ADICIONAL; NOTURNO", 'HORA "EXTRA"', "LINHA\nDUPLA", "A,B"]]);
+
+    expect(csv).toBe('"ADICIONAL; NOTURNO";"HORA ""EXTRA""";"LINHA\nDUPLA";A,B\r\n');
+    expect(toCsv([["A,B"]], { delimiter: ",", decimalSeparator: ".", bom: false })).toBe('"A,B"\r\n');
+  });
+});
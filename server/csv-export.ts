@@ -0,0 +1,39 @@
+// Opções de formatação do CSV: o padrão pt-BR usa ";" como separador de campos e vírgula decimal
+export interface CsvOptions {
+  delimiter: ';' | ',' | '\t';
+  decimalSeparator: ',' | '.';
+  bom: boolean; // Marca de ordem de bytes UTF-8, para o Excel reconhecer a codificação
+}
+
+export const DEFAULT_CSV_OPTIONS: CsvOptions = {
+  delimiter: ';',
+  decimalSeparator: ',',
+  bom: false
+};
+
+const UTF8_BOM = '\uFEFF';
+
+// Valores monetários com duas casas, sem separador de milhar nem símbolo de moeda, para leitura por outros programas
+function formatCell(value: string | number | null | undefined, options: CsvOptions, decimals = 2): string {
+  if (value === null || value === undefined) return '';
+
+  const text = typeof value === 'number'
+    ? value.toFixed(decimals).replace('.', options.decimalSeparator)
+    : value;
+
+  // Campos com separador, aspas ou quebra de linha vão entre aspas (RFC 4180)
+  return text.includes(options.delimiter) || /["\r\n]/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+// Converte uma tabela (primeira linha com os cabeçalhos) em texto CSV; columnDecimals informa as colunas numéricas
+// que não são valores monetários e precisam de outra quantidade de casas decimais
+export function toCsv(
+  rows: (string | number | null | undefined)[][],
+  options: CsvOptions = DEFAULT_CSV_OPTIONS,
+  columnDecimals: Record<number, number> = {}
+): string {
+  const lines = rows.map(row => row.map((cell, column) => formatCell(cell, options, columnDecimals[column])).join(options.delimiter));
+  return (options.bom ? UTF8_BOM : '') + lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,41 @@
+import fs from 'fs';
+import path from 'path';
+
+// Formato dos arquivos de um diretório de dados: extensão e leitura do conteúdo
+export interface DataFileFormat<T> {
+  extension: string;
+  parse: (text: string) => T;
+}
+
+// Arquivos JSON chegam interpretados, mas sem tipo: quem os carrega valida o conteúdo
+export const JSON_FILES: DataFileFormat<unknown> = { extension: '.json', parse: text => JSON.parse(text) };
+export const CSV_FILES: DataFileFormat<string> = { extension: '.csv', parse: text => text };
+
+// Carrega os arquivos de um diretório de dados mantido pelos administradores (perfis de layout, tabelas do IRRF,
+// séries de índices), em ordem alfabética. Cada arquivo é entregue a load, já lido conforme o formato, e load devolve
+// a mensagem registrada no log. Um arquivo que não pode ser lido ou que load rejeita é ignorado com a mensagem
+// invalidMessage, sem impedir os demais. Retorna a quantidade de arquivos carregados
+export function loadDataDirectory<T>(
+  directory: string,
+  format: DataFileFormat<T>,
+  invalidMessage: string,
+  load: (content: T, fileName: string) => string
+): number {
+  if (!fs.existsSync(directory)) return 0;
+
+  let loaded = 0;
+  fs.readdirSync(directory)
+    .filter(fileName => fileName.toLowerCase().endsWith(format.extension))
+    .sort()
+    .forEach(fileName => {
+      try {
+        const content = format.parse(fs.readFileSync(path.join(directory, fileName), 'utf-8'));
+        console.log(load(content, fileName));
+        loaded++;
+      } catch (error) {
+        console.error(`${invalidMessage} em ${fileName}:`, error instanceof Error ? error.message : error);
+      }
+    });
+
+  return loaded;
+}
@@ -0,0 +1,17 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+// O driver serverless usa WebSocket para falar com o Postgres fora do browser
+neonConfig.webSocketConstructor = ws;
+
+// Cria a conexão drizzle a partir da URL do banco (DATABASE_URL)
+export function createDatabase(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
+
+// Qualquer conexão drizzle com o Postgres e o esquema da aplicação (os testes usam o PGlite, em memória)
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
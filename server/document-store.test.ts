@@ -0,0 +1,58 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type { InsertPayrollData } from "@shared/schema";
+import type { ProcessedPayslipFile, UploadedPayslipFile } from "./payslip-processor";
+import { hashContent } from "./payslip-dedup";
+
+// O repositório é configurado pelo ambiente ao carregar o módulo, então ele é importado depois de definir as variáveis
+let directory: string;
+let documentStoreModule: typeof import("./document-store");
+
+beforeAll(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), "document-store-"));
+  process.env.DOCUMENT_STORE_DIR = directory;
+  process.env.DOCUMENT_STORE_KEY = "chave-de-teste";
+  documentStoreModule = await import("./document-store");
+});
+
+afterAll(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+  delete process.env.DOCUMENT_STORE_DIR;
+  delete process.env.DOCUMENT_STORE_KEY;
+});
+
+const file = (fileName: string): UploadedPayslipFile => ({ fileName, buffer: Buffer.from(`%PDF ${fileName}`) });
+
+const processedFile = (fileName: string, dates: string[]): ProcessedPayslipFile => ({
+  summary: { fileName, dates, itemsExtracted: dates.length },
+  results: [],
+});
+
+const row = (uploaded: UploadedPayslipFile, date: string): InsertPayrollData => ({
+  userId: 1,
+  date,
+  source: "ERP",
+  codeData: [],
+  fileHash: hashContent(uploaded.buffer),
+});
+
+describe("storeSourceDocuments", () => {
+  it("stores only the files that still have rows to save and links those rows", async () => {
+    const { documentStore, storeSourceDocuments } = documentStoreModule;
+    const kept = file("jan.pdf");
+    const skipped = file("fev.pdf");
+    const rows = [row(kept, "01/2020")];
+
+    await storeSourceDocuments(1, [kept, skipped], [
+      processedFile("jan.pdf", ["01/2020", "02/2020"]),
+      processedFile("fev.pdf", ["02/2020"]),
+    ], rows);
+
+    const documents = await documentStore.list(1);
+    expect(documents.map(document => [document.fileName, document.months])).toEqual([["jan.pdf", ["01/2020"]]]);
+    expect(rows[0].documentId).toBe(hashContent(kept.buffer));
+    expect(await documentStore.read(1, hashContent(kept.buffer))).toEqual(kept.buffer);
+  });
+});
@@ -0,0 +1,176 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { InsertPayrollData, StoredDocument } from '@shared/schema';
+import type { ProcessedPayslipFile, UploadedPayslipFile } from './payslip-processor';
+import { hashContent } from './payslip-dedup';
+import { sortCompetences } from './competence';
+
+// O repositório é opcional: só é habilitado quando o diretório e a chave de criptografia são configurados
+const DOCUMENT_STORE_DIR = process.env.DOCUMENT_STORE_DIR || null;
+const DOCUMENT_STORE_KEY = process.env.DOCUMENT_STORE_KEY || null;
+
+const CIPHER = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// Os documentos são identificados pelo SHA-256 do PDF, o que também evita path traversal nos nomes de arquivo
+const DOCUMENT_ID_PATTERN = /^[0-9a-f]{64}$/;
+
+const PDF_SUFFIX = '.pdf.enc';
+const METADATA_SUFFIX = '.meta.enc';
+
+// Repositório dos PDFs originais, um diretório por usuário, com conteúdo e metadados criptografados (AES-256-GCM)
+export class DocumentStore {
+  private directory: string | null;
+  private key: Buffer | null;
+
+  constructor(directory: string | null, secret: string | null) {
+    if (directory && !secret) {
+      console.error('DOCUMENT_STORE_KEY não configurada: os documentos originais não serão guardados');
+    }
+    this.directory = directory && secret ? path.resolve(directory) : null;
+    this.key = directory && secret ? scryptSync(secret, 'contracheque-document-store', 32) : null;
+  }
+
+  get enabled(): boolean {
+    return this.directory !== null;
+  }
+
+  // Guarda o PDF e seus metadados; o reenvio do mesmo arquivo atualiza os metadados e soma as competências
+  async save(
+    userId: number,
+    file: UploadedPayslipFile,
+    details: { layout?: string; months: string[] }
+  ): Promise<StoredDocument> {
+    const id = hashContent(file.buffer);
+    const existing = await this.get(userId, id);
+    const document: StoredDocument = {
+      id,
+      fileName: file.fileName,
+      fileHash: id,
+      size: file.buffer.length,
+      layout: details.layout,
+      uploadedAt: new Date().toISOString(),
+      months: sortCompetences(Array.from(new Set([...(existing?.months || []), ...details.months])))
+    };
+
+    const userDirectory = this.userDirectory(userId);
+    await fs.mkdir(userDirectory, { recursive: true, mode: 0o700 });
+    await fs.writeFile(path.join(userDirectory, id + PDF_SUFFIX), this.encrypt(file.buffer), { mode: 0o600 });
+    await fs.writeFile(
+      path.join(userDirectory, id + METADATA_SUFFIX),
+      this.encrypt(Buffer.from(JSON.stringify(document))),
+      { mode: 0o600 }
+    );
+
+    return document;
+  }
+
+  // Lista os documentos do usuário, do envio mais recente para o mais antigo
+  async list(userId: number): Promise<StoredDocument[]> {
+    if (!this.enabled) return [];
+
+    let fileNames: string[];
+    try {
+      fileNames = await fs.readdir(this.userDirectory(userId));
+    } catch {
+      return [];
+    }
+
+    const documents: StoredDocument[] = [];
+    for (const fileName of fileNames.filter(name => name.endsWith(METADATA_SUFFIX))) {
+      const document = await this.get(userId, fileName.slice(0, -METADATA_SUFFIX.length));
+      if (document) {
+        documents.push(document);
+      }
+    }
+
+    return documents.sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+  }
+
+  async get(userId: number, id: string): Promise<StoredDocument | undefined> {
+    const content = await this.readFile(userId, id, METADATA_SUFFIX);
+    return content ? JSON.parse(content.toString('utf-8')) as StoredDocument : undefined;
+  }
+
+  // Conteúdo do PDF original, já descriptografado
+  async read(userId: number, id: string): Promise<Buffer | undefined> {
+    return this.readFile(userId, id, PDF_SUFFIX);
+  }
+
+  async delete(userId: number, id: string): Promise<boolean> {
+    if (!this.enabled || !DOCUMENT_ID_PATTERN.test(id)) return false;
+
+    const userDirectory = this.userDirectory(userId);
+    const results = await Promise.allSettled([
+      fs.unlink(path.join(userDirectory, id + PDF_SUFFIX)),
+      fs.unlink(path.join(userDirectory, id + METADATA_SUFFIX))
+    ]);
+    return results.some(result => result.status === 'fulfilled');
+  }
+
+  private userDirectory(userId: number): string {
+    return path.join(this.directory!, String(userId));
+  }
+
+  private async readFile(userId: number, id: string, suffix: string): Promise<Buffer | undefined> {
+    if (!this.enabled || !DOCUMENT_ID_PATTERN.test(id)) return undefined;
+
+    try {
+      return this.decrypt(await fs.readFile(path.join(this.userDirectory(userId), id + suffix)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Erro ao ler o documento ${id}:`, error);
+      }
+      return undefined;
+    }
+  }
+
+  // Formato gravado: IV (12 bytes) + tag de autenticação (16 bytes) + conteúdo criptografado
+  private encrypt(content: Buffer): Buffer {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(CIPHER, this.key!, iv);
+    const encrypted = Buffer.concat([cipher.update(content), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
+  }
+
+  private decrypt(content: Buffer): Buffer {
+    const decipher = createDecipheriv(CIPHER, this.key!, content.subarray(0, IV_LENGTH));
+    decipher.setAuthTag(content.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    return Buffer.concat([decipher.update(content.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+  }
+}
+
+export const documentStore = new DocumentStore(DOCUMENT_STORE_DIR, DOCUMENT_STORE_KEY);
+
+// Guarda os arquivos dos quais serão gravados contracheques e vincula cada registro ao seu documento. Só recebe
+// os registros que restaram após o tratamento dos duplicados: um arquivo ignorado por inteiro não é guardado.
+// Uma falha ao guardar é apenas registrada no log: os dados extraídos são gravados mesmo sem o vínculo
+export async function storeSourceDocuments(
+  userId: number,
+  files: UploadedPayslipFile[],
+  processed: ProcessedPayslipFile[],
+  rows: InsertPayrollData[]
+): Promise<void> {
+  if (!documentStore.enabled) return;
+
+  for (let index = 0; index < processed.length; index++) {
+    const { summary } = processed[index];
+    const fileHash = hashContent(files[index].buffer);
+    const fileRows = rows.filter(row => row.fileHash === fileHash);
+    if (fileRows.length === 0) continue;
+
+    try {
+      const document = await documentStore.save(userId, files[index], {
+        layout: summary.diagnostics?.layout?.profileId,
+        months: fileRows.map(row => row.date)
+      });
+      fileRows.forEach(row => {
+        row.documentId = document.id;
+      });
+    } catch (error) {
+      console.error('Erro ao guardar um documento original:', error);
+    }
+  }
+}
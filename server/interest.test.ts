@@ -0,0 +1,149 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { buildInterestSheet, calculateInterest, interestRequestSchema } from "./interest";
+import type { ConsolidatedPayroll } from "./payroll-consolidation";
+import { priceIndexes } from "./price-indexes";
+
+let directory: string;
+
+// IPCA-E sem a variação de 01/2020 e SELIC sem a taxa de 04/2020, para os meses faltantes
+beforeAll(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), "price-indexes-"));
+  fs.writeFileSync(path.join(directory, "IPCA-E.csv"), "12/2019;1,00\n02/2020;0,50\n03/2020;0,50\n04/2020;0,50\n");
+  fs.writeFileSync(path.join(directory, "SELIC.csv"), "03/2020;0,30\n");
+  priceIndexes.loadFromDirectory(directory);
+});
+
+afterAll(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+// 02/2020 é um mês sem contracheque da linha do tempo contínua e não entra no cálculo
+const consolidated: ConsolidatedPayroll = {
+  rows: [
+    { date: "11/2019", VENC: 1000, DESC: 100 },
+    { date: "01/2020", VENC: 2000, DESC: 0 },
+    { date: "02/2020", VENC: 0, DESC: 0 },
+    { date: "05/2020", VENC: 500, DESC: 0 },
+  ],
+  columns: [
+    { name: "VENC", category: "PROVENTOS" },
+    { name: "DESC", category: "DESCONTOS" },
+  ],
+  separateTypes: false,
+  missingMonths: ["02/2020"],
+};
+
+const request = (fields: Record<string, unknown>) =>
+  interestRequestSchema.parse({ target: "04/2020", citation: "2020-01-15", ...fields });
+
+describe("calculateInterest", () => {
+  it("runs interest from the citation or from the month after each competence, up to the target", () => {
+    const { calculation, missingMonths } = calculateInterest(consolidated, request({
+      rules: [{ from: "01/2019", type: "fixed", rate: 1 }],
+    }));
+
+    expect(calculation.rows.map(row => [row.date, row.amount, row.interestFrom, row.interestMonths, row.interestRate, row.interest]))
+      .toEqual([
+        ["11/2019", 900, "01/2020", 4, 4, 36],
+        ["01/2020", 2000, "02/2020", 3, 3, 60],
+        ["05/2020", 500, undefined, 0, 0, 0],
+      ]);
+    expect(calculation.totals).toEqual({ amount: 3400, correctedAmount: 3400, interest: 96, total: 3496 });
+    expect(missingMonths).toEqual([]);
+  });
+
+  it("splits the months between overlapping rules, the latest start prevailing", () => {
+    const { calculation } = calculateInterest(consolidated, request({
+      rules: [
+        { from: "03/2020", type: "fixed", rate: 0.5 },
+        { from: "01/2019", type: "fixed", rate: 1 },
+      ],
+    }));
+
+    const [first] = calculation.rows;
+    expect(first.periods.map(period => [period.from, period.to, period.months, period.rate])).toEqual([
+      ["01/2020", "02/2020", 2, 2],
+      ["03/2020", "04/2020", 2, 1],
+    ]);
+    expect(first.interest).toBe(27);
+  });
+
+  it("charges no interest before the first rule starts", () => {
+    const { calculation } = calculateInterest(consolidated, request({
+      rules: [{ from: "03/2020", type: "fixed", rate: 1 }],
+    }));
+
+    expect(calculation.rows[0]).toMatchObject({ interestFrom: "01/2020", interestMonths: 2, interestRate: 2, interest: 18 });
+  });
+
+  it("capitalizes the monthly rates of compound rules", () => {
+    const { calculation } = calculateInterest(consolidated, request({
+      rules: [{ from: "01/2019", type: "fixed", rate: 1, compounding: "compound" }],
+    }));
+
+    expect(calculation.rows[0]).toMatchObject({ interestRate: 4.0604, interest: 36.54 });
+  });
+
+  it("stops the correction before a rule that replaces it and reports the months missing from both series", () => {
+    const { calculation, missingMonths } = calculateInterest(consolidated, request({
+      correctionIndex: "IPCA-E",
+      rules: [
+        { from: "01/2019", type: "fixed", rate: 1 },
+        { from: "03/2020", type: "series", series: "SELIC", replacesCorrection: true },
+      ],
+    }));
+
+    const [first] = calculation.rows;
+    expect(calculation.correctionUntil).toBe("02/2020");
+    expect(first.correctionFactor).toBeCloseTo(1.01 * 1.005, 10);
+    expect(first.correctedAmount).toBe(913.55);
+    expect(first.interestRate).toBe(2.3);
+    expect(first.interest).toBe(21.01);
+    expect(missingMonths).toEqual(["01/2020", "04/2020"]);
+  });
+});
+
+describe("prescribed months", () => {
+  // Ajuizamento em 01/2025: 11/2019 está prescrita e 01/2020 é a primeira competência não prescrita
+  const marked: ConsolidatedPayroll = {
+    ...consolidated,
+    prescription: { filingDate: "2025-01-10", limit: "01/2020", excluded: false, months: ["11/2019"] },
+  };
+  const rules = [{ from: "01/2019", type: "fixed", rate: 1 }];
+
+  it("marks the rows before the limit and adds the PRESCRIÇÃO column to the sheet", () => {
+    const { calculation } = calculateInterest(marked, request({ rules }));
+
+    expect(calculation.prescriptionLimit).toBe("01/2020");
+    expect(calculation.rows.map(row => [row.date, row.prescribed])).toEqual([
+      ["11/2019", true],
+      ["01/2020", false],
+      ["05/2020", false],
+    ]);
+
+    const sheet = buildInterestSheet(calculation);
+    const header = sheet.rows.findIndex(row => row[0] === "COMPETÊNCIA");
+    expect(sheet.rows[header].slice(0, 3)).toEqual(["COMPETÊNCIA", "PRESCRIÇÃO (ANTES DE 01/2020)", "VALOR NOMINAL"]);
+    expect(sheet.rows.slice(header + 1).map(row => row.slice(0, 3))).toEqual([
+      ["11/2019", "PRESCRITA", 900],
+      ["01/2020", null, 2000],
+      ["05/2020", null, 500],
+      ["TOTAL", null, 3400],
+    ]);
+    expect(sheet.columnDecimals).toEqual({ 3: 6, 6: 0, 7: 4 });
+  });
+
+  it("leaves the sheet unchanged when the prescribed months were excluded", () => {
+    const { calculation } = calculateInterest(
+      { ...consolidated, prescription: { ...marked.prescription!, excluded: true } },
+      request({ rules })
+    );
+
+    expect(calculation.prescriptionLimit).toBeUndefined();
+    expect(calculation.rows.every(row => !row.prescribed)).toBe(true);
+    expect(buildInterestSheet(calculation).rows.find(row => row[0] === "COMPETÊNCIA")![1]).toBe("VALOR NOMINAL");
+  });
+});
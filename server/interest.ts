@@ -0,0 +1,234 @@
+import { z } from 'zod';
+import {
+  InterestCalculation,
+  InterestCalculationRow,
+  InterestPeriod,
+  InterestRule,
+  PayrollResult
+} from '@shared/schema';
+import { addMonths, compareCompetences, competenceSchema, continuousCompetences } from './competence';
+import { correctionFactors } from './monetary-correction';
+import { roundMoney } from './money';
+import {
+  isMarkedPrescribed,
+  markedPrescriptionLimit,
+  prescriptionHeader,
+  prescriptionMark,
+  type ConsolidatedPayroll,
+  type ExportSheet
+} from './payroll-consolidation';
+import { PRICE_INDEX_IDS, priceIndexes } from './price-indexes';
+
+const interestRuleSchema = z.object({
+  from: competenceSchema,
+  type: z.enum(['fixed', 'series']),
+  rate: z.number().min(0).max(100).optional(),
+  series: z.enum(PRICE_INDEX_IDS).optional(),
+  compounding: z.enum(['simple', 'compound']).default('simple'),
+  replacesCorrection: z.boolean().default(false)
+}).refine(rule => rule.type === 'fixed' ? rule.rate !== undefined : rule.series !== undefined, {
+  message: 'Fixed rules require rate and series rules require series'
+});
+
+// Parâmetros do cálculo de juros de mora sobre os valores mensais da tabela consolidada
+export const interestRequestSchema = z.object({
+  target: competenceSchema,
+  citation: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Expected YYYY-MM-DD' }),
+  basis: z.enum(['proventos', 'descontos', 'net']).default('net'),
+  columns: z.array(z.string().min(1)).min(1).optional(), // Soma apenas destas colunas, no lugar do total da base
+  correctionIndex: z.enum(PRICE_INDEX_IDS).optional(),
+  rules: z.array(interestRuleSchema).min(1)
+});
+
+export type InterestRequest = z.infer<typeof interestRequestSchema>;
+
+const BASIS_LABELS: Record<InterestRequest['basis'], string> = {
+  proventos: 'Total de proventos',
+  descontos: 'Total de descontos',
+  net: 'Líquido'
+};
+
+// Taxas com mais casas, para que a memória de cálculo possa ser conferida
+const roundRate = (value: number) => Math.round(value * 10000) / 10000;
+
+export function describeRule(rule: InterestRule): string {
+  const description = rule.type === 'fixed'
+    ? `${String(rule.rate).replace('.', ',')}% a.m.`
+    : priceIndexes.definition(rule.series!).name;
+  return rule.compounding === 'compound' ? `${description} (capitalizado)` : description;
+}
+
+// Valor da competência na base escolhida: colunas informadas ou total da categoria (líquido = proventos - descontos)
+function basisAmount(row: PayrollResult, consolidated: ConsolidatedPayroll, request: InterestRequest): number {
+  const sumOf = (filter: (name: string, category: string) => boolean) => consolidated.columns
+    .filter(column => filter(column.name, column.category))
+    .reduce((sum, column) => sum + ((row[column.name] as number | undefined) ?? 0), 0);
+
+  if (request.columns) {
+    return roundMoney(sumOf(name => request.columns!.includes(name)));
+  }
+  const proventos = sumOf((_, category) => category === 'PROVENTOS');
+  const descontos = sumOf((_, category) => category === 'DESCONTOS');
+  return roundMoney(request.basis === 'proventos' ? proventos : request.basis === 'descontos' ? descontos : proventos - descontos);
+}
+
+// Regra vigente em uma competência: a de início mais recente até ela (meses anteriores à primeira regra não têm juros)
+function ruleFor(rules: InterestRule[], date: string): InterestRule | undefined {
+  return rules.filter(rule => compareCompetences(rule.from, date) <= 0).pop();
+}
+
+// Calcula a memória de cálculo mês a mês. Cada parcela é corrigida pelo índice escolhido até a data do cálculo ou,
+// se uma regra de juros substituir a correção (SELIC), até o mês anterior ao início dessa regra. Os juros correm da
+// competência da citação, ou do mês seguinte à competência para as parcelas vencidas depois dela, até a data do
+// cálculo, inclusive. Em cada período de regra as taxas mensais são somadas (juros simples) ou capitalizadas, e as
+// taxas dos períodos são somadas entre si. Competências prescritas mantidas na tabela são calculadas e marcadas
+export function calculateInterest(
+  consolidated: ConsolidatedPayroll,
+  request: InterestRequest
+): { calculation: InterestCalculation; missingMonths: string[] } {
+  const rules = request.rules.slice().sort((a, b) => compareCompetences(a.from, b.from)) as InterestRule[];
+  const citationMonth = `${request.citation.slice(5, 7)}/${request.citation.slice(0, 4)}`;
+  const missingMonths = new Set<string>();
+
+  const replacingRule = rules.find(rule => rule.replacesCorrection && compareCompetences(rule.from, request.target) <= 0);
+  const correctionUntil = replacingRule ? addMonths(replacingRule.from, -1)! : request.target;
+
+  const dates = consolidated.rows
+    .filter(row => !consolidated.missingMonths.includes(row.date))
+    .map(row => row.date);
+  const correction = request.correctionIndex
+    ? correctionFactors({ index: request.correctionIndex, target: correctionUntil }, dates)
+    : { factors: {} as Record<string, number>, missingMonths: [] };
+  correction.missingMonths.forEach(month => missingMonths.add(month));
+
+  const rows: InterestCalculationRow[] = dates.map(date => {
+    const row = consolidated.rows.find(candidate => candidate.date === date)!;
+    const amount = basisAmount(row, consolidated, request);
+    const correctionFactor = correction.factors[date] ?? 1;
+    const correctedAmount = roundMoney(amount * correctionFactor);
+
+    const dueMonth = addMonths(date, 1) ?? date;
+    const interestFrom = compareCompetences(dueMonth, citationMonth) > 0 ? dueMonth : citationMonth;
+    const months = compareCompetences(interestFrom, request.target) <= 0
+      ? continuousCompetences([interestFrom, request.target])
+      : [];
+
+    // Agrupa os meses com juros pela regra vigente em cada um
+    const periods: InterestPeriod[] = [];
+    let currentRule: InterestRule | undefined;
+    let rates: number[] = [];
+    const closePeriod = (lastMonth: string) => {
+      if (!currentRule || rates.length === 0) return;
+      const rate = currentRule.compounding === 'compound'
+        ? (rates.reduce((factor, monthly) => factor * (1 + monthly / 100), 1) - 1) * 100
+        : rates.reduce((sum, monthly) => sum + monthly, 0);
+      periods[periods.length - 1].to = lastMonth;
+      periods[periods.length - 1].months = rates.length;
+      periods[periods.length - 1].rate = roundRate(rate);
+    };
+
+    months.forEach((month, index) => {
+      const rule = ruleFor(rules, month);
+      if (rule !== currentRule) {
+        closePeriod(months[index - 1]);
+        currentRule = rule;
+        rates = [];
+        if (rule) {
+          periods.push({ rule: describeRule(rule), from: month, to: month, months: 0, rate: 0 });
+        }
+      }
+      if (!rule) return;
+
+      const monthly = rule.type === 'fixed' ? rule.rate! : priceIndexes.get(rule.series!)?.get(month);
+      if (monthly === undefined) missingMonths.add(month);
+      rates.push(monthly ?? 0);
+    });
+    closePeriod(months[months.length - 1]);
+
+    const interestRate = roundRate(periods.reduce((sum, period) => sum + period.rate, 0));
+    const interest = roundMoney(correctedAmount * interestRate / 100);
+    return {
+      date,
+      amount,
+      correctionFactor,
+      correctedAmount,
+      interestFrom: months.length > 0 ? interestFrom : undefined,
+      interestMonths: periods.reduce((sum, period) => sum + period.months, 0),
+      interestRate,
+      interest,
+      total: roundMoney(correctedAmount + interest),
+      periods,
+      prescribed: isMarkedPrescribed(row, consolidated)
+    };
+  });
+
+  const sumOf = (field: 'amount' | 'correctedAmount' | 'interest' | 'total') =>
+    roundMoney(rows.reduce((sum, row) => sum + row[field], 0));
+
+  return {
+    calculation: {
+      target: request.target,
+      citation: request.citation,
+      basis: request.columns ? request.columns.join(', ') : BASIS_LABELS[request.basis],
+      correctionIndex: request.correctionIndex,
+      correctionUntil: request.correctionIndex && replacingRule ? correctionUntil : undefined,
+      rules,
+      prescriptionLimit: markedPrescriptionLimit(consolidated),
+      rows,
+      totals: {
+        amount: sumOf('amount'),
+        correctedAmount: sumOf('correctedAmount'),
+        interest: sumOf('interest'),
+        total: sumOf('total')
+      }
+    },
+    missingMonths: Array.from(missingMonths).sort(compareCompetences)
+  };
+}
+
+// Planilha da memória de cálculo: parâmetros, regras de juros e uma linha por competência, com o total geral.
+// Com os meses prescritos marcados, a coluna PRESCRIÇÃO vem logo após a competência
+export function buildInterestSheet(calculation: InterestCalculation): ExportSheet {
+  const limit = calculation.prescriptionLimit;
+  const citation = calculation.citation.split('-').reverse().join('/');
+  const correction = calculation.correctionIndex
+    ? `${priceIndexes.definition(calculation.correctionIndex).name} até ${calculation.correctionUntil ?? calculation.target}`
+    : 'Sem correção monetária';
+
+  const rows: (string | number | null)[][] = [
+    ['MEMÓRIA DE CÁLCULO - JUROS DE MORA'],
+    ['Data do cálculo', calculation.target],
+    ['Citação', citation],
+    ['Base', calculation.basis],
+    ['Correção monetária', correction],
+    [],
+    ['REGRAS DE JUROS', 'A PARTIR DE'],
+    ...calculation.rules.map(rule => [
+      describeRule(rule) + (rule.replacesCorrection ? ' - substitui a correção monetária' : ''),
+      rule.from
+    ]),
+    [],
+    ['COMPETÊNCIA', ...(limit ? [prescriptionHeader(limit)] : []), 'VALOR NOMINAL', 'FATOR DE CORREÇÃO', 'VALOR CORRIGIDO', 'JUROS DESDE', 'MESES', 'JUROS (%)',
+      'JUROS (R$)', 'TOTAL', 'DETALHAMENTO'],
+    ...calculation.rows.map(row => [
+      row.date,
+      ...(limit ? [prescriptionMark(row.prescribed)] : []),
+      row.amount,
+      row.correctionFactor,
+      row.correctedAmount,
+      row.interestFrom ?? '-',
+      row.interestMonths,
+      row.interestRate,
+      row.interest,
+      row.total,
+      row.periods
+        .map(period => `${period.rule}: ${period.from} a ${period.to} (${period.months} meses) = ${String(period.rate).replace('.', ',')}%`)
+        .join('; ')
+    ]),
+    ['TOTAL', ...(limit ? [null] : []), calculation.totals.amount, null, calculation.totals.correctedAmount, null, null, null,
+      calculation.totals.interest, calculation.totals.total, null]
+  ];
+
+  const offset = limit ? 1 : 0;
+  return { name: 'MEMÓRIA DE CÁLCULO', rows, columnDecimals: { [2 + offset]: 6, [5 + offset]: 0, [6 + offset]: 4 } };
+}
@@ -0,0 +1,77 @@
+import path from 'path';
+import { z } from 'zod';
+import { compareCompetences, competenceSchema, parseCompetence } from './competence';
+import { JSON_FILES, loadDataDirectory } from './data-directory';
+
+// Faixa da tabela progressiva mensal: base de cálculo até upTo (a última faixa não tem limite), alíquota e parcela a deduzir
+const bracketSchema = z.object({
+  upTo: z.number().positive().nullable(),
+  rate: z.number().min(0).max(100),
+  deduction: z.number().min(0)
+});
+
+// Redução do imposto mensal para rendimentos tributáveis mais baixos (Lei 15.270/2025): até exemptUpTo o imposto é
+// reduzido em até fullReduction; até phaseOutUpTo a redução é phaseOutBase - phaseOutRate x rendimentos
+const reductionSchema = z.object({
+  exemptUpTo: z.number().positive(),
+  fullReduction: z.number().min(0),
+  phaseOutUpTo: z.number().positive(),
+  phaseOutBase: z.number().min(0),
+  phaseOutRate: z.number().min(0)
+});
+
+export const irrfTableSchema = z.object({
+  validFrom: competenceSchema, // Primeira competência em que a tabela vale; ela vale até o início da seguinte
+  legislation: z.string().min(1),
+  brackets: z.array(bracketSchema).min(2).refine(
+    brackets => brackets.every((bracket, index) => index === brackets.length - 1
+      ? bracket.upTo === null
+      : bracket.upTo !== null && (index === 0 || bracket.upTo > brackets[index - 1].upTo!)),
+    { message: 'Brackets must be in ascending order and only the last one may have no upper limit' }
+  ),
+  dependentDeduction: z.number().min(0), // Dedução mensal por dependente
+  simplifiedDiscount: z.number().min(0).optional(), // Desconto simplificado mensal, alternativo às deduções legais
+  reduction: reductionSchema.optional()
+});
+
+export type IrrfTable = z.infer<typeof irrfTableSchema>;
+
+// Tabelas que acompanham a aplicação; o diretório pode ser alterado para incluir ou corrigir versões
+const IRRF_TABLES_DIR = process.env.IRRF_TABLES_DIR || path.resolve(process.cwd(), 'irrf-tables');
+
+// Registro das versões da tabela progressiva mensal do IRRF, em ordem de vigência
+export class IrrfTableRegistry {
+  private tables: IrrfTable[];
+
+  constructor() {
+    this.tables = [];
+  }
+
+  register(input: unknown): IrrfTable {
+    const table = irrfTableSchema.parse(input);
+    this.tables = [...this.tables.filter(existing => existing.validFrom !== table.validFrom), table]
+      .sort((a, b) => compareCompetences(a.validFrom, b.validFrom));
+    return table;
+  }
+
+  // Tabela vigente na competência: a de início mais recente até ela
+  tableFor(date: string): IrrfTable | undefined {
+    if (!parseCompetence(date)) return undefined;
+    return this.tables.filter(table => compareCompetences(table.validFrom, date) <= 0).pop();
+  }
+
+  list(): IrrfTable[] {
+    return this.tables.slice();
+  }
+
+  // Carrega uma tabela por arquivo *.json do diretório
+  loadFromDirectory(directory: string): number {
+    return loadDataDirectory(directory, JSON_FILES, 'Tabela do IRRF inválida', (content, fileName) => {
+      const table = this.register(content);
+      return `Tabela do IRRF de ${table.validFrom} carregada de ${fileName}`;
+    });
+  }
+}
+
+export const irrfTables = new IrrfTableRegistry();
+irrfTables.loadFromDirectory(IRRF_TABLES_DIR);
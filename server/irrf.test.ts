@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { buildIrrfSheet, calculateIrrf, irrfRequestSchema } from "./irrf";
+import type { ConsolidatedPayroll } from "./payroll-consolidation";
+
+// Usa as tabelas do diretório irrf-tables que acompanham a aplicação (a primeira vale a partir de 01/2012)
+const consolidated: ConsolidatedPayroll = {
+  rows: [
+    { date: "12/2011", VENC: 3000, PREV: 0, IRRF: 50 },
+    { date: "06/2025", VENC: 4000, PREV: 300, IRRF: 114.79 },
+    { date: "07/2025", VENC: 0, PREV: 0, IRRF: 0 },
+    { date: "01/2026", VENC: 4500, PREV: 400, IRRF: 0, "13 SAL": 4500, "IR 13": 337.01 },
+    { date: "02/2026", VENC: 6000, PREV: 700, IRRF: 369.12 },
+    { date: "03/2026", VENC: 8000, PREV: 900, IRRF: 1043.77 },
+    { date: "04/2026", VENC: 0, PREV: 0, IRRF: 0 },
+  ],
+  columns: [
+    { name: "VENC", category: "PROVENTOS" },
+    { name: "13 SAL", category: "PROVENTOS" },
+    { name: "PREV", category: "DESCONTOS" },
+    { name: "IRRF", category: "DESCONTOS" },
+    { name: "IR 13", category: "DESCONTOS" },
+  ],
+  separateTypes: false,
+  missingMonths: ["04/2026"],
+};
+
+const groups = [
+  { name: "Mensal", taxableColumns: ["VENC"], deductionColumns: ["PREV"], withheldColumns: ["IRRF"] },
+  { name: "13º salário", taxableColumns: ["13 SAL"], withheldColumns: ["IR 13"], monthly: false },
+];
+
+const calculate = (fields: Record<string, unknown> = {}) =>
+  calculateIrrf(consolidated, irrfRequestSchema.parse({ groups, ...fields }));
+
+const rowOf = (calculation: ReturnType<typeof calculateIrrf>, date: string, group = "Mensal") =>
+  calculation.rows.find(row => row.date === date && row.group === group)!;
+
+describe("calculateIrrf", () => {
+  it("uses the simplified discount when it exceeds the legal deductions", () => {
+    expect(rowOf(calculate(), "06/2025")).toMatchObject({
+      table: "05/2025",
+      deductions: 607.2,
+      deductionType: "simplified",
+      base: 3392.8,
+      rate: 15,
+      reduction: 0,
+      expected: 114.76,
+      difference: 0.03,
+      discrepancy: false,
+    });
+  });
+
+  it("keeps the legal deductions, dependents included, when they are larger", () => {
+    expect(rowOf(calculate({ dependents: 1 }), "06/2025")).toMatchObject({
+      deductions: 607.2,
+      deductionType: "simplified",
+    });
+    expect(rowOf(calculate({ dependents: 2 }), "06/2025")).toMatchObject({
+      deductions: 679.18,
+      deductionType: "legal",
+      base: 3320.82,
+      expected: 103.96,
+    });
+  });
+
+  it("applies the 2026 reduction in full up to the exemption limit and phases it out above it", () => {
+    const calculation = calculate();
+
+    expect(rowOf(calculation, "01/2026")).toMatchObject({ table: "01/2026", base: 3892.8, reduction: 200.39, expected: 0 });
+    expect(rowOf(calculation, "02/2026")).toMatchObject({
+      deductionType: "legal",
+      base: 5300,
+      rate: 27.5,
+      reduction: 179.75,
+      expected: 369.02,
+      difference: 0.1,
+      discrepancy: true,
+    });
+    expect(rowOf(calculation, "03/2026")).toMatchObject({ reduction: 0, expected: 1043.77, discrepancy: false });
+  });
+
+  it("taxes the 13th salary without the simplified discount or the reduction", () => {
+    expect(rowOf(calculate(), "01/2026", "13º salário")).toMatchObject({
+      deductions: 0,
+      deductionType: "legal",
+      base: 4500,
+      reduction: 0,
+      expected: 337.01,
+      discrepancy: false,
+    });
+  });
+
+  it("flags any withholding before the first table and omits empty groups and filler months", () => {
+    const calculation = calculate();
+
+    expect(rowOf(calculation, "12/2011")).toMatchObject({ table: undefined, expected: 0, withheld: 50, discrepancy: true });
+    expect(calculation.rows.map(row => `${row.date} ${row.group}`)).toEqual([
+      "12/2011 Mensal",
+      "06/2025 Mensal",
+      "01/2026 Mensal",
+      "01/2026 13º salário",
+      "02/2026 Mensal",
+      "03/2026 Mensal",
+    ]);
+  });
+});
+
+describe("prescribed months", () => {
+  // Ajuizamento em 01/2031: 12/2025 e anteriores estão prescritas e 01/2026 é a primeira competência não prescrita
+  const prescription = { filingDate: "2031-01-10", limit: "01/2026", excluded: false, months: ["12/2011", "06/2025"] };
+
+  it("marks the rows before the limit and adds the PRESCRIÇÃO column to the sheet", () => {
+    const calculation = calculateIrrf({ ...consolidated, prescription }, irrfRequestSchema.parse({ groups }));
+
+    expect(calculation.prescriptionLimit).toBe("01/2026");
+    expect(rowOf(calculation, "06/2025")).toMatchObject({ prescribed: true, expected: 114.76 });
+    expect(rowOf(calculation, "01/2026")).toMatchObject({ prescribed: false });
+
+    const sheet = buildIrrfSheet(calculation);
+    const header = sheet.rows.findIndex(row => row[0] === "COMPETÊNCIA");
+    expect(sheet.rows[header].slice(0, 3)).toEqual(["COMPETÊNCIA", "PRESCRIÇÃO (ANTES DE 01/2026)", "GRUPO"]);
+    expect(sheet.rows.slice(header + 1).map(row => row.slice(0, 3))).toEqual([
+      ["12/2011", "PRESCRITA", "Mensal"],
+      ["06/2025", "PRESCRITA", "Mensal"],
+      ["01/2026", null, "Mensal"],
+      ["01/2026", null, "13º salário"],
+      ["02/2026", null, "Mensal"],
+      ["03/2026", null, "Mensal"],
+      ["TOTAL", null, null],
+    ]);
+    expect(sheet.columnDecimals).toEqual({ 8: 1 });
+  });
+
+  it("leaves the sheet unchanged when the prescribed months were excluded", () => {
+    const calculation = calculateIrrf(
+      { ...consolidated, prescription: { ...prescription, excluded: true } },
+      irrfRequestSchema.parse({ groups })
+    );
+
+    expect(calculation.prescriptionLimit).toBeUndefined();
+    expect(calculation.rows.every(row => !row.prescribed)).toBe(true);
+    expect(buildIrrfSheet(calculation).rows.find(row => row[0] === "COMPETÊNCIA")![1]).toBe("GRUPO");
+  });
+});
@@ -0,0 +1,193 @@
+import { z } from 'zod';
+import { IrrfCalculation, IrrfCalculationRow, PayrollResult } from '@shared/schema';
+import { irrfTables, IrrfTable } from './irrf-tables';
+import {
+  isMarkedPrescribed,
+  markedPrescriptionLimit,
+  prescriptionHeader,
+  prescriptionMark,
+  type ConsolidatedPayroll,
+  type ExportSheet
+} from './payroll-consolidation';
+import { roundMoney } from './money';
+
+// Grupo de verbas tributado em separado: rendimentos tributáveis, deduções legais (previdência) e imposto retido.
+// monthly indica rendimentos mensais, que admitem o desconto simplificado e a redução da tabela (o 13º não admite)
+const irrfGroupSchema = z.object({
+  name: z.string().min(1),
+  taxableColumns: z.array(z.string().min(1)),
+  deductionColumns: z.array(z.string().min(1)).default([]),
+  withheldColumns: z.array(z.string().min(1)).min(1),
+  monthly: z.boolean().default(true)
+});
+
+type IrrfGroup = z.infer<typeof irrfGroupSchema>;
+
+// Grupos usados quando a requisição não informa os seus, com os nomes das verbas pré-definidas. Os rendimentos
+// mensais são os proventos que não pertencem a outro grupo nem estão entre os não tributáveis
+const NON_TAXABLE_COLUMNS = ['AUX ALIMENT', 'AUX TRANSPORTE', 'REEMBOLSO N TRIBU.', 'RESTITUICAO', 'ADIANT 13 SALARIO', 'RRA'];
+const VACATION_COLUMNS = ['1/3 FERIAS', 'DIF FERIAS'];
+const THIRTEENTH_COLUMNS = ['13 SALARIO', '13 SAL VAR', '13 SAL.VAR', 'DIF 13 SAL'];
+
+function defaultGroups(consolidated: ConsolidatedPayroll): IrrfGroup[] {
+  const monthlyColumns = consolidated.columns
+    .filter(column => column.category === 'PROVENTOS')
+    .map(column => column.name)
+    .filter(name => ![...NON_TAXABLE_COLUMNS, ...VACATION_COLUMNS, ...THIRTEENTH_COLUMNS].includes(name));
+
+  return [
+    { name: 'Mensal', taxableColumns: monthlyColumns, deductionColumns: ['PREVIDENCIA'], withheldColumns: ['IRRF'], monthly: true },
+    { name: 'Férias', taxableColumns: VACATION_COLUMNS, deductionColumns: [], withheldColumns: ['IR FERIAS'], monthly: true },
+    { name: '13º salário', taxableColumns: THIRTEENTH_COLUMNS, deductionColumns: ['PREV 13 SAL'], withheldColumns: ['IR 13 SAL'], monthly: false }
+  ];
+}
+
+// Parâmetros do recálculo do IRRF sobre a tabela consolidada
+export const irrfRequestSchema = z.object({
+  dependents: z.number().int().min(0).default(0),
+  tolerance: z.number().min(0).default(0.05), // Diferença aceita entre o retido e o recalculado (arredondamentos)
+  groups: z.array(irrfGroupSchema).min(1).optional()
+});
+
+export type IrrfRequest = z.infer<typeof irrfRequestSchema>;
+
+// Soma das colunas informadas na linha; colunas que não existem na tabela valem zero
+function sumColumns(row: PayrollResult, columns: string[]): number {
+  return roundMoney(columns.reduce((sum, column) => sum + Math.abs((row[column] as number | undefined) ?? 0), 0));
+}
+
+// Redução do imposto prevista na tabela, limitada ao próprio imposto
+function taxReduction(table: IrrfTable, gross: number, tax: number): number {
+  if (!table.reduction) return 0;
+
+  const { exemptUpTo, fullReduction, phaseOutUpTo, phaseOutBase, phaseOutRate } = table.reduction;
+  const reduction = gross <= exemptUpTo
+    ? fullReduction
+    : gross <= phaseOutUpTo ? Math.max(0, phaseOutBase - phaseOutRate * gross) : 0;
+  return roundMoney(Math.min(tax, reduction));
+}
+
+// Imposto devido pela tabela vigente: deduções legais (previdência e dependentes) ou o desconto simplificado, se
+// maior; sobre a base, alíquota da faixa menos a parcela a deduzir e, por fim, a redução da tabela
+function recompute(
+  table: IrrfTable,
+  gross: number,
+  legalDeductions: number,
+  monthly: boolean
+): Pick<IrrfCalculationRow, 'deductions' | 'deductionType' | 'base' | 'rate' | 'reduction' | 'expected'> {
+  const simplified = monthly && table.simplifiedDiscount !== undefined && table.simplifiedDiscount > legalDeductions;
+  const deductions = simplified ? table.simplifiedDiscount! : legalDeductions;
+  const base = roundMoney(Math.max(0, gross - deductions));
+
+  const bracket = table.brackets.find(candidate => candidate.upTo === null || base <= candidate.upTo)!;
+  const tax = roundMoney(Math.max(0, base * bracket.rate / 100 - bracket.deduction));
+  const reduction = monthly ? taxReduction(table, gross, tax) : 0;
+
+  return {
+    deductions,
+    deductionType: simplified ? 'simplified' : 'legal',
+    base,
+    rate: bracket.rate,
+    reduction,
+    expected: roundMoney(tax - reduction)
+  };
+}
+
+// Recalcula, competência a competência e grupo a grupo, o IRRF devido sobre os rendimentos extraídos e o compara com o
+// imposto retido. Grupos sem rendimentos nem imposto na competência são omitidos; competências anteriores à primeira
+// tabela ficam sem recálculo e são sempre sinalizadas quando houve retenção. Competências prescritas mantidas na tabela
+// são recalculadas e marcadas
+export function calculateIrrf(consolidated: ConsolidatedPayroll, request: IrrfRequest): IrrfCalculation {
+  const groups = request.groups ?? defaultGroups(consolidated);
+  const rows: IrrfCalculationRow[] = [];
+
+  consolidated.rows
+    .filter(row => !consolidated.missingMonths.includes(row.date))
+    .forEach(row => {
+      const table = irrfTables.tableFor(row.date);
+
+      groups.forEach(group => {
+        const gross = sumColumns(row, group.taxableColumns);
+        const withheld = sumColumns(row, group.withheldColumns);
+        if (gross === 0 && withheld === 0) return;
+
+        const legalDeductions = roundMoney(
+          sumColumns(row, group.deductionColumns) + (table ? request.dependents * table.dependentDeduction : 0)
+        );
+        const result = table
+          ? recompute(table, gross, legalDeductions, group.monthly)
+          : { deductions: legalDeductions, deductionType: 'legal' as const, base: roundMoney(gross - legalDeductions), rate: 0, reduction: 0, expected: 0 };
+        const difference = roundMoney(withheld - result.expected);
+
+        rows.push({
+          date: row.date,
+          group: group.name,
+          table: table?.validFrom,
+          gross,
+          ...result,
+          withheld,
+          difference,
+          discrepancy: table ? Math.abs(difference) > request.tolerance : withheld > 0,
+          prescribed: isMarkedPrescribed(row, consolidated)
+        });
+      });
+    });
+
+  const sumOf = (field: 'expected' | 'withheld' | 'difference') => roundMoney(rows.reduce((sum, row) => sum + row[field], 0));
+
+  return {
+    dependents: request.dependents,
+    tolerance: request.tolerance,
+    groups: groups.map(({ name, taxableColumns, deductionColumns, withheldColumns }) => ({
+      name,
+      taxableColumns,
+      deductionColumns,
+      withheldColumns
+    })),
+    prescriptionLimit: markedPrescriptionLimit(consolidated),
+    rows,
+    totals: { expected: sumOf('expected'), withheld: sumOf('withheld'), difference: sumOf('difference') }
+  };
+}
+
+// Planilha da conferência do IRRF: parâmetros, grupos e uma linha por competência e grupo, com o total geral.
+// Com os meses prescritos marcados, a coluna PRESCRIÇÃO vem logo após a competência
+export function buildIrrfSheet(calculation: IrrfCalculation): ExportSheet {
+  const limit = calculation.prescriptionLimit;
+  const rows: (string | number | null)[][] = [
+    ['CONFERÊNCIA DO IRRF'],
+    ['Dependentes', String(calculation.dependents)],
+    ['Tolerância', calculation.tolerance],
+    [],
+    ['GRUPO', 'RENDIMENTOS', 'DEDUÇÕES', 'IMPOSTO RETIDO'],
+    ...calculation.groups.map(group => [
+      group.name,
+      group.taxableColumns.join(', '),
+      group.deductionColumns.join(', '),
+      group.withheldColumns.join(', ')
+    ]),
+    [],
+    ['COMPETÊNCIA', ...(limit ? [prescriptionHeader(limit)] : []), 'GRUPO', 'TABELA', 'RENDIMENTOS', 'DEDUÇÕES', 'TIPO DE DEDUÇÃO', 'BASE DE CÁLCULO', 'ALÍQUOTA (%)',
+      'REDUÇÃO', 'IRRF DEVIDO', 'IRRF RETIDO', 'DIFERENÇA', 'DIVERGÊNCIA'],
+    ...calculation.rows.map(row => [
+      row.date,
+      ...(limit ? [prescriptionMark(row.prescribed)] : []),
+      row.group,
+      row.table ?? 'Sem tabela',
+      row.gross,
+      row.deductions,
+      row.deductionType === 'simplified' ? 'Desconto simplificado' : 'Deduções legais',
+      row.base,
+      row.rate,
+      row.reduction,
+      row.expected,
+      row.withheld,
+      row.difference,
+      row.discrepancy ? 'SIM' : 'NÃO'
+    ]),
+    ['TOTAL', ...(limit ? [null] : []), null, null, null, null, null, null, null, null, calculation.totals.expected, calculation.totals.withheld,
+      calculation.totals.difference, null]
+  ];
+
+  return { name: 'CONFERÊNCIA DO IRRF', rows, columnDecimals: { [limit ? 8 : 7]: 1 } };
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it, vi } from "vitest";
+import { JobQueue } from "./jobs";
+
+describe("JobQueue.resolve", () => {
+  it("leaves a job that is not waiting for a duplicate decision untouched", async () => {
+    const queue = new JobQueue();
+    const { id } = queue.enqueue(1, [], [], null, "ask");
+    await vi.waitFor(() => expect(queue.getJob(id, 1)?.status).toBe("completed"));
+    const finished = { ...queue.getJob(id, 1)! };
+
+    expect(await queue.resolve(id, 1, "replace")).toEqual(finished);
+  });
+
+  it("finds only the user's own jobs", async () => {
+    const queue = new JobQueue();
+    const { id } = queue.enqueue(1, [], [], null, "ask");
+
+    expect(await queue.resolve(id, 2, "skip")).toBeUndefined();
+    expect(await queue.resolve("missing", 1, "skip")).toBeUndefined();
+  });
+});
@@ -0,0 +1,232 @@
+import { randomUUID } from 'crypto';
+import { DuplicateMode, ExtractionJobInfo } from '@shared/schema';
+import { AUTO_PROFILE_ID, LayoutProfile } from './layout-profiles';
+import { processPayslipBatch, ProcessedPayslipFile, toPayrollDataRows, UploadedPayslipFile } from './payslip-processor';
+import { findDuplicatePayslips, savePayrollRows, selectPayrollRows } from './payslip-dedup';
+import { storage } from './storage';
+import { storeSourceDocuments } from './document-store';
+import { compareCompetences } from './competence';
+
+// Tempo que um job finalizado permanece disponível para consulta (1 hora)
+const FINISHED_JOB_TTL = 60 * 60 * 1000;
+
+// Job de extração mantido em memória enquanto aguarda ou é processado
+interface ExtractionJob {
+  info: ExtractionJobInfo;
+  userId: number;
+  files: UploadedPayslipFile[];
+  codes: string[];
+  profile: LayoutProfile | null; // Nulo quando o layout é detectado automaticamente
+  duplicateMode: DuplicateMode; // Tratamento dos contracheques já importados
+  processed?: ProcessedPayslipFile[]; // Resultados guardados enquanto o job aguarda a decisão sobre os duplicados
+  controller: AbortController;
+}
+
+// Fila de extração que processa os jobs em segundo plano, um por vez
+export class JobQueue {
+  private jobs: Map<string, ExtractionJob>;
+  private pending: ExtractionJob[];
+  private running: boolean;
+
+  constructor() {
+    this.jobs = new Map();
+    this.pending = [];
+    this.running = false;
+  }
+
+  enqueue(
+    userId: number,
+    files: UploadedPayslipFile[],
+    codes: string[],
+    profile: LayoutProfile | null,
+    duplicateMode: DuplicateMode
+  ): ExtractionJobInfo {
+    this.pruneFinishedJobs();
+
+    const job: ExtractionJob = {
+      info: {
+        id: randomUUID(),
+        status: 'queued',
+        source: profile?.id ?? AUTO_PROFILE_ID,
+        createdAt: new Date().toISOString(),
+        progress: {
+          totalFiles: files.length,
+          filesProcessed: 0,
+          pagesProcessed: 0,
+          datesFound: [],
+          errors: []
+        },
+        files: [],
+        savedCount: 0,
+        skippedCount: 0,
+        replacedCount: 0
+      },
+      userId,
+      files,
+      codes,
+      profile,
+      duplicateMode,
+      controller: new AbortController()
+    };
+
+    this.jobs.set(job.info.id, job);
+    this.pending.push(job);
+    void this.runNext();
+
+    return job.info;
+  }
+
+  getJob(id: string, userId: number): ExtractionJobInfo | undefined {
+    const job = this.jobs.get(id);
+    return job && job.userId === userId ? job.info : undefined;
+  }
+
+  getJobsByUserId(userId: number): ExtractionJobInfo[] {
+    return Array.from(this.jobs.values())
+      .filter(job => job.userId === userId)
+      .map(job => job.info);
+  }
+
+  cancel(id: string, userId: number): ExtractionJobInfo | undefined {
+    const job = this.jobs.get(id);
+    if (!job || job.userId !== userId) return undefined;
+
+    if (job.info.status === 'queued') {
+      this.pending = this.pending.filter(pendingJob => pendingJob !== job);
+      this.finish(job, 'cancelled');
+    } else if (job.info.status === 'conflict') {
+      this.finish(job, 'cancelled');
+    } else if (job.info.status === 'running') {
+      job.controller.abort();
+    }
+
+    return job.info;
+  }
+
+  private async runNext(): Promise<void> {
+    if (this.running) return;
+
+    const job = this.pending.shift();
+    if (!job) return;
+
+    this.running = true;
+    try {
+      await this.run(job);
+    } finally {
+      this.running = false;
+      void this.runNext();
+    }
+  }
+
+  private async run(job: ExtractionJob): Promise<void> {
+    const { info } = job;
+    info.status = 'running';
+    console.log(`Iniciando job de extração ${info.id} com ${job.files.length} arquivos`);
+
+    try {
+      const processed = await processPayslipBatch(job.files, job.codes, job.profile, {
+        signal: job.controller.signal,
+        onPageExtracted: (fileName, _pageNumber, totalPages) => {
+          info.progress.currentFile = fileName;
+          info.progress.currentFilePages = totalPages;
+          info.progress.pagesProcessed++;
+        },
+        onFileProcessed: (summary) => {
+          info.files.push(summary);
+          info.progress.filesProcessed++;
+          summary.dates.forEach(date => {
+            if (!info.progress.datesFound.includes(date)) {
+              info.progress.datesFound.push(date);
+            }
+          });
+          info.progress.datesFound.sort(compareCompetences);
+          if (summary.error) {
+            info.progress.errors.push(`${summary.fileName}: ${summary.error}`);
+          }
+        }
+      });
+
+      // Sem escolha do usuário, contracheques já importados a partir de outro arquivo suspendem a gravação
+      // até que ele decida entre ignorá-los e substituí-los (ver resolve)
+      if (job.duplicateMode === 'ask') {
+        const duplicates = findDuplicatePayslips(
+          await storage.getPayrollDataByUserId(job.userId),
+          processed.flatMap(file => file.results)
+        );
+        if (duplicates.length > 0) {
+          info.status = 'conflict';
+          info.duplicates = duplicates;
+          info.finishedAt = new Date().toISOString();
+          info.progress.currentFile = undefined;
+          info.progress.currentFilePages = undefined;
+          job.processed = processed;
+          return;
+        }
+      }
+
+      // Os dados e os documentos só são salvos quando o job termina sem cancelamento
+      await this.save(job, processed, job.duplicateMode);
+      this.finish(job, 'completed');
+    } catch (error) {
+      if (job.controller.signal.aborted) {
+        console.log(`Job de extração ${info.id} cancelado`);
+        this.finish(job, 'cancelled');
+      } else {
+        console.error(`Erro no job de extração ${info.id}:`, error);
+        info.progress.errors.push(error instanceof Error ? error.message : 'Failed to process PDF batch');
+        this.finish(job, 'failed');
+      }
+    }
+  }
+
+  // Grava os resultados de um job em conflito conforme a decisão do usuário sobre os contracheques já importados
+  async resolve(id: string, userId: number, duplicateMode: DuplicateMode): Promise<ExtractionJobInfo | undefined> {
+    const job = this.jobs.get(id);
+    if (!job || job.userId !== userId) return undefined;
+    if (job.info.status !== 'conflict' || !job.processed) return job.info;
+
+    // Marca o job antes de gravar para que uma segunda decisão simultânea não grave os dados outra vez
+    job.info.status = 'running';
+    try {
+      await this.save(job, job.processed, duplicateMode);
+      job.info.duplicates = undefined;
+      this.finish(job, 'completed');
+    } catch (error) {
+      console.error(`Erro ao gravar o job de extração ${id}:`, error);
+      job.info.progress.errors.push(error instanceof Error ? error.message : 'Failed to save extracted payslips');
+      this.finish(job, 'failed');
+    }
+    return job.info;
+  }
+
+  private async save(job: ExtractionJob, processed: ProcessedPayslipFile[], duplicateMode: DuplicateMode): Promise<void> {
+    const rows = toPayrollDataRows(job.userId, processed.flatMap(file => file.results));
+    const selection = await selectPayrollRows(job.userId, rows, duplicateMode);
+    await storeSourceDocuments(job.userId, job.files, processed, selection.rows);
+    const { saved, skipped, replaced } = await savePayrollRows(selection);
+    job.info.savedCount = saved.length;
+    job.info.skippedCount = skipped;
+    job.info.replacedCount = replaced;
+  }
+
+  private finish(job: ExtractionJob, status: ExtractionJobInfo['status']): void {
+    job.info.status = status;
+    job.info.finishedAt = new Date().toISOString();
+    job.info.progress.currentFile = undefined;
+    job.info.progress.currentFilePages = undefined;
+    // Libera os buffers dos PDFs e os resultados assim que o job termina
+    job.files = [];
+    job.processed = undefined;
+  }
+
+  private pruneFinishedJobs(): void {
+    const now = Date.now();
+    Array.from(this.jobs.entries()).forEach(([id, job]) => {
+      if (job.info.finishedAt && now - new Date(job.info.finishedAt).getTime() > FINISHED_JOB_TTL) {
+        this.jobs.delete(id);
+      }
+    });
+  }
+}
+
+export const jobQueue = new JobQueue();
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { scoreLayouts } from "./layout-detection";
+import { layoutProfiles } from "./layout-profiles";
+import type { PDFPage } from "./pdf-extractor";
+
+const profiles = layoutProfiles.list().map(summary => layoutProfiles.get(summary.id)!);
+
+const page = (lines: string[]): PDFPage => ({
+  text: lines.join(" "),
+  pageNumber: 1,
+  header: lines[0] ?? "",
+  rows: [],
+  lines,
+});
+
+describe("scoreLayouts", () => {
+  it("ranks the profile whose date and row patterns match the page first", () => {
+    const candidates = scoreLayouts([page(["Competência: 01/2020", "0002 VENCIMENTO 1.500,00"])], profiles);
+
+    expect(candidates[0]).toEqual({ profileId: "ERP", confidence: 1 });
+  });
+
+  it("scores long pages without amounts quickly", () => {
+    const words = "SERVIDOR MATRICULA LOTACAO AB12 CARGO ANALISTA REF 0003 NIVEL ".repeat(100);
+    const lines = ["Competência: 01/2020", ...Array.from({ length: 60 }, (_, index) => words.slice(index * 90))];
+
+    const start = Date.now();
+    const candidates = scoreLayouts([page(lines)], profiles);
+
+    expect(Date.now() - start).toBeLessThan(1000);
+    expect(candidates.find(candidate => candidate.profileId === "ERP")!.confidence).toBe(0.5);
+  });
+});
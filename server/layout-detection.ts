@@ -0,0 +1,69 @@
+import { LayoutCandidate } from '@shared/schema';
+import { LayoutProfile } from './layout-profiles';
+import { matchDatePattern, PDFPage } from './pdf-extractor';
+
+// Quantidade de páginas iniciais usadas para identificar o layout
+const SAMPLE_PAGES = 3;
+
+// Código genérico usado para testar os padrões de linha sem depender dos códigos informados
+const GENERIC_CODE = '[0-9A-Z]{2,6}';
+
+// Tamanho máximo de uma linha testada com os padrões de linha de verba do perfil
+const MAX_LINE_LENGTH = 200;
+
+// Pontuação da competência: o primeiro padrão do perfil é o mais específico, os demais são alternativas genéricas
+function scoreDate(page: PDFPage, profile: LayoutProfile): number {
+  const index = profile.datePatterns.findIndex(datePattern => matchDatePattern(page.text, datePattern) !== null);
+  if (index === -1) return 0;
+  return index === 0 ? 1 : 0.5;
+}
+
+// Pontuação das linhas de verbas: padrões de texto do perfil ou, na falta deles, linhas reconstruídas.
+// Os padrões são testados em cada linha visual (e não no texto corrido da página), com o tamanho limitado:
+// com o código genérico, padrões como o do RH retrocedem de forma explosiva em textos longos sem valores
+function scoreRows(page: PDFPage, profile: LayoutProfile): number {
+  if (profile.rowPatterns.length === 0) {
+    return page.rows.length > 0 ? 1 : 0;
+  }
+
+  const lines = page.lines.map(line => line.slice(0, MAX_LINE_LENGTH));
+  const matched = profile.rowPatterns.some(rowPattern => {
+    const pattern = new RegExp(rowPattern.pattern.split('{code}').join(GENERIC_CODE), 'i');
+    return lines.some(line => pattern.test(line));
+  });
+  return matched ? 1 : 0;
+}
+
+// Fração das expressões características do perfil encontradas nas páginas de amostra
+function scoreFingerprints(text: string, profile: LayoutProfile): number {
+  const matched = profile.fingerprints.filter(fingerprint => new RegExp(fingerprint, 'i').test(text));
+  return matched.length / profile.fingerprints.length;
+}
+
+// Calcula a aderência das primeiras páginas a cada perfil, do mais provável ao menos provável
+export function scoreLayouts(pages: PDFPage[], profiles: LayoutProfile[]): LayoutCandidate[] {
+  const sample = pages.slice(0, SAMPLE_PAGES).filter(page => page.text.length > 0);
+  if (sample.length === 0) {
+    return profiles.map(profile => ({ profileId: profile.id, confidence: 0 }));
+  }
+
+  const sampleText = sample.map(page => page.text).join(' ');
+  const average = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+
+  const candidates = profiles.map(profile => {
+    const scores = [
+      average(sample.map(page => scoreDate(page, profile))),
+      average(sample.map(page => scoreRows(page, profile)))
+    ];
+    if (profile.fingerprints.length > 0) {
+      scores.push(scoreFingerprints(sampleText, profile));
+    }
+
+    // Sem competência o perfil não extrai nada, independentemente das demais pontuações
+    const confidence = scores[0] === 0 ? 0 : average(scores);
+    return { profileId: profile.id, confidence: parseFloat(confidence.toFixed(2)) };
+  });
+
+  // A ordenação é estável: em caso de empate prevalece a ordem de registro dos perfis
+  return candidates.sort((a, b) => b.confidence - a.confidence);
+}
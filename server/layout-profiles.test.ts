@@ -0,0 +1,78 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { LayoutProfileRegistry, layoutProfileSchema } from "./layout-profiles";
+
+const profile = (fields: Record<string, unknown> = {}) => ({
+  id: "PREFEITURA",
+  name: "Prefeitura",
+  datePatterns: ["Refer[êe]ncia:\\s*(\\d{2})/(\\d{4})"],
+  ...fields,
+});
+
+describe("layoutProfileSchema", () => {
+  it("fills in the defaults of an optional section", () => {
+    const parsed = layoutProfileSchema.parse(profile());
+
+    expect(parsed).toMatchObject({
+      fingerprints: [],
+      rowPatterns: [],
+      valueColumns: ["proventos", "descontos", "last"],
+      signConvention: "absolute",
+      groupBy: "page",
+    });
+    expect(parsed.totalPatterns.net).toHaveLength(1);
+    expect(parsed.payrollTypePatterns.FERIAS).toHaveLength(1);
+  });
+
+  it("rejects the reserved id, invalid expressions and row patterns without the code placeholder", () => {
+    expect(layoutProfileSchema.safeParse(profile({ id: "auto" })).success).toBe(false);
+    expect(layoutProfileSchema.safeParse(profile({ datePatterns: ["(\\d{2}"] })).success).toBe(false);
+    expect(layoutProfileSchema.safeParse(profile({ datePatterns: [] })).success).toBe(false);
+    expect(layoutProfileSchema.safeParse(profile({ rowPatterns: [{ pattern: "(\\d+)\\s+(\\S+)" }] })).success).toBe(false);
+    expect(layoutProfileSchema.safeParse(profile({ rowPatterns: [{ pattern: "{code}\\s+(\\S+)\\s+(\\S+)" }] })).success).toBe(true);
+  });
+});
+
+describe("LayoutProfileRegistry", () => {
+  let directory: string;
+  const registry = new LayoutProfileRegistry();
+
+  // Perfis mantidos pelos administradores: um novo, um que substitui o embutido ERP e dois inválidos
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "layout-profiles-"));
+    fs.writeFileSync(path.join(directory, "prefeitura.json"), JSON.stringify(profile()));
+    fs.writeFileSync(path.join(directory, "erp.json"), JSON.stringify(profile({ id: "ERP", name: "ERP revisado" })));
+    fs.writeFileSync(path.join(directory, "invalido.json"), JSON.stringify(profile({ id: "INVALIDO", datePatterns: ["("] })));
+    fs.writeFileSync(path.join(directory, "quebrado.json"), "{ id: ");
+    fs.writeFileSync(path.join(directory, "LEIAME.md"), "Perfis de layout");
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("lists the built-in profiles", () => {
+    expect(new LayoutProfileRegistry().list().map(summary => [summary.id, summary.builtIn])).toEqual([
+      ["ERP", true],
+      ["RH", true],
+    ]);
+  });
+
+  it("loads the valid JSON files, skipping the invalid ones, and lets a file replace a built-in profile", () => {
+    expect(registry.loadFromDirectory(directory)).toBe(2);
+
+    expect(registry.list().map(summary => [summary.id, summary.name, summary.builtIn])).toEqual([
+      ["ERP", "ERP revisado", false],
+      ["RH", "RH", true],
+      ["PREFEITURA", "Prefeitura", false],
+    ]);
+    expect(registry.get("ERP")!.datePatterns).toEqual(profile().datePatterns);
+    expect(registry.get("INVALIDO")).toBeUndefined();
+  });
+
+  it("loads nothing from a missing directory", () => {
+    expect(new LayoutProfileRegistry().loadFromDirectory(path.join(directory, "ausente"))).toBe(0);
+  });
+});
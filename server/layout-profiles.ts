@@ -0,0 +1,174 @@
+import path from 'path';
+import { z } from 'zod';
+import { JSON_FILES, loadDataDirectory } from './data-directory';
+
+// Id usado no upload para pedir a detecção automática do layout
+export const AUTO_PROFILE_ID = 'auto';
+
+// Verifica se a expressão regular informada no perfil é válida
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const patternSchema = z.string().min(1).refine(isValidPattern, { message: 'Invalid regular expression' });
+
+// Valor monetário impresso após o rótulo do total (grupo 1)
+const TOTAL_AMOUNT = '\\s*:?\\s*R?\\$?\\s*(\\d{1,3}(?:\\.\\d{3})*,\\d{2})';
+
+// Padrões usados quando o perfil não define os totais impressos; grupo 1 = valor
+const DEFAULT_TOTAL_PATTERNS = {
+  proventos: ['Total\\s+(?:de\\s+|dos\\s+)?(?:Vantagens|Proventos|Vencimentos|Cr[ée]ditos)' + TOTAL_AMOUNT],
+  descontos: ['Total\\s+(?:de\\s+|dos\\s+)?(?:Descontos|D[ée]bitos)' + TOTAL_AMOUNT],
+  net: ['L[íi]quido(?:\\s+a\\s+(?:receber|pagar))?' + TOTAL_AMOUNT]
+};
+
+// Padrões do tipo de folha procurados no cabeçalho; páginas sem correspondência são da folha normal
+const DEFAULT_PAYROLL_TYPE_PATTERNS = {
+  RESCISAO: ['rescis[ãa]o', 'rescis[óo]ri[oa]'],
+  SUPLEMENTAR: ['suplementar', 'complementar'],
+  DECIMO_TERCEIRO: ['13[ºo°]?\\s*sal[áa]rio', 'd[ée]cimo\\s+terceiro', 'gratifica[çc][ãa]o\\s+natalina'],
+  FERIAS: ['f[ée]rias']
+};
+
+// Formato de um perfil de layout de contracheque (também usado nos arquivos JSON)
+export const layoutProfileSchema = z.object({
+  id: z.string().min(1).max(50).regex(/^[\w-]+$/).refine(id => id !== AUTO_PROFILE_ID, { message: 'Reserved profile id' }),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  // Expressões características do layout (cabeçalhos, nome do órgão), usadas na detecção automática
+  fingerprints: z.array(patternSchema).default([]),
+  // Padrões de competência: grupo 1 = mês (número ou nome), grupo 2 = ano
+  datePatterns: z.array(patternSchema).min(1),
+  // Padrões de linha de verba para o texto corrido; {code} é substituído pelo código procurado
+  rowPatterns: z.array(z.object({
+    pattern: patternSchema.refine(pattern => pattern.includes('{code}'), { message: 'Row pattern must contain {code}' }),
+    descriptionGroup: z.number().int().min(1).default(1),
+    valueGroup: z.number().int().min(1).default(2)
+  })).default([]),
+  // Padrões dos totais impressos no contracheque; grupo 1 = valor
+  totalPatterns: z.object({
+    proventos: z.array(patternSchema).default(DEFAULT_TOTAL_PATTERNS.proventos),
+    descontos: z.array(patternSchema).default(DEFAULT_TOTAL_PATTERNS.descontos),
+    net: z.array(patternSchema).default(DEFAULT_TOTAL_PATTERNS.net)
+  }).default({}),
+  // Padrões do tipo de folha procurados no cabeçalho da página, na ordem de prioridade abaixo
+  payrollTypePatterns: z.object({
+    RESCISAO: z.array(patternSchema).default(DEFAULT_PAYROLL_TYPE_PATTERNS.RESCISAO),
+    SUPLEMENTAR: z.array(patternSchema).default(DEFAULT_PAYROLL_TYPE_PATTERNS.SUPLEMENTAR),
+    DECIMO_TERCEIRO: z.array(patternSchema).default(DEFAULT_PAYROLL_TYPE_PATTERNS.DECIMO_TERCEIRO),
+    FERIAS: z.array(patternSchema).default(DEFAULT_PAYROLL_TYPE_PATTERNS.FERIAS)
+  }).default({}),
+  // Colunas das linhas reconstruídas que podem conter o valor, em ordem de preferência
+  valueColumns: z.array(z.enum(['proventos', 'descontos', 'last'])).min(1).default(['proventos', 'descontos', 'last']),
+  // absolute: todos os valores positivos; negative-descontos: valores de desconto ficam negativos
+  signConvention: z.enum(['absolute', 'negative-descontos']).default('absolute'),
+  // page: um contracheque por página; date: páginas da mesma competência são somadas
+  groupBy: z.enum(['page', 'date']).default('page')
+});
+
+export type LayoutProfile = z.infer<typeof layoutProfileSchema>;
+export type LayoutProfileInput = z.input<typeof layoutProfileSchema>;
+
+// Resumo do perfil exposto para seleção no upload
+export interface LayoutProfileSummary {
+  id: string;
+  name: string;
+  description?: string;
+  builtIn: boolean;
+}
+
+// Perfis que acompanham a aplicação (equivalentes aos antigos extratores ERP e RH)
+const builtInProfiles: LayoutProfileInput[] = [
+  {
+    id: 'ERP',
+    name: 'ERP',
+    description: 'Contracheques do sistema ERP, um por página, com competência numérica (MM/AAAA)',
+    datePatterns: [
+      '(?:Compet[êe]ncia|Per[íi]odo|Data[^:]*?):\\s*(\\d{2})[\\/\\s-](\\d{4})',
+      '(\\d{2})[\\/\\s-](\\d{4})'
+    ],
+    rowPatterns: [{
+      pattern: '(?<=\\s|^){code}(?=\\s|[-.:])\\s*[-.]?\\s*([^\\n\\r]*?)\\s+R?\\$?\\s*(\\d+(?:[.,]\\d{3})*(?:[.,]\\d{2}))',
+      descriptionGroup: 1,
+      valueGroup: 2
+    }],
+    groupBy: 'page'
+  },
+  {
+    id: 'RH',
+    name: 'RH',
+    description: 'Contracheques do sistema RH, com competência por extenso e páginas somadas por mês',
+    datePatterns: [
+      '(janeiro|fevereiro|março|abril|maio|junho|julho|agosto|setembro|outubro|novembro|dezembro)[/-]\\s*(\\d{4})',
+      '(\\d{2})[/-]\\s*(\\d{4})'
+    ],
+    rowPatterns: [{
+      pattern: '(?:.*?\\s)?\\b{code}\\b[\\s.]*([^\\n\\r]+?)\\s+(?:\\d+(?:\\.\\d{2})?\\s+)?(\\d{2}\\.\\d{4})?\\s*R?\\$?\\s*(\\d+(?:[.,]\\d{3})*(?:[.,]\\d{2}))',
+      descriptionGroup: 1,
+      valueGroup: 3
+    }],
+    groupBy: 'date'
+  }
+];
+
+// Diretório com perfis adicionais em JSON, mantidos pelos administradores sem alteração de código
+const PROFILES_DIR = process.env.LAYOUT_PROFILES_DIR || path.resolve(process.cwd(), 'layout-profiles');
+
+// Registro dos perfis de layout disponíveis para extração
+export class LayoutProfileRegistry {
+  private profiles: Map<string, LayoutProfile>;
+  private builtInIds: Set<string>;
+
+  constructor() {
+    this.profiles = new Map();
+    this.builtInIds = new Set();
+
+    builtInProfiles.forEach(profile => {
+      this.register(profile);
+      this.builtInIds.add(profile.id);
+    });
+  }
+
+  register(input: LayoutProfileInput): LayoutProfile {
+    const profile = layoutProfileSchema.parse(input);
+    if (this.profiles.has(profile.id)) {
+      console.log(`Perfil de layout ${profile.id} substituído`);
+    }
+    this.profiles.set(profile.id, profile);
+    return profile;
+  }
+
+  get(id: string): LayoutProfile | undefined {
+    return this.profiles.get(id);
+  }
+
+  getAll(): LayoutProfile[] {
+    return Array.from(this.profiles.values());
+  }
+
+  list(): LayoutProfileSummary[] {
+    return Array.from(this.profiles.values()).map(profile => ({
+      id: profile.id,
+      name: profile.name,
+      description: profile.description,
+      builtIn: this.builtInIds.has(profile.id)
+    }));
+  }
+
+  // Carrega um perfil por arquivo *.json do diretório; um perfil com o id de um embutido o substitui
+  loadFromDirectory(directory: string): number {
+    return loadDataDirectory(directory, JSON_FILES, 'Perfil de layout inválido', (content, fileName) => {
+      const profile = this.register(layoutProfileSchema.parse(content));
+      this.builtInIds.delete(profile.id);
+      return `Perfil de layout ${profile.id} carregado de ${fileName}`;
+    });
+  }
+}
+
+export const layoutProfiles = new LayoutProfileRegistry();
+layoutProfiles.loadFromDirectory(PROFILES_DIR);
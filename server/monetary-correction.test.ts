@@ -0,0 +1,58 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { correctionFactors } from "./monetary-correction";
+import { priceIndexes } from "./price-indexes";
+
+let directory: string;
+
+// Séries de teste carregadas pelo próprio registro, como os arquivos mantidos pelos administradores
+beforeAll(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), "price-indexes-"));
+  fs.writeFileSync(path.join(directory, "IPCA-E.csv"), "competencia;variacao\n12/2019;1,00\n01/2020;0,50\n02/2020;0,25\n04/2020;0,10\n");
+  fs.writeFileSync(path.join(directory, "SELIC.csv"), "2019-12;0,40\n2020-01;0,30\n2020-02;0,30\n");
+  priceIndexes.loadFromDirectory(directory);
+});
+
+afterAll(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe("correctionFactors", () => {
+  it("compounds the rates of the months after the competence up to the target, inclusive", () => {
+    const { factors, missingMonths } = correctionFactors({ index: "IPCA-E", target: "02/2020" }, ["11/2019", "01/2020"]);
+
+    expect(factors["11/2019"]).toBeCloseTo(1.01 * 1.005 * 1.0025, 10);
+    expect(factors["01/2020"]).toBeCloseTo(1.0025, 10);
+    expect(missingMonths).toEqual([]);
+  });
+
+  it("keeps factor 1 for the target month and the months after it", () => {
+    const { factors } = correctionFactors({ index: "IPCA-E", target: "02/2020" }, ["02/2020", "03/2020"]);
+
+    expect(factors).toEqual({ "02/2020": 1, "03/2020": 1 });
+  });
+
+  it("adds the rates of indexes with simple accumulation", () => {
+    const { factors } = correctionFactors({ index: "SELIC", target: "02/2020" }, ["11/2019"]);
+
+    expect(factors["11/2019"]).toBeCloseTo(1.01, 10);
+  });
+
+  it("lists each month without a rate once, in chronological order, crossing the year boundary", () => {
+    const { factors, missingMonths } = correctionFactors(
+      { index: "IPCA-E", target: "05/2020" },
+      ["01/2020", "10/2019", "01/2020"]
+    );
+
+    expect(missingMonths).toEqual(["11/2019", "03/2020", "05/2020"]);
+    expect(Object.keys(factors)).toEqual(["01/2020", "10/2019"]);
+  });
+
+  it("reports every month as missing for an index without a loaded series", () => {
+    const { missingMonths } = correctionFactors({ index: "INPC", target: "03/2020" }, ["01/2020"]);
+
+    expect(missingMonths).toEqual(["02/2020", "03/2020"]);
+  });
+});
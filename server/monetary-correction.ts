@@ -0,0 +1,106 @@
+import { AppliedCorrection, CorrectedTotals, PayrollResult, PayrollType, PriceIndexId } from '@shared/schema';
+import { compareCompetences, continuousCompetences } from './competence';
+import type { ConsolidatedPayroll } from './payroll-consolidation';
+import { roundMoney } from './money';
+import { priceIndexes } from './price-indexes';
+
+// Correção pedida para a tabela ou para uma exportação
+export interface CorrectionRequest {
+  index: PriceIndexId;
+  target: string; // Competência até a qual os valores são corrigidos (MM/AAAA)
+}
+
+// Resultado da correção; missingMonths lista os meses sem variação importada, que impedem o cálculo
+export interface CorrectionResult {
+  payroll: ConsolidatedPayroll;
+  missingMonths: string[];
+}
+
+// Fator de correção de cada competência até a de destino, acumulando as variações dos meses seguintes à
+// competência até a de destino, inclusive. Competências iguais ou posteriores ao destino ficam com fator 1
+export function correctionFactors(
+  request: CorrectionRequest,
+  dates: string[]
+): { factors: Record<string, number>; missingMonths: string[] } {
+  const series = priceIndexes.get(request.index) || new Map<string, number>();
+  const { accumulation } = priceIndexes.definition(request.index);
+  const factors: Record<string, number> = {};
+  const missingMonths = new Set<string>();
+
+  dates.forEach(date => {
+    if (date in factors) return;
+
+    // Meses entre a competência (exclusive) e o destino (inclusive)
+    const months = compareCompetences(date, request.target) < 0
+      ? continuousCompetences([date, request.target]).slice(1)
+      : [];
+    const rates = months.map(month => {
+      const rate = series.get(month);
+      if (rate === undefined) missingMonths.add(month);
+      return (rate ?? 0) / 100;
+    });
+
+    factors[date] = accumulation === 'simple'
+      ? 1 + rates.reduce((sum, rate) => sum + rate, 0)
+      : rates.reduce((factor, rate) => factor * (1 + rate), 1);
+  });
+
+  return { factors, missingMonths: Array.from(missingMonths).sort(compareCompetences) };
+}
+
+// Corrige os valores da tabela consolidada até a competência de destino, mantendo linhas e colunas
+export function correctPayroll(consolidated: ConsolidatedPayroll, request: CorrectionRequest): CorrectionResult {
+  const { factors, missingMonths } = correctionFactors(
+    request,
+    consolidated.rows.filter(row => !consolidated.missingMonths.includes(row.date)).map(row => row.date)
+  );
+
+  const rows = consolidated.rows.map(row => {
+    const factor = factors[row.date];
+    if (factor === undefined) return row;
+
+    const corrected: PayrollResult = { ...row };
+    consolidated.columns.forEach(column => {
+      corrected[column.name] = roundMoney((row[column.name] as number) * factor);
+    });
+    return corrected;
+  });
+
+  const correction: AppliedCorrection = { index: request.index, target: request.target, factors };
+  return { payroll: { ...consolidated, rows, correction }, missingMonths };
+}
+
+// Proventos, descontos e líquido de cada linha da tabela já corrigida
+export function correctedTotals(corrected: ConsolidatedPayroll): CorrectedTotals[] {
+  const sumOf = (row: PayrollResult, category: string) => roundMoney(
+    corrected.columns
+      .filter(column => column.category === category)
+      .reduce((sum, column) => sum + (row[column.name] as number), 0)
+  );
+
+  return corrected.rows
+    .filter(row => corrected.correction?.factors[row.date] !== undefined)
+    .map(row => {
+      const proventos = sumOf(row, 'PROVENTOS');
+      const descontos = sumOf(row, 'DESCONTOS');
+      return {
+        date: row.date,
+        ...(corrected.separateTypes ? { payrollType: row.payrollType as PayrollType } : {}),
+        factor: corrected.correction!.factors[row.date],
+        proventos,
+        descontos,
+        net: roundMoney(proventos - descontos)
+      };
+    });
+}
+
+// Aplica a correção quando a requisição informa índice e competência de destino; sem eles, mantém os valores nominais
+export function applyRequestedCorrection(
+  consolidated: ConsolidatedPayroll,
+  request: Partial<CorrectionRequest>
+): CorrectionResult {
+  if (!request.index || !request.target) {
+    return { payroll: consolidated, missingMonths: [] };
+  }
+  return correctPayroll(consolidated, { index: request.index, target: request.target });
+}
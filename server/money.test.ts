@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { roundMoney } from "./money";
+
+describe("roundMoney", () => {
+  it("rounds halves away from zero despite the binary representation", () => {
+    expect(roundMoney(1.005)).toBe(1.01);
+    expect(roundMoney(913.545)).toBe(913.55);
+    expect(roundMoney(-1.005)).toBe(-1.01);
+    expect(roundMoney(0.1 + 0.2)).toBe(0.3);
+  });
+
+  it("keeps values already in cents and never returns negative zero", () => {
+    expect(roundMoney(1234.56)).toBe(1234.56);
+    expect(Object.is(roundMoney(-0.001), 0)).toBe(true);
+  });
+});
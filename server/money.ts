@@ -0,0 +1,7 @@
+// Arredonda um valor em reais para centavos, com as metades afastadas do zero (1,005 → 1,01; -1,005 → -1,01).
+// O produto por 100 é limitado a 15 dígitos significativos antes do arredondamento para descartar o erro da
+// representação binária, que faria 1,005 * 100 virar 100,4999... e arredondar para baixo
+export function roundMoney(value: number): number {
+  const cents = Math.round(Number((Math.abs(value) * 100).toPrecision(15)));
+  return cents === 0 ? 0 : Math.sign(value) * cents / 100;
+}
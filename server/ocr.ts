@@ -0,0 +1,160 @@
+import path from 'path';
+import { createRequire } from 'module';
+import { deflateSync } from 'zlib';
+import Tesseract from 'tesseract.js';
+import pdfjsLib from 'pdfjs-dist/legacy/build/pdf';
+import { PDFTextItem } from './pdf-layout';
+
+// Texto reconhecido por OCR em uma página digitalizada
+export interface OcrPageResult {
+  text: string;
+  items: PDFTextItem[]; // Palavras posicionadas no sistema de coordenadas da página do PDF
+  confidence: number; // Confiança média do reconhecimento (0 a 1)
+}
+
+// Imagem decodificada pelo pdf.js (ImageKind: 1 = 1 bit, 2 = RGB, 3 = RGBA)
+interface DecodedImage {
+  width: number;
+  height: number;
+  kind: number;
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+// Permite desativar o OCR (por exemplo, em servidores com pouca memória)
+export const OCR_ENABLED = process.env.OCR_ENABLED !== 'false';
+
+// Dados do idioma português instalados localmente, sem download em tempo de execução
+const require = createRequire(import.meta.url);
+const LANG_PATH = process.env.OCR_LANG_PATH ||
+  path.join(path.dirname(require.resolve('@tesseract.js-data/por/package.json')), '4.0.0');
+
+let workerPromise: Promise<Tesseract.Worker> | null = null;
+
+// Cria o worker do Tesseract na primeira página digitalizada e o reutiliza nas seguintes
+function getWorker(): Promise<Tesseract.Worker> {
+  if (!workerPromise) {
+    workerPromise = Tesseract.createWorker('por', 1, {
+      langPath: LANG_PATH,
+      gzip: true,
+      cacheMethod: 'none'
+    });
+    workerPromise.catch(() => {
+      workerPromise = null;
+    });
+  }
+  return workerPromise;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < buffer.length; i++) {
+    crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+// Codifica a imagem decodificada pelo pdf.js como PNG (tons de cinza, RGB ou RGBA) para o Tesseract
+function encodePNG(image: DecodedImage): Buffer {
+  const { width, height, kind, data } = image;
+  const channels = kind === 1 ? 1 : kind === 2 ? 3 : 4;
+  const colorType = kind === 1 ? 0 : kind === 2 ? 2 : 6;
+  const rowLength = width * channels;
+  const raw = Buffer.alloc((rowLength + 1) * height);
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * (rowLength + 1); // Primeiro byte da linha é o filtro (0 = nenhum)
+    if (kind === 1) {
+      // Imagens de 1 bit vêm com 8 pixels por byte; bit ligado = branco
+      const packedRowLength = (width + 7) >> 3;
+      for (let x = 0; x < width; x++) {
+        const bit = (data[y * packedRowLength + (x >> 3)] >> (7 - (x & 7))) & 1;
+        raw[rowStart + 1 + x] = bit ? 255 : 0;
+      }
+    } else {
+      raw.set(data.subarray(y * rowLength, (y + 1) * rowLength), rowStart + 1);
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // Profundidade de 8 bits por canal
+  header[9] = colorType;
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+// Obtém a maior imagem desenhada na página, que em documentos digitalizados é a própria folha
+async function getLargestPageImage(page: any): Promise<DecodedImage | null> {
+  const operatorList = await page.getOperatorList();
+  const imageIds: string[] = [];
+
+  operatorList.fnArray.forEach((fn: number, index: number) => {
+    if (fn === pdfjsLib.OPS.paintImageXObject || fn === pdfjsLib.OPS.paintJpegXObject) {
+      imageIds.push(operatorList.argsArray[index][0]);
+    }
+  });
+
+  let largest: DecodedImage | null = null;
+  for (const imageId of imageIds) {
+    const objects = imageId.startsWith('g_') ? page.commonObjs : page.objs;
+    const image: DecodedImage | null = await new Promise(resolve => objects.get(imageId, resolve));
+    if (image?.data && (!largest || image.width * image.height > largest.width * largest.height)) {
+      largest = image;
+    }
+  }
+  return largest;
+}
+
+// Reconhece o texto de uma página sem camada de texto, retornando nulo se ela não tiver imagem
+export async function recognizePage(page: any): Promise<OcrPageResult | null> {
+  const image = await getLargestPageImage(page);
+  if (!image) return null;
+
+  const worker = await getWorker();
+  const { data } = await worker.recognize(encodePNG(image));
+
+  // Converte as posições da imagem (origem no topo) para as da página (origem na base)
+  const viewport = page.getViewport({ scale: 1 });
+  const scaleX = viewport.width / image.width;
+  const scaleY = viewport.height / image.height;
+
+  const items: PDFTextItem[] = data.lines.flatMap(line =>
+    line.words.map(word => ({
+      str: word.text,
+      x: word.bbox.x0 * scaleX,
+      // Todas as palavras da linha usam a base da linha, para ficarem agrupadas na mesma linha do layout
+      y: viewport.height - line.bbox.y1 * scaleY,
+      width: (word.bbox.x1 - word.bbox.x0) * scaleX,
+      confidence: word.confidence / 100
+    }))
+  );
+
+  return {
+    text: data.text.replace(/\s+/g, ' ').trim(),
+    items,
+    confidence: data.confidence / 100
+  };
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import type { CodeGroup, ExtractedPayrollItem, PayrollData } from "@shared/schema";
+import { buildCategorySheets, buildCodeToDisplayMap, consolidatePayroll } from "./payroll-consolidation";
+
+let nextId = 1;
+const payslip = (date: string, codeData: ExtractedPayrollItem[], payrollType = "NORMAL"): PayrollData => {
+  const [month, year] = date.split("/");
+  return {
+    id: nextId++,
+    userId: 1,
+    date,
+    competence: `${year}-${month}-01`,
+    payrollType,
+    source: "ERP",
+    codeData,
+    sourcePages: null,
+    printedTotals: null,
+    fileHash: null,
+    pageFingerprints: null,
+    documentId: null,
+  };
+};
+
+const item = (code: string, value: number, category: ExtractedPayrollItem["category"] = "PROVENTOS"): ExtractedPayrollItem =>
+  ({ code, description: code, value, category });
+
+const group = (displayName: string, codes: string): CodeGroup => ({ id: nextId++, userId: 1, displayName, codes });
+
+describe("buildCodeToDisplayMap", () => {
+  it("maps the predefined codes and lets the user groups take them over", () => {
+    const map = buildCodeToDisplayMap([group("GRATIFICAÇÃO", "0160, 0900,,0901")]);
+
+    expect(map.get("00002")).toBe("VENCIMENTO");
+    expect(map.get("0160")).toBe("GRATIFICAÇÃO");
+    expect(map.get("0901")).toBe("GRATIFICAÇÃO");
+    expect(map.has("")).toBe(false);
+  });
+});
+
+describe("consolidatePayroll", () => {
+  it("rounds the cells that add up several items to cents", () => {
+    const consolidated = consolidatePayroll([
+      payslip("01/2020", [item("0001", 0.1), item("0001", 0.2)]),
+      payslip("01/2020", [item("0001", 1000.005)], "SUPLEMENTAR"),
+    ], []);
+
+    expect(consolidated.rows).toEqual([{ date: "01/2020", "0001": 1000.31 }]);
+  });
+
+  it("adds the codes of a group into one column, in the order the columns appear in the payslips", () => {
+    const consolidated = consolidatePayroll([
+      payslip("02/2020", [item("0500", 165, "DESCONTOS"), item("0901", 50), item("0002", 1500)]),
+      payslip("01/2020", [item("00002", 1500), item("0900", 100)]),
+    ], [group("GRATIFICAÇÃO", "0900, 0901")]);
+
+    expect(consolidated.columns).toEqual([
+      { name: "VENCIMENTO", category: "PROVENTOS" },
+      { name: "GRATIFICAÇÃO", category: "PROVENTOS" },
+      { name: "0500", category: "DESCONTOS" },
+    ]);
+    expect(consolidated.rows).toEqual([
+      { date: "01/2020", VENCIMENTO: 1500, "GRATIFICAÇÃO": 100, "0500": 0 },
+      { date: "02/2020", VENCIMENTO: 1500, "GRATIFICAÇÃO": 50, "0500": 165 },
+    ]);
+  });
+
+  it("drops the columns that are zero in every row when asked to", () => {
+    const data = [payslip("01/2020", [item("0002", 1500), item("0900", 0)]), payslip("02/2020", [item("0900", 0)])];
+
+    expect(consolidatePayroll(data, [], { dropEmptyColumns: true }).rows).toEqual([
+      { date: "01/2020", VENCIMENTO: 1500 },
+      { date: "02/2020", VENCIMENTO: 0 },
+    ]);
+    expect(consolidatePayroll(data, []).columns.map(column => column.name)).toEqual(["VENCIMENTO", "0900"]);
+  });
+
+  it("keeps one row per payroll type when the types are separated", () => {
+    const consolidated = consolidatePayroll([
+      payslip("12/2020", [item("0002", 1500)]),
+      payslip("12/2020", [item("0544", 1500)], "DECIMO_TERCEIRO"),
+    ], [], { separateTypes: true });
+
+    expect(consolidated.rows).toEqual([
+      { date: "12/2020", payrollType: "NORMAL", VENCIMENTO: 1500, "13 SALARIO": 0 },
+      { date: "12/2020", payrollType: "DECIMO_TERCEIRO", VENCIMENTO: 0, "13 SALARIO": 1500 },
+    ]);
+  });
+});
+
+describe("continuous timeline", () => {
+  const data = [
+    payslip("02/2020", [item("0002", 1500)]),
+    payslip("11/2019", [item("0002", 1400)]),
+    payslip("12/2019", [item("0002", 1400)], "DECIMO_TERCEIRO"),
+  ];
+
+  it("sorts the rows chronologically and inserts empty rows for the missing months", () => {
+    const consolidated = consolidatePayroll(data, [], { continuousTimeline: true });
+
+    expect(consolidated.missingMonths).toEqual(["01/2020"]);
+    expect(consolidated.rows).toEqual([
+      { date: "11/2019", VENCIMENTO: 1400 },
+      { date: "12/2019", VENCIMENTO: 1400 },
+      { date: "01/2020" },
+      { date: "02/2020", VENCIMENTO: 1500 },
+    ]);
+  });
+
+  it("exports the missing months with blank cells", () => {
+    const consolidated = consolidatePayroll(data, [], { continuousTimeline: true, separateTypes: true });
+
+    expect(buildCategorySheets(consolidated)[0].rows).toEqual([
+      ["DATA", "TIPO DE FOLHA", "VENCIMENTO", "Total Vantagens"],
+      ["11/2019", "Normal", 1400, 1400],
+      ["12/2019", "13º Salário", 1400, 1400],
+      ["01/2020", "", null, null],
+      ["02/2020", "Normal", 1500, 1500],
+    ]);
+  });
+
+  it("leaves the gaps out without the option", () => {
+    expect(consolidatePayroll(data, []).rows.map(row => row.date)).toEqual(["11/2019", "12/2019", "02/2020"]);
+  });
+});
+
+describe("buildCategorySheets", () => {
+  it("exports the table columns of each category in the table order, with their totals", () => {
+    const consolidated = consolidatePayroll([
+      payslip("01/2020", [item("0002", 1500), item("0500", 165, "DESCONTOS"), item("0900", 10.5), item("0999", 7, "OUTROS")]),
+    ], []);
+
+    expect(buildCategorySheets(consolidated).map(sheet => [sheet.name, sheet.rows])).toEqual([
+      ["VANTAGENS", [["DATA", "VENCIMENTO", "0900", "Total Vantagens"], ["01/2020", 1500, 10.5, 1510.5]]],
+      ["DESCONTOS", [["DATA", "0500", "Total Descontos"], ["01/2020", 165, 165]]],
+      ["OUTROS", [["DATA", "0999"], ["01/2020", 7]]],
+    ]);
+  });
+
+  it("leaves out the sheet of other items when there are none", () => {
+    const consolidated = consolidatePayroll([payslip("01/2020", [item("0002", 1500)])], []);
+
+    expect(buildCategorySheets(consolidated).map(sheet => sheet.name)).toEqual(["VANTAGENS", "DESCONTOS"]);
+  });
+});
@@ -0,0 +1,226 @@
+import { AppliedCorrection, AppliedPrescription, CodeGroup, PayrollCategory, PayrollData, PayrollResult, PayrollType } from '@shared/schema';
+import { continuousCompetences, sortByCompetence, sortCompetences } from './competence';
+import { roundMoney } from './money';
+import { payrollTypeLabels, predefinedCodes } from './payroll-definitions';
+import { isPrescribed, prescriptionLimit, PrescriptionOptions } from './prescription';
+
+// Coluna da tabela consolidada: um código ou o nome de exibição do grupo/verba pré-definida que o contém
+export interface ConsolidatedColumn {
+  name: string;
+  category: PayrollCategory; // Categoria do primeiro item da coluna, usada para separar vantagens e descontos
+}
+
+// Tabela consolidada usada na tela e em todas as exportações, para que elas sempre coincidam
+export interface ConsolidatedPayroll {
+  rows: PayrollResult[];
+  columns: ConsolidatedColumn[];
+  separateTypes: boolean;
+  missingMonths: string[]; // Competências sem contracheque inseridas como linhas vazias na linha do tempo contínua
+  correction?: AppliedCorrection; // Presente quando os valores foram corrigidos monetariamente (ver monetary-correction)
+  prescription?: AppliedPrescription; // Presente quando o ajuizamento foi informado (ver prescription)
+}
+
+export interface ConsolidationOptions {
+  separateTypes?: boolean; // Uma linha por tipo de folha da competência (normal, suplementar, 13º...)
+  dropEmptyColumns?: boolean; // Remove colunas em que todos os valores são zero
+  continuousTimeline?: boolean; // Insere linhas vazias para os meses sem contracheque entre a primeira e a última competência
+  prescription?: PrescriptionOptions; // Marca ou exclui as competências alcançadas pela prescrição quinquenal
+}
+
+// Planilha exportada: primeira linha com os cabeçalhos; células nulas ficam em branco (meses sem contracheque)
+export interface ExportSheet {
+  name: string;
+  rows: (string | number | null)[][];
+  columnDecimals?: Record<number, number>; // Casas decimais das colunas que não são valores monetários (fator de correção)
+}
+
+// Chave da linha da tabela: a competência ou, com as folhas separadas, a competência e o tipo de folha
+export function payrollRowKey(data: PayrollData, separateTypes: boolean): string {
+  return separateTypes ? `${data.date}|${data.payrollType}` : data.date;
+}
+
+// Mapeia cada código para o nome exibido na tabela (verbas pré-definidas e grupos do usuário)
+export function buildCodeToDisplayMap(codeGroups: CodeGroup[]): Map<string, string> {
+  const codeToDisplayMap = new Map<string, string>();
+
+  // Primeiro, mapear códigos predefinidos
+  predefinedCodes.forEach(pc => {
+    const codes = pc.code.split(/[\s,]+/).filter(Boolean);
+    codes.forEach(code => {
+      codeToDisplayMap.set(code.trim(), pc.description);
+    });
+  });
+
+  // Depois, mapear códigos de grupos personalizados
+  codeGroups.forEach(group => {
+    const codes = group.codes.split(/[\s,]+/).filter(Boolean);
+    codes.forEach(code => {
+      codeToDisplayMap.set(code.trim(), group.displayName);
+    });
+  });
+
+  return codeToDisplayMap;
+}
+
+// Consolida os registros: uma linha por competência (ou por competência e tipo de folha), em ordem cronológica, e uma
+// coluna por código ou grupo de códigos, na ordem em que aparecem nos contracheques, somando os itens de cada célula
+export function consolidatePayroll(
+  payrollData: PayrollData[],
+  codeGroups: CodeGroup[],
+  options: ConsolidationOptions = {}
+): ConsolidatedPayroll {
+  const separateTypes = options.separateTypes ?? false;
+  const codeToDisplayMap = buildCodeToDisplayMap(codeGroups);
+  const rowsByKey = new Map<string, PayrollResult>();
+  const columns = new Map<string, ConsolidatedColumn>();
+
+  // Competências prescritas; quando excluídas, seus itens não entram nem nas colunas da tabela
+  const limit = options.prescription ? prescriptionLimit(options.prescription.filingDate) : null;
+  const prescription: AppliedPrescription | undefined = limit
+    ? {
+        filingDate: options.prescription!.filingDate,
+        limit,
+        excluded: options.prescription!.exclude,
+        months: sortCompetences(Array.from(new Set(payrollData.map(data => data.date).filter(date => isPrescribed(date, limit)))))
+      }
+    : undefined;
+  const included = prescription?.excluded
+    ? payrollData.filter(data => !prescription.months.includes(data.date))
+    : payrollData;
+
+  sortByCompetence(included).forEach(data => {
+    const key = payrollRowKey(data, separateTypes);
+    let row = rowsByKey.get(key);
+    if (!row) {
+      row = separateTypes ? { date: data.date, payrollType: data.payrollType } : { date: data.date };
+      rowsByKey.set(key, row);
+    }
+
+    data.codeData.forEach(item => {
+      const name = codeToDisplayMap.get(item.code) || item.code;
+      if (!columns.has(name)) {
+        columns.set(name, { name, category: item.category });
+      }
+      row![name] = roundMoney(((row![name] as number | undefined) ?? 0) + item.value);
+    });
+  });
+
+  const rows = Array.from(rowsByKey.values());
+  const allColumns = Array.from(columns.values());
+  const consolidatedColumns = options.dropEmptyColumns
+    ? allColumns.filter(column => rows.some(row => row[column.name]))
+    : allColumns;
+
+  // Células sem itens valem zero, para que todas as linhas tenham as mesmas colunas; colunas removidas saem de todas
+  rows.forEach(row => {
+    allColumns.forEach(column => {
+      if (consolidatedColumns.includes(column)) {
+        row[column.name] = row[column.name] ?? 0;
+      } else {
+        delete row[column.name];
+      }
+    });
+  });
+
+  if (!options.continuousTimeline) {
+    return { rows, columns: consolidatedColumns, separateTypes, missingMonths: [], prescription };
+  }
+
+  // Meses sem contracheque viram linhas sem valores, para que as lacunas do histórico fiquem evidentes
+  const presentMonths = new Set(rows.map(row => row.date));
+  const missingMonths = continuousCompetences(Array.from(presentMonths)).filter(date => !presentMonths.has(date));
+  const timeline = sortByCompetence([...rows, ...missingMonths.map(date => ({ date }))]);
+  return { rows: timeline, columns: consolidatedColumns, separateTypes, missingMonths, prescription };
+}
+
+// Linha inserida na linha do tempo contínua para um mês sem contracheque
+function isMissingMonth(row: PayrollResult, consolidated: ConsolidatedPayroll): boolean {
+  return consolidated.missingMonths.includes(row.date);
+}
+
+// Casas decimais do fator de correção monetária nas exportações
+export const FACTOR_DECIMALS = 6;
+
+// Células iniciais de uma linha exportada: a data e, com as folhas separadas, o tipo de folha
+function leadingCells(row: PayrollResult, separateTypes: boolean): string[] {
+  if (!separateTypes) return [row.date];
+  return [row.date, row.payrollType ? payrollTypeLabels[row.payrollType as PayrollType] : ''];
+}
+
+// Competência prescrita mantida na tabela, que as exportações marcam em uma coluna própria
+export function isMarkedPrescribed(row: PayrollResult, consolidated: ConsolidatedPayroll): boolean {
+  return !!consolidated.prescription && !consolidated.prescription.excluded && consolidated.prescription.months.includes(row.date);
+}
+
+// Primeira competência não prescrita quando os meses prescritos são mantidos na tabela e, portanto, marcados
+export function markedPrescriptionLimit(consolidated: ConsolidatedPayroll): string | undefined {
+  return consolidated.prescription && !consolidated.prescription.excluded ? consolidated.prescription.limit : undefined;
+}
+
+// Coluna PRESCRIÇÃO das planilhas: cabeçalho com o limite e marca das competências prescritas
+export const prescriptionHeader = (limit: string) => `PRESCRIÇÃO (ANTES DE ${limit})`;
+export const prescriptionMark = (prescribed: boolean) => prescribed ? 'PRESCRITA' : null;
+
+// Monta uma planilha com as colunas informadas, na ordem da tabela, e opcionalmente uma coluna de total.
+// Com os meses prescritos marcados, a coluna PRESCRIÇÃO vem logo após a data; com correção monetária, o fator de
+// cada competência vem em seguida
+export function buildSheet(
+  name: string,
+  consolidated: ConsolidatedPayroll,
+  columns: ConsolidatedColumn[],
+  totalHeader?: string
+): ExportSheet {
+  const correction = consolidated.correction;
+  const limit = markedPrescriptionLimit(consolidated);
+  const markPrescription = limit !== undefined;
+  const prescriptionCell = (row: PayrollResult) => markPrescription
+    ? [prescriptionMark(isMarkedPrescribed(row, consolidated))]
+    : [];
+  const headers = [
+    ...(consolidated.separateTypes ? ['DATA', 'TIPO DE FOLHA'] : ['DATA']),
+    ...(markPrescription ? [prescriptionHeader(limit)] : []),
+    ...(correction ? [`FATOR ${correction.index} ATÉ ${correction.target}`] : []),
+    ...columns.map(column => column.name),
+    ...(totalHeader ? [totalHeader] : [])
+  ];
+
+  const rows = consolidated.rows.map(row => {
+    if (isMissingMonth(row, consolidated)) {
+      return [
+        ...leadingCells(row, consolidated.separateTypes),
+        ...prescriptionCell(row),
+        ...(correction ? [null] : []),
+        ...columns.map(() => null),
+        ...(totalHeader ? [null] : [])
+      ];
+    }
+
+    const values = columns.map(column => row[column.name] as number);
+    const total = roundMoney(values.reduce((sum, value) => sum + value, 0));
+    return [
+      ...leadingCells(row, consolidated.separateTypes),
+      ...prescriptionCell(row),
+      ...(correction ? [correction.factors[row.date]] : []),
+      ...values,
+      ...(totalHeader ? [total] : [])
+    ];
+  });
+
+  const factorColumn = (consolidated.separateTypes ? 2 : 1) + (markPrescription ? 1 : 0);
+  const columnDecimals = correction ? { [factorColumn]: FACTOR_DECIMALS } : undefined;
+  return { name, rows: [headers, ...rows], columnDecimals };
+}
+
+// Planilhas de vantagens e descontos (e de outros itens, quando houver) com as colunas da tabela consolidada
+export function buildCategorySheets(consolidated: ConsolidatedPayroll): ExportSheet[] {
+  const columnsOf = (category: PayrollCategory) => consolidated.columns.filter(column => column.category === category);
+
+  const sheets = [
+    buildSheet('VANTAGENS', consolidated, columnsOf('PROVENTOS'), 'Total Vantagens'),
+    buildSheet('DESCONTOS', consolidated, columnsOf('DESCONTOS'), 'Total Descontos')
+  ];
+  if (columnsOf('OUTROS').length > 0) {
+    sheets.push(buildSheet('OUTROS', consolidated, columnsOf('OUTROS')));
+  }
+  return sheets;
+}
@@ -1,4 +1,5 @@
 // Definições de verbas e modelos pré-definidos para folha de pagamento
+import { PayrollType } from '@shared/schema';
 
 // Interface para definição de verba
 export interface PayrollCode {
@@ -56,6 +57,15 @@ export interface PayrollCode {
 
   ];
   
+  // Nomes dos tipos de folha exibidos nas exportações
+  export const payrollTypeLabels: Record<PayrollType, string> = {
+    NORMAL: 'Normal',
+    SUPLEMENTAR: 'Suplementar',
+    DECIMO_TERCEIRO: '13º Salário',
+    FERIAS: 'Férias',
+    RESCISAO: 'Rescisão'
+  };
+  
   // Modelos (cargos) pré-definidos
   export const predefinedModels: PayrollModel[] = [
     {
@@ -85,6 +95,16 @@ export interface PayrollCode {
     return predefinedCodes.find(c => c.code === code);
   }
   
+  // Função para obter a verba pré-definida que contém o código em sua lista de códigos
+  export function findPredefinedCode(code: string): PayrollCode | undefined {
+    return predefinedCodes.find(pc => pc.code.split(/[,\s]+/).some(c => c.trim() === code));
+  }
+  
+  // Função para obter a categoria de um código (OUTROS quando não é uma verba pré-definida)
+  export function getCodeCategory(code: string): PayrollCode['category'] {
+    return findPredefinedCode(code)?.category || 'OUTROS';
+  }
+  
   // Função para obter modelo por nome
   export function getModelByName(name: string): PayrollModel | undefined {
     return predefinedModels.find(m => m.name === name);
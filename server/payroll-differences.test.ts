@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import type { DueSeries } from "@shared/schema";
+import type { ConsolidatedPayroll } from "./payroll-consolidation";
+import { buildDifferencesSheet, computeDifferences } from "./payroll-differences";
+
+// 04/2020 é um mês sem contracheque da linha do tempo contínua
+const consolidated: ConsolidatedPayroll = {
+  rows: [
+    { date: "01/2020", GRAT: 100, VENC: 1000 },
+    { date: "02/2020", GRAT: 100, VENC: 1200 },
+    { date: "03/2020", GRAT: 0, VENC: 1200 },
+    { date: "04/2020", GRAT: 0, VENC: 0 },
+  ],
+  columns: [
+    { name: "GRAT", category: "PROVENTOS" },
+    { name: "VENC", category: "PROVENTOS" },
+  ],
+  separateTypes: false,
+  missingMonths: ["04/2020"],
+};
+
+let nextSeriesId = 1;
+const series = (fields: Partial<DueSeries>): DueSeries => ({
+  id: nextSeriesId++,
+  userId: 1,
+  column: "GRAT",
+  method: "fixed",
+  amount: null,
+  percentage: null,
+  baseColumn: null,
+  dueTable: null,
+  startDate: null,
+  endDate: null,
+  reflexes: true,
+  ...fields,
+});
+
+describe("computeDifferences", () => {
+  it("sums the series of a column within their periods, with reflexes only from series that have them", () => {
+    const differences = computeDifferences(consolidated, [
+      series({ method: "fixed", amount: 400, startDate: "02/2020", endDate: "03/2020" }),
+      series({ method: "percentage", percentage: 10, baseColumn: "VENC", reflexes: false }),
+    ]);
+
+    expect(differences.columns).toEqual(["GRAT"]);
+    expect(differences.rows).toEqual([
+      {
+        date: "01/2020",
+        cells: { GRAT: { paid: 100, due: 100, difference: 0 } },
+        difference: 0,
+        reflex13: 0,
+        reflexVacation: 0,
+        total: 0,
+        prescribed: false,
+      },
+      {
+        date: "02/2020",
+        cells: { GRAT: { paid: 100, due: 520, difference: 420 } },
+        difference: 420,
+        reflex13: 25,
+        reflexVacation: 8.33,
+        total: 453.33,
+        prescribed: false,
+      },
+      {
+        date: "03/2020",
+        cells: { GRAT: { paid: 0, due: 520, difference: 520 } },
+        difference: 520,
+        reflex13: 33.33,
+        reflexVacation: 11.11,
+        total: 564.44,
+        prescribed: false,
+      },
+    ]);
+    expect(differences.totals).toEqual({ difference: 940, reflex13: 58.33, reflexVacation: 19.44, total: 1017.77 });
+  });
+
+  it("skips the months absent from an imported table", () => {
+    const differences = computeDifferences(consolidated, [
+      series({ column: "VENC", method: "table", dueTable: { "01/2020": 1100, "03/2020": 1250, "04/2020": 1250 } }),
+    ]);
+
+    expect(differences.rows.map(row => [row.date, row.difference, row.reflex13, row.reflexVacation, row.total])).toEqual([
+      ["01/2020", 100, 8.33, 2.78, 111.11],
+      ["03/2020", 50, 4.17, 1.39, 55.56],
+    ]);
+  });
+
+  it("ignores percentage series without a base column", () => {
+    const differences = computeDifferences(consolidated, [series({ method: "percentage", percentage: 10 })]);
+
+    expect(differences.rows).toEqual([]);
+    expect(differences.totals).toEqual({ difference: 0, reflex13: 0, reflexVacation: 0, total: 0 });
+  });
+});
+
+describe("prescribed months", () => {
+  // Ajuizamento em 02/2025: 01/2020 está prescrita e 02/2020 é a primeira competência não prescrita
+  const marked: ConsolidatedPayroll = {
+    ...consolidated,
+    prescription: { filingDate: "2025-02-10", limit: "02/2020", excluded: false, months: ["01/2020"] },
+  };
+
+  it("marks the differences before the limit and adds the PRESCRIÇÃO column to the sheet", () => {
+    const differences = computeDifferences(marked, [series({ method: "fixed", amount: 150, reflexes: false })]);
+
+    expect(differences.prescriptionLimit).toBe("02/2020");
+    expect(differences.rows.map(row => [row.date, row.prescribed, row.difference])).toEqual([
+      ["01/2020", true, 50],
+      ["02/2020", false, 50],
+      ["03/2020", false, 150],
+    ]);
+    expect(buildDifferencesSheet(differences).rows.map(row => row.slice(0, 3))).toEqual([
+      ["DATA", "PRESCRIÇÃO (ANTES DE 02/2020)", "GRAT PAGO"],
+      ["01/2020", "PRESCRITA", 100],
+      ["02/2020", null, 100],
+      ["03/2020", null, 0],
+      ["TOTAL", null, null],
+    ]);
+  });
+
+  it("leaves the sheet unchanged without a marked prescription", () => {
+    const differences = computeDifferences(consolidated, [series({ method: "fixed", amount: 150 })]);
+
+    expect(differences.prescriptionLimit).toBeUndefined();
+    expect(buildDifferencesSheet(differences).rows[0].slice(0, 2)).toEqual(["DATA", "GRAT PAGO"]);
+  });
+});
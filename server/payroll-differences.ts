@@ -0,0 +1,137 @@
+import { DifferenceCell, DifferenceRow, DueSeries, PayrollDifferences, PayrollResult } from '@shared/schema';
+import { compareCompetences } from './competence';
+import {
+  isMarkedPrescribed,
+  markedPrescriptionLimit,
+  prescriptionHeader,
+  prescriptionMark,
+  type ConsolidatedPayroll,
+  type ExportSheet
+} from './payroll-consolidation';
+import { roundMoney } from './money';
+
+// Valor devido na competência conforme o método da série; nulo quando não há valor a comparar (mês ausente da tabela)
+function dueAmount(series: DueSeries, row: PayrollResult): number | null {
+  switch (series.method) {
+    case 'fixed':
+      return series.amount ?? null;
+    case 'percentage':
+      if (series.percentage === null || !series.baseColumn) return null;
+      return ((row[series.baseColumn] as number | undefined) ?? 0) * series.percentage / 100;
+    case 'table': {
+      return series.dueTable?.[row.date] ?? null;
+    }
+    default:
+      return null;
+  }
+}
+
+function inPeriod(series: DueSeries, date: string): boolean {
+  if (series.startDate && compareCompetences(date, series.startDate) < 0) return false;
+  if (series.endDate && compareCompetences(date, series.endDate) > 0) return false;
+  return true;
+}
+
+// Compara, competência a competência, o valor pago de cada coluna (tabela consolidada sem separação por tipo de
+// folha) com o devido pelas séries cadastradas. A diferença é o devido menos o pago; nas séries com reflexos, cada
+// diferença mensal gera 1/12 de 13º e 1/3 desse duodécimo de férias. Competências prescritas mantidas na tabela são
+// calculadas e marcadas
+export function computeDifferences(consolidated: ConsolidatedPayroll, seriesList: DueSeries[]): PayrollDifferences {
+  const columns = Array.from(new Set(seriesList.map(series => series.column)));
+
+  const rows: DifferenceRow[] = consolidated.rows
+    .filter(row => !consolidated.missingMonths.includes(row.date))
+    .map(row => {
+      const cells: Record<string, DifferenceCell> = {};
+      let difference = 0;
+      let reflexBase = 0;
+
+      seriesList.forEach(series => {
+        if (!inPeriod(series, row.date)) return;
+        const due = dueAmount(series, row);
+        if (due === null) return;
+
+        // Mais de uma série para a mesma coluna somam os valores devidos
+        const cell = cells[series.column] ?? {
+          paid: roundMoney((row[series.column] as number | undefined) ?? 0),
+          due: 0,
+          difference: 0
+        };
+        const seriesDifference = due - (cells[series.column] ? 0 : cell.paid);
+        cell.due = roundMoney(cell.due + due);
+        cell.difference = roundMoney(cell.due - cell.paid);
+        cells[series.column] = cell;
+
+        difference += seriesDifference;
+        if (series.reflexes) reflexBase += seriesDifference;
+      });
+
+      const reflex13 = roundMoney(reflexBase / 12);
+      const reflexVacation = roundMoney(reflexBase / 12 / 3);
+      return {
+        date: row.date,
+        cells,
+        difference: roundMoney(difference),
+        reflex13,
+        reflexVacation,
+        total: roundMoney(difference + reflex13 + reflexVacation),
+        prescribed: isMarkedPrescribed(row, consolidated)
+      };
+    })
+    .filter(row => Object.keys(row.cells).length > 0);
+
+  const sumOf = (field: 'difference' | 'reflex13' | 'reflexVacation' | 'total') =>
+    roundMoney(rows.reduce((sum, row) => sum + row[field], 0));
+
+  return {
+    columns,
+    prescriptionLimit: markedPrescriptionLimit(consolidated),
+    rows,
+    totals: {
+      difference: sumOf('difference'),
+      reflex13: sumOf('reflex13'),
+      reflexVacation: sumOf('reflexVacation'),
+      total: sumOf('total')
+    }
+  };
+}
+
+// Planilha das diferenças: pago, devido e diferença de cada coluna, seguidos dos reflexos e do total da competência.
+// Com os meses prescritos marcados, a coluna PRESCRIÇÃO vem logo após a data, como na tabela consolidada
+export function buildDifferencesSheet(differences: PayrollDifferences): ExportSheet {
+  const limit = differences.prescriptionLimit;
+  const headers = [
+    'DATA',
+    ...(limit ? [prescriptionHeader(limit)] : []),
+    ...differences.columns.flatMap(column => [`${column} PAGO`, `${column} DEVIDO`, `${column} DIFERENÇA`]),
+    'DIFERENÇA',
+    'REFLEXO 13º',
+    'REFLEXO 1/3 FÉRIAS',
+    'TOTAL'
+  ];
+
+  const rows = differences.rows.map(row => [
+    row.date,
+    ...(limit ? [prescriptionMark(row.prescribed)] : []),
+    ...differences.columns.flatMap(column => {
+      const cell = row.cells[column];
+      return cell ? [cell.paid, cell.due, cell.difference] : [null, null, null];
+    }),
+    row.difference,
+    row.reflex13,
+    row.reflexVacation,
+    row.total
+  ]);
+
+  const totals = [
+    'TOTAL',
+    ...(limit ? [null] : []),
+    ...differences.columns.flatMap(() => [null, null, null]),
+    differences.totals.difference,
+    differences.totals.reflex13,
+    differences.totals.reflexVacation,
+    differences.totals.total
+  ];
+
+  return { name: 'DIFERENÇAS', rows: [headers, ...rows, totals] };
+}
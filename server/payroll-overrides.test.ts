@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import type { PayrollData, PayrollOverride } from "@shared/schema";
+import { applyOverrides, getActiveOverrides, getPayrollItemStates } from "./payroll-overrides";
+
+const row = (id: number, payrollType: string, value: number): PayrollData => ({
+  id,
+  userId: 1,
+  date: "12/2020",
+  competence: "2020-12-01",
+  payrollType,
+  source: "ERP",
+  codeData: [{ code: "0001", description: "VENCIMENTO", value }],
+  sourcePages: null,
+  printedTotals: null,
+  fileHash: null,
+  pageFingerprints: null,
+  documentId: null,
+});
+
+let nextOverrideId = 1;
+const override = (fields: Partial<PayrollOverride>): PayrollOverride => ({
+  id: nextOverrideId++,
+  userId: 1,
+  date: "12/2020",
+  payrollType: "NORMAL",
+  code: "0001",
+  description: null,
+  action: "edit",
+  originalValue: null,
+  value: null,
+  changedBy: "ana",
+  changedAt: new Date(),
+  ...fields,
+});
+
+const data = [row(1, "NORMAL", 1000), row(2, "DECIMO_TERCEIRO", 1000)];
+
+describe("getActiveOverrides", () => {
+  it("keeps the latest correction per item and drops the reverted ones", () => {
+    const first = override({ action: "edit", value: 1100 });
+    const second = override({ action: "edit", value: 1200 });
+    const reverted = override({ payrollType: "DECIMO_TERCEIRO", action: "delete" });
+    const revert = override({ payrollType: "DECIMO_TERCEIRO", action: "revert" });
+
+    const active = getActiveOverrides([second, revert, first, reverted]);
+
+    expect(Array.from(active.values())).toEqual([second]);
+  });
+});
+
+describe("applyOverrides", () => {
+  it("edits the item only in the payroll type of the override", () => {
+    const effective = applyOverrides(data, [override({ action: "edit", originalValue: 1000, value: 1200 })]);
+
+    expect(effective.map(payslip => [payslip.payrollType, payslip.codeData[0].value])).toEqual([
+      ["NORMAL", 1200],
+      ["DECIMO_TERCEIRO", 1000],
+    ]);
+  });
+
+  it("deletes the item only in the payroll type of the override", () => {
+    const effective = applyOverrides(data, [override({ payrollType: "DECIMO_TERCEIRO", action: "delete" })]);
+
+    expect(effective.find(payslip => payslip.payrollType === "NORMAL")!.codeData).toHaveLength(1);
+    expect(effective.find(payslip => payslip.payrollType === "DECIMO_TERCEIRO")!.codeData).toEqual([]);
+  });
+
+  it("adds manual items to the payroll type of the override", () => {
+    const effective = applyOverrides(data, [override({ payrollType: "FERIAS", code: "0900", action: "add", value: 300 })]);
+
+    const manual = effective.find(payslip => payslip.source === "MANUAL")!;
+    expect(manual).toMatchObject({ payrollType: "FERIAS", date: "12/2020" });
+    expect(manual.codeData[0]).toMatchObject({ code: "0900", value: 300 });
+  });
+
+  it("restores the extracted value after a revert", () => {
+    const effective = applyOverrides(data, [
+      override({ action: "edit", originalValue: 1000, value: 1200 }),
+      override({ action: "revert", originalValue: 1200, value: 1000 }),
+    ]);
+
+    expect(effective.map(payslip => payslip.codeData[0].value)).toEqual([1000, 1000]);
+  });
+
+  it("replaces the code total once and clears the OCR confidence of the corrected item", () => {
+    const payslip = row(1, "NORMAL", 600);
+    payslip.codeData = [
+      { code: "0001", description: "VENCIMENTO", value: 600, category: "PROVENTOS", confidence: 70 },
+      { code: "0001", description: "VENCIMENTO", value: 400, category: "PROVENTOS", confidence: 80 },
+    ];
+
+    const [effective] = applyOverrides([payslip], [
+      override({ action: "edit", description: "VENCIMENTO BASE", originalValue: 1000, value: 1100 }),
+    ]);
+
+    expect(effective.codeData).toEqual([
+      { code: "0001", description: "VENCIMENTO BASE", value: 1100, category: "PROVENTOS", confidence: undefined },
+    ]);
+  });
+});
+
+describe("getPayrollItemStates", () => {
+  it("lists the same code once per payroll type, normal payroll first", () => {
+    const states = getPayrollItemStates(data, [
+      override({ payrollType: "DECIMO_TERCEIRO", action: "edit", originalValue: 1000, value: 900 }),
+    ], "12/2020");
+
+    expect(states.map(state => [state.payrollType, state.code, state.extractedValue, state.value])).toEqual([
+      ["NORMAL", "0001", 1000, 1000],
+      ["DECIMO_TERCEIRO", "0001", 1000, 900],
+    ]);
+    expect(states[0].override).toBeUndefined();
+  });
+
+  it("keeps the extracted value next to manual additions and deletions", () => {
+    const states = getPayrollItemStates(data, [
+      override({ action: "delete", originalValue: 1000 }),
+      override({ code: "0900", description: "ABONO", action: "add", value: 300 }),
+    ], "12/2020");
+
+    expect(states.map(state => [state.payrollType, state.code, state.description, state.extractedValue, state.value])).toEqual([
+      ["NORMAL", "0001", "VENCIMENTO", 1000, null],
+      ["NORMAL", "0900", "ABONO", null, 300],
+      ["DECIMO_TERCEIRO", "0001", "VENCIMENTO", 1000, 1000],
+    ]);
+    expect(states[0].override).toMatchObject({ action: "delete", originalValue: 1000, changedBy: "ana" });
+  });
+
+  it("ignores corrections of other months", () => {
+    const states = getPayrollItemStates(data, [override({ date: "11/2020", action: "edit", value: 1 })], "12/2020");
+
+    expect(states.every(state => state.override === undefined && state.value === 1000)).toBe(true);
+  });
+});
@@ -0,0 +1,161 @@
+import { ExtractedPayrollItem, PayrollData, PayrollItemState, PayrollOverride, PayrollType } from '@shared/schema';
+import { sortByCompetence, toCompetenceDate } from './competence';
+import { roundMoney } from './money';
+import { getCodeCategory, payrollTypeLabels } from './payroll-definitions';
+import { storage } from './storage';
+
+// Chave que identifica um item de uma folha da competência: a mesma verba pode constar da folha normal e da de 13º
+function overrideKey(date: string, payrollType: string, code: string): string {
+  return `${date}|${payrollType}|${code}`;
+}
+
+// Retorna a correção vigente por competência/folha/código (a mais recente, desconsiderando reversões)
+export function getActiveOverrides(overrides: PayrollOverride[]): Map<string, PayrollOverride> {
+  const latest = new Map<string, PayrollOverride>();
+
+  overrides
+    .slice()
+    .sort((a, b) => a.id - b.id)
+    .forEach(override => {
+      latest.set(overrideKey(override.date, override.payrollType, override.code), override);
+    });
+
+  const active = new Map<string, PayrollOverride>();
+  latest.forEach((override, key) => {
+    if (override.action !== 'revert') {
+      active.set(key, override);
+    }
+  });
+  return active;
+}
+
+// Aplica as correções manuais sobre os dados extraídos, gerando os dados efetivos
+export function applyOverrides(data: PayrollData[], overrides: PayrollOverride[]): PayrollData[] {
+  const active = getActiveOverrides(overrides);
+  const handled = new Set<string>();
+
+  const result = data.map(row => {
+    const effectiveItems: ExtractedPayrollItem[] = [];
+
+    row.codeData.forEach(stored => {
+      // Registros anteriores à classificação na extração recebem a categoria das verbas pré-definidas
+      const item = { ...stored, category: stored.category ?? getCodeCategory(stored.code) };
+      const key = overrideKey(row.date, row.payrollType, item.code);
+      const override = active.get(key);
+
+      if (!override) {
+        effectiveItems.push(item);
+        return;
+      }
+
+      // O valor corrigido substitui o total do código na competência, então só entra uma vez
+      if (override.action === 'delete' || handled.has(key)) {
+        return;
+      }
+
+      handled.add(key);
+      // O valor corrigido foi conferido pelo usuário, então deixa de ser sinalizado como leitura de OCR
+      effectiveItems.push({
+        ...item,
+        description: override.description || item.description,
+        value: override.value ?? 0,
+        confidence: undefined
+      });
+    });
+
+    return { ...row, codeData: effectiveItems };
+  });
+
+  // Itens adicionados manualmente (sem correspondente nos PDFs) viram registros próprios
+  active.forEach((override, key) => {
+    if (handled.has(key) || override.action === 'delete') return;
+
+    result.push({
+      id: -override.id,
+      userId: override.userId,
+      date: override.date,
+      competence: toCompetenceDate(override.date),
+      payrollType: override.payrollType,
+      source: 'MANUAL',
+      codeData: [{
+        code: override.code,
+        description: override.description || override.code,
+        value: override.value ?? 0,
+        category: getCodeCategory(override.code)
+      }],
+      sourcePages: null,
+      printedTotals: null,
+      fileHash: null,
+      pageFingerprints: null,
+      documentId: null
+    });
+  });
+
+  // Os itens adicionados manualmente entram na posição cronológica da competência
+  return sortByCompetence(result);
+}
+
+// Carrega os dados do usuário já com as correções manuais aplicadas
+export async function getEffectivePayrollData(userId: number): Promise<PayrollData[]> {
+  const [data, overrides] = await Promise.all([
+    storage.getPayrollDataByUserId(userId),
+    storage.getPayrollOverridesByUserId(userId)
+  ]);
+  return applyOverrides(data, overrides);
+}
+
+// Lista os itens de uma competência por folha e código, com valor extraído, valor efetivo e correção vigente
+export function getPayrollItemStates(
+  data: PayrollData[],
+  overrides: PayrollOverride[],
+  date: string
+): PayrollItemState[] {
+  const active = getActiveOverrides(overrides);
+  const states = new Map<string, PayrollItemState>();
+
+  data
+    .filter(row => row.date === date)
+    .forEach(row => {
+      row.codeData.forEach(item => {
+        const key = overrideKey(row.date, row.payrollType, item.code);
+        const state = states.get(key);
+        if (state) {
+          state.extractedValue = roundMoney((state.extractedValue ?? 0) + item.value);
+        } else {
+          states.set(key, {
+            payrollType: row.payrollType as PayrollType,
+            code: item.code,
+            description: item.description,
+            extractedValue: item.value,
+            value: item.value
+          });
+        }
+      });
+    });
+
+  states.forEach(state => {
+    state.value = state.extractedValue;
+  });
+
+  active.forEach((override, key) => {
+    if (override.date !== date) return;
+
+    const state = states.get(key) || {
+      payrollType: override.payrollType as PayrollType,
+      code: override.code,
+      description: override.description || override.code,
+      extractedValue: null,
+      value: null
+    };
+    state.override = override;
+    state.description = override.description || state.description;
+    state.value = override.action === 'delete' ? null : override.value;
+    states.set(key, state);
+  });
+
+  // Folha normal primeiro, seguida das demais folhas da competência
+  const typeOrder = Object.keys(payrollTypeLabels);
+  return Array.from(states.values()).sort((a, b) =>
+    typeOrder.indexOf(a.payrollType) - typeOrder.indexOf(b.payrollType) || a.code.localeCompare(b.code)
+  );
+}
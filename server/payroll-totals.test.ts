@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import type { ExtractedPayrollItem, PayrollData, PrintedTotals } from "@shared/schema";
+import { buildReconciliationReport, computeMonthlyTotals } from "./payroll-totals";
+
+const payslip = (
+  date: string,
+  codeData: ExtractedPayrollItem[],
+  printedTotals: PrintedTotals | null = null,
+  payrollType = "NORMAL"
+): PayrollData => ({
+  id: 1,
+  userId: 1,
+  date,
+  competence: null,
+  payrollType,
+  source: "ERP",
+  codeData,
+  sourcePages: null,
+  printedTotals,
+  fileHash: null,
+  pageFingerprints: null,
+  documentId: null,
+});
+
+const item = (code: string, value: number, category: ExtractedPayrollItem["category"]): ExtractedPayrollItem => ({
+  code,
+  description: code,
+  value,
+  category,
+});
+
+describe("computeMonthlyTotals", () => {
+  it("sums proventos and descontos by category, leaving other items out of the net pay", () => {
+    const [totals] = computeMonthlyTotals([
+      payslip("01/2020", [
+        item("0002", 1500.1, "PROVENTOS"),
+        item("0003", 200.2, "PROVENTOS"),
+        item("0500", 165.01, "DESCONTOS"),
+        item("0900", 99, "OUTROS"),
+      ]),
+    ]);
+
+    expect(totals).toMatchObject({ date: "01/2020", proventos: 1700.3, descontos: 165.01, net: 1535.29 });
+  });
+
+  it("uses the absolute value of descontos stored with a negative sign", () => {
+    const [totals] = computeMonthlyTotals([
+      payslip("01/2020", [item("0002", 1500, "PROVENTOS"), item("0500", -165, "DESCONTOS")]),
+    ]);
+
+    expect(totals).toMatchObject({ proventos: 1500, descontos: 165, net: 1335 });
+  });
+
+  it("adds the payslips of a month and keeps each payroll type apart when asked to, in competence order", () => {
+    const data = [
+      payslip("12/2020", [item("0002", 1000, "PROVENTOS")], null, "DECIMO_TERCEIRO"),
+      payslip("12/2020", [item("0002", 2000, "PROVENTOS"), item("0500", 200, "DESCONTOS")]),
+      payslip("01/2020", [item("0002", 1500, "PROVENTOS")]),
+    ];
+
+    expect(computeMonthlyTotals(data).map(totals => [totals.date, totals.net])).toEqual([
+      ["01/2020", 1500],
+      ["12/2020", 2800],
+    ]);
+    expect(computeMonthlyTotals(data, true).map(totals => [totals.date, totals.payrollType, totals.net])).toEqual([
+      ["01/2020", "NORMAL", 1500],
+      ["12/2020", "DECIMO_TERCEIRO", 1000],
+      ["12/2020", "NORMAL", 1800],
+    ]);
+  });
+
+  it("flags a net pay that differs from the printed one beyond a cent", () => {
+    const codeData = [item("0002", 1500, "PROVENTOS"), item("0500", 165, "DESCONTOS")];
+
+    const [matching, rounded, mismatching] = computeMonthlyTotals([
+      payslip("01/2020", codeData, { net: 1335 }),
+      payslip("02/2020", codeData, { net: 1335.01 }),
+      payslip("03/2020", codeData, { net: 1300 }),
+    ]);
+
+    expect([matching.netMismatch, rounded.netMismatch, mismatching.netMismatch]).toEqual([false, false, true]);
+    expect(mismatching.printed).toEqual({ net: 1300 });
+  });
+});
+
+describe("buildReconciliationReport", () => {
+  const codeData = [item("0002", 1500, "PROVENTOS"), item("0500", 165, "DESCONTOS")];
+
+  it("compares each printed total with the sum of the extracted items and flags months with missing items", () => {
+    const report = buildReconciliationReport(computeMonthlyTotals([
+      payslip("01/2020", codeData, { proventos: 1500, descontos: 165, net: 1335 }),
+      payslip("02/2020", codeData, { proventos: 1700, net: 1535 }),
+      payslip("03/2020", codeData),
+    ]));
+
+    expect(report).toEqual([
+      {
+        date: "01/2020",
+        payrollType: undefined,
+        totals: [
+          { total: "proventos", extracted: 1500, printed: 1500, difference: 0 },
+          { total: "descontos", extracted: 165, printed: 165, difference: 0 },
+          { total: "net", extracted: 1335, printed: 1335, difference: 0 },
+        ],
+        missingItems: false,
+      },
+      {
+        date: "02/2020",
+        payrollType: undefined,
+        totals: [
+          { total: "proventos", extracted: 1500, printed: 1700, difference: 200 },
+          { total: "net", extracted: 1335, printed: 1535, difference: 200 },
+        ],
+        missingItems: true,
+      },
+    ]);
+  });
+
+  it("only reconciles the payslips of the month that print each total", () => {
+    const [totals] = computeMonthlyTotals([
+      payslip("12/2020", codeData, { net: 1335 }),
+      payslip("12/2020", [item("0002", 1000, "PROVENTOS")], null, "DECIMO_TERCEIRO"),
+    ]);
+
+    expect(totals).toMatchObject({ net: 2335, printed: { net: 1335 }, missingItems: false });
+    expect(totals.reconciliation).toEqual([{ total: "net", extracted: 1335, printed: 1335, difference: 0 }]);
+  });
+});
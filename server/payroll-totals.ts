@@ -0,0 +1,116 @@
+import {
+  MonthlyReconciliation,
+  MonthlyTotals,
+  PayrollData,
+  PayrollType,
+  PrintedTotals,
+  TotalReconciliation
+} from '@shared/schema';
+import { sortByCompetence } from './competence';
+import { roundMoney } from './money';
+
+// Diferença tolerada entre os totais calculados e os impressos (arredondamentos de centavos)
+const TOTAL_TOLERANCE = 0.01;
+
+const PRINTED_TOTALS: (keyof PrintedTotals)[] = ['proventos', 'descontos', 'net'];
+
+// Soma proventos e descontos de um contracheque gravado e confere com os totais impressos nele
+function reconcileRow(row: PayrollData): { proventos: number; descontos: number; printed: PrintedTotals; lines: TotalReconciliation[] } {
+  let proventos = 0;
+  let descontos = 0;
+
+  row.codeData.forEach(item => {
+    // Os valores podem estar gravados com sinal (convenção negative-descontos); a categoria define o lado
+    if (item.category === 'PROVENTOS') {
+      proventos = roundMoney(proventos + Math.abs(item.value));
+    } else if (item.category === 'DESCONTOS') {
+      descontos = roundMoney(descontos + Math.abs(item.value));
+    }
+  });
+
+  const extracted: Record<keyof PrintedTotals, number> = { proventos, descontos, net: roundMoney(proventos - descontos) };
+  const printed: PrintedTotals = row.printedTotals ?? {};
+
+  return {
+    proventos,
+    descontos,
+    printed,
+    lines: PRINTED_TOTALS
+      .filter(total => printed[total] !== undefined)
+      .map(total => ({
+        total,
+        extracted: extracted[total],
+        printed: printed[total]!,
+        difference: roundMoney(printed[total]! - extracted[total])
+      }))
+  };
+}
+
+// Acumula a conferência de mais um contracheque do período, total a total
+function addReconciliation(target: TotalReconciliation[], lines: TotalReconciliation[]): void {
+  lines.forEach(line => {
+    const existing = target.find(targetLine => targetLine.total === line.total);
+    if (!existing) {
+      target.push({ ...line });
+      return;
+    }
+    existing.extracted = roundMoney(existing.extracted + line.extracted);
+    existing.printed = roundMoney(existing.printed + line.printed);
+    existing.difference = roundMoney(existing.difference + line.difference);
+  });
+}
+
+// Calcula proventos, descontos e líquido de cada competência e confere com os totais impressos nos contracheques.
+// A conferência é feita contracheque a contracheque, para que uma folha sem total impresso não acuse
+// divergência na competência. Com separateTypes, cada tipo de folha da competência tem seus próprios totais
+export function computeMonthlyTotals(data: PayrollData[], separateTypes = false): MonthlyTotals[] {
+  const totalsByPeriod = new Map<string, MonthlyTotals>();
+
+  data.forEach(row => {
+    const key = separateTypes ? `${row.date}|${row.payrollType}` : row.date;
+    const totals = totalsByPeriod.get(key) || {
+      date: row.date,
+      ...(separateTypes ? { payrollType: row.payrollType as PayrollType } : {}),
+      proventos: 0,
+      descontos: 0,
+      net: 0,
+      printed: {},
+      reconciliation: [],
+      netMismatch: false,
+      missingItems: false
+    };
+    totalsByPeriod.set(key, totals);
+
+    const rowTotals = reconcileRow(row);
+    totals.proventos = roundMoney(totals.proventos + rowTotals.proventos);
+    totals.descontos = roundMoney(totals.descontos + rowTotals.descontos);
+    totals.net = roundMoney(totals.proventos - totals.descontos);
+    PRINTED_TOTALS.forEach(total => {
+      if (rowTotals.printed[total] !== undefined) {
+        totals.printed[total] = roundMoney((totals.printed[total] ?? 0) + rowTotals.printed[total]!);
+      }
+    });
+    addReconciliation(totals.reconciliation, rowTotals.lines);
+  });
+
+  return sortByCompetence(Array.from(totalsByPeriod.values())).map(totals => {
+    const differences = totals.reconciliation.filter(line => Math.abs(line.difference) > TOTAL_TOLERANCE);
+    return {
+      ...totals,
+      netMismatch: differences.some(line => line.total === 'net'),
+      missingItems: differences.length > 0
+    };
+  });
+}
+
+// Relatório de conferência das competências que têm totais impressos
+export function buildReconciliationReport(monthlyTotals: MonthlyTotals[]): MonthlyReconciliation[] {
+  return monthlyTotals
+    .filter(totals => totals.reconciliation.length > 0)
+    .map(totals => ({
+      date: totals.date,
+      payrollType: totals.payrollType,
+      totals: totals.reconciliation,
+      missingItems: totals.missingItems
+    }));
+}
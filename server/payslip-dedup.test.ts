@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import type { PayrollData, ProcessedPayslip, SourcePage } from "@shared/schema";
+import { fingerprintPages, findDuplicatePayslips, savePayrollRows, selectPayrollRows } from "./payslip-dedup";
+import { toPayrollDataRows } from "./payslip-processor";
+
+const pages = (fileName: string, ...texts: string[]): SourcePage[] =>
+  texts.map((text, index) => ({ fileName, pageNumber: index + 1, text }));
+
+const storedRow = (id: number, date: string, sourcePages: SourcePage[]): PayrollData => ({
+  id,
+  userId: 1,
+  date,
+  competence: null,
+  payrollType: "NORMAL",
+  source: "ERP",
+  codeData: [],
+  sourcePages,
+  printedTotals: null,
+  fileHash: "hash-" + id,
+  pageFingerprints: fingerprintPages(sourcePages),
+  documentId: null,
+});
+
+const payslip = (date: string, sourcePages: SourcePage[]): ProcessedPayslip => ({
+  date,
+  payrollType: "NORMAL",
+  items: [{ code: "0001", description: "VENCIMENTO", value: 100 }],
+  source: "ERP",
+  pages: sourcePages,
+});
+
+describe("findDuplicatePayslips", () => {
+  const existing = [
+    storedRow(1, "02/2020", pages("fev.pdf", "CONTRACHEQUE FEVEREIRO 2020")),
+    storedRow(2, "01/2020", pages("jan.pdf", "CONTRACHEQUE JANEIRO 2020")),
+  ];
+
+  it("reports payslips whose pages were imported from another file, per uploaded file", () => {
+    const duplicates = findDuplicatePayslips(existing, [
+      payslip("01/2020", pages("lote.pdf", "CONTRACHEQUE  JANEIRO\n2020")),
+      payslip("02/2020", pages("lote.pdf", "CONTRACHEQUE FEVEREIRO 2020")),
+      payslip("03/2020", pages("lote.pdf", "CONTRACHEQUE MARÇO 2020")),
+    ]);
+
+    expect(duplicates).toEqual([{ fileName: "lote.pdf", dates: ["01/2020", "02/2020"] }]);
+  });
+
+  it("returns nothing when every page is new", () => {
+    expect(findDuplicatePayslips(existing, [payslip("03/2020", pages("mar.pdf", "CONTRACHEQUE MARÇO 2020"))])).toEqual([]);
+  });
+});
+
+describe("selectPayrollRows", () => {
+  const userId = 77;
+  const january = payslip("01/2020", pages("jan.pdf", "CONTRACHEQUE JANEIRO 2020"));
+  const february = payslip("02/2020", pages("fev.pdf", "CONTRACHEQUE FEVEREIRO 2020"));
+
+  it("skips payslips already imported, including pages repeated in the same upload", async () => {
+    const [stored] = (await savePayrollRows(await selectPayrollRows(userId, toPayrollDataRows(userId, [january]), "skip"))).saved;
+
+    const selection = await selectPayrollRows(userId, toPayrollDataRows(userId, [january, february, february]), "skip");
+
+    expect(selection.rows.map(selected => selected.date)).toEqual(["02/2020"]);
+    expect(selection).toMatchObject({ replacedIds: [], skipped: 2 });
+
+    const replacing = await selectPayrollRows(userId, toPayrollDataRows(userId, [january]), "replace");
+    expect(replacing).toMatchObject({ replacedIds: [stored.id], skipped: 0 });
+  });
+});
@@ -0,0 +1,105 @@
+import { createHash } from 'crypto';
+import { DuplicateFile, DuplicateMode, InsertPayrollData, PayrollData, ProcessedPayslip, SourcePage } from '@shared/schema';
+import type { UploadedPayslipFile } from './payslip-processor';
+import { storage } from './storage';
+import { sortCompetences } from './competence';
+
+export const DUPLICATE_MODES: DuplicateMode[] = ['ask', 'skip', 'replace'];
+
+// Resultado da gravação de um envio após o tratamento dos contracheques já importados
+export interface SavedPayrollRows {
+  saved: PayrollData[];
+  skipped: number;
+  replaced: number;
+}
+
+// SHA-256 em hexadecimal do conteúdo informado
+export function hashContent(content: Buffer | string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+// Impressões digitais do texto das páginas. Os espaços são normalizados para que a mesma página
+// gere o mesmo valor mesmo quando vem de outro PDF (ex.: o mesmo contracheque dentro de um ZIP);
+// páginas sem texto são ignoradas para não se confundirem entre si
+export function fingerprintPages(pages: SourcePage[]): string[] {
+  return pages
+    .map(page => page.text.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .map(text => hashContent(text));
+}
+
+// Arquivos do envio cujo conteúdo já foi importado, com as competências gravadas a partir deles
+export function findDuplicateFiles(existing: PayrollData[], files: UploadedPayslipFile[]): DuplicateFile[] {
+  return files
+    .map(file => {
+      const fileHash = hashContent(file.buffer);
+      const dates = existing.filter(row => row.fileHash === fileHash).map(row => row.date);
+      return { fileName: file.fileName, dates: sortCompetences(Array.from(new Set(dates))) };
+    })
+    .filter(file => file.dates.length > 0);
+}
+
+// Arquivos do envio com contracheques cujas páginas já originaram registros gravados a partir de outro arquivo
+// (ex.: o mesmo contracheque exportado de novo ou dentro de um ZIP), com as competências desses registros
+export function findDuplicatePayslips(existing: PayrollData[], payslips: ProcessedPayslip[]): DuplicateFile[] {
+  const entries = existing.map(row => ({ row, fingerprints: new Set(row.pageFingerprints ?? []) }));
+  const datesByFile = new Map<string, Set<string>>();
+
+  payslips.forEach(payslip => {
+    const fingerprints = fingerprintPages(payslip.pages || []);
+    const fileName = payslip.pages?.[0]?.fileName ?? '';
+    entries
+      .filter(entry => fingerprints.some(fingerprint => entry.fingerprints.has(fingerprint)))
+      .forEach(entry => {
+        const dates = datesByFile.get(fileName) || new Set<string>();
+        dates.add(entry.row.date);
+        datesByFile.set(fileName, dates);
+      });
+  });
+
+  return Array.from(datesByFile, ([fileName, dates]) => ({ fileName, dates: sortCompetences(Array.from(dates)) }));
+}
+
+// Registros de um envio que serão gravados, após o tratamento dos contracheques já importados
+export interface PayrollRowsSelection {
+  rows: InsertPayrollData[];
+  replacedIds: number[]; // Registros anteriores que os novos substituem
+  skipped: number;
+}
+
+// Seleciona os registros de um envio sem duplicar contracheques já importados. Um registro é duplicado quando
+// alguma de suas páginas já originou outro registro (gravado antes ou no mesmo envio). Com "replace" os
+// registros anteriores são substituídos; nos demais modos os reenviados são ignorados
+export async function selectPayrollRows(userId: number, rows: InsertPayrollData[], mode: DuplicateMode): Promise<PayrollRowsSelection> {
+  const existing = (await storage.getPayrollDataByUserId(userId))
+    .map(row => ({ row, fingerprints: new Set(row.pageFingerprints ?? []) }));
+  const seen = new Set<string>();
+  const replacedIds = new Set<number>();
+  const selected: InsertPayrollData[] = [];
+
+  rows.forEach(row => {
+    const fingerprints = row.pageFingerprints ?? [];
+
+    // Páginas repetidas no próprio envio são sempre ignoradas
+    if (fingerprints.some(fingerprint => seen.has(fingerprint))) return;
+    fingerprints.forEach(fingerprint => seen.add(fingerprint));
+
+    const duplicates = existing.filter(entry => fingerprints.some(fingerprint => entry.fingerprints.has(fingerprint)));
+    if (duplicates.length > 0 && mode !== 'replace') return;
+
+    duplicates.forEach(entry => replacedIds.add(entry.row.id));
+    selected.push(row);
+  });
+
+  return { rows: selected, replacedIds: Array.from(replacedIds), skipped: rows.length - selected.length };
+}
+
+// Grava os registros selecionados e exclui, na mesma operação, os registros anteriores que eles substituem
+export async function savePayrollRows(selection: PayrollRowsSelection): Promise<SavedPayrollRows> {
+  if (selection.replacedIds.length > 0) {
+    console.log(`Substituindo ${selection.replacedIds.length} registros já importados`);
+  }
+  const saved = await storage.replacePayrollData(selection.replacedIds, selection.rows);
+
+  return { saved, skipped: selection.skipped, replaced: selection.replacedIds.length };
+}
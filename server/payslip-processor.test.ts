@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { zipSync } from "fflate";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import type { BatchFileSummary } from "@shared/schema";
+import { layoutProfiles } from "./layout-profiles";
+import { expandUploadedFiles, processPayslipBatch } from "./payslip-processor";
+
+// PDF com camada de texto: uma página por contracheque, uma linha de texto por item
+async function payslipPdf(pages: string[][]): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  pages.forEach(lines => {
+    const page = pdf.addPage([595, 842]);
+    lines.forEach((line, index) => page.drawText(line, { x: 40, y: 800 - index * 20, size: 10, font }));
+  });
+  return Buffer.from(await pdf.save());
+}
+
+describe("expandUploadedFiles", () => {
+  it("replaces each ZIP archive by the PDFs inside it, in name order", () => {
+    const archive = Buffer.from(zipSync({
+      "2021/fev.pdf": Buffer.from("%PDF fev"),
+      "2021/jan.PDF": Buffer.from("%PDF jan"),
+      "leia-me.txt": Buffer.from("texto"),
+      "__MACOSX/2021/._jan.pdf": Buffer.from("metadados"),
+    }));
+    const single = { fileName: "mar.pdf", buffer: Buffer.from("%PDF mar") };
+
+    const expanded = expandUploadedFiles([{ fileName: "historico.zip", buffer: archive }, single]);
+
+    expect(expanded.map(file => file.fileName)).toEqual(["historico.zip/2021/fev.pdf", "historico.zip/2021/jan.PDF", "mar.pdf"]);
+    expect(expanded[1].buffer.toString()).toBe("%PDF jan");
+    expect(expanded[2]).toBe(single);
+  });
+});
+
+describe("processPayslipBatch", () => {
+  it("summarizes every file and records the failures without stopping the batch", async () => {
+    const files = [
+      {
+        fileName: "2020.pdf",
+        buffer: await payslipPdf([
+          ["Competência: 02/2020", "0002 VENCIMENTO 1.500,00"],
+          ["Competência: 01/2020", "0002 VENCIMENTO 1.400,00", "0003 GRATIFICACAO 200,00"],
+        ]),
+      },
+      { fileName: "corrompido.pdf", buffer: Buffer.from("não é um PDF") },
+      { fileName: "sem-itens.pdf", buffer: await payslipPdf([["Competência: 03/2020", "0009 OUTRA VERBA 10,00"]]) },
+    ];
+    const reported: BatchFileSummary[] = [];
+
+    const processed = await processPayslipBatch(files, ["0002", "0003"], layoutProfiles.get("ERP")!, {
+      onFileProcessed: summary => reported.push(summary),
+    });
+
+    expect(processed.map(file => file.summary)).toEqual(reported);
+    expect(reported[0]).toMatchObject({ fileName: "2020.pdf", dates: ["01/2020", "02/2020"], itemsExtracted: 3 });
+    expect(reported[0].error).toBeUndefined();
+    expect(reported[1]).toMatchObject({ fileName: "corrompido.pdf", dates: [], itemsExtracted: 0 });
+    expect(reported[1].error).toEqual(expect.any(String));
+    expect(reported[2]).toMatchObject({ fileName: "sem-itens.pdf", dates: [], itemsExtracted: 0 });
+
+    const [first] = processed[0].results;
+    expect(first.fileHash).toEqual(expect.any(String));
+    expect(first.items[0].sources![0].fileName).toBe("2020.pdf");
+  });
+});
@@ -0,0 +1,175 @@
+import { unzipSync } from 'fflate';
+import { ProcessedPayslip, BatchFileSummary, ExtractionResult, InsertPayrollData } from '@shared/schema';
+import { extractTextFromPDF, processPages, ExtractionOptions } from './pdf-extractor';
+import { LayoutProfile, layoutProfiles } from './layout-profiles';
+import { scoreLayouts } from './layout-detection';
+import { fingerprintPages, hashContent } from './payslip-dedup';
+import { sortCompetences, toCompetenceDate } from './competence';
+
+// Arquivo recebido no upload, já separado de eventuais arquivos ZIP
+export interface UploadedPayslipFile {
+  fileName: string;
+  buffer: Buffer;
+}
+
+// Resultado do processamento de um arquivo do lote
+export interface ProcessedPayslipFile {
+  summary: BatchFileSummary;
+  results: ProcessedPayslip[];
+}
+
+// Callbacks de acompanhamento do processamento em lote
+export interface BatchOptions {
+  signal?: AbortSignal;
+  onPageExtracted?: (fileName: string, pageNumber: number, totalPages: number) => void;
+  onFileProcessed?: (summary: BatchFileSummary) => void;
+}
+
+// Verifica se o buffer é um arquivo ZIP pela assinatura "PK\x03\x04"
+function isZipBuffer(buffer: Buffer): boolean {
+  return buffer.length >= 4 &&
+    buffer[0] === 0x50 && buffer[1] === 0x4b && buffer[2] === 0x03 && buffer[3] === 0x04;
+}
+
+// Expande os arquivos ZIP recebidos, mantendo apenas os PDFs contidos neles
+export function expandUploadedFiles(files: UploadedPayslipFile[]): UploadedPayslipFile[] {
+  const expanded: UploadedPayslipFile[] = [];
+
+  for (const file of files) {
+    if (!isZipBuffer(file.buffer)) {
+      expanded.push(file);
+      continue;
+    }
+
+    const entries = unzipSync(new Uint8Array(file.buffer), {
+      filter: (entry) => entry.name.toLowerCase().endsWith('.pdf') && !entry.name.startsWith('__MACOSX/')
+    });
+
+    Object.keys(entries).sort().forEach(name => {
+      expanded.push({
+        fileName: `${file.fileName}/${name}`,
+        buffer: Buffer.from(entries[name])
+      });
+    });
+  }
+
+  return expanded;
+}
+
+// Executa a extração com o perfil escolhido ou, se nenhum for informado, com o layout detectado.
+// Sem lista de códigos (null), extrai todas as verbas encontradas nas linhas do contracheque
+export async function processPayslipFile(
+  buffer: Buffer,
+  codes: string[] | null,
+  profile: LayoutProfile | null,
+  options: ExtractionOptions = {}
+): Promise<ExtractionResult> {
+  const pages = await extractTextFromPDF(buffer, options);
+
+  // A aderência é calculada mesmo com escolha manual, para indicar quando outro layout parece mais adequado
+  const candidates = scoreLayouts(pages, layoutProfiles.getAll());
+  const selectedProfile = profile ?? layoutProfiles.get(candidates[0].profileId)!;
+  const confidence = candidates.find(candidate => candidate.profileId === selectedProfile.id)?.confidence ?? 0;
+  console.log(`Layout ${selectedProfile.id} ${profile ? 'escolhido' : 'detectado'} com confiança ${confidence}`);
+
+  const result = processPages(pages, codes, selectedProfile);
+  result.diagnostics.layout = {
+    profileId: selectedProfile.id,
+    confidence,
+    automatic: profile === null,
+    candidates
+  };
+  return result;
+}
+
+// Registra o nome do arquivo de origem em cada item e página extraídos e, se informado, o hash do arquivo
+export function withFileName(payslips: ProcessedPayslip[], fileName: string, fileHash?: string): ProcessedPayslip[] {
+  return payslips.map(payslip => ({
+    ...payslip,
+    fileHash,
+    items: payslip.items.map(item => ({
+      ...item,
+      sources: item.sources?.map(source => ({ ...source, fileName }))
+    })),
+    pages: payslip.pages?.map(page => ({ ...page, fileName }))
+  }));
+}
+
+// Converte os contracheques processados nos registros persistidos em payrollData
+export function toPayrollDataRows(userId: number, payslips: ProcessedPayslip[]): InsertPayrollData[] {
+  return payslips
+    .filter(payslip => payslip.date && payslip.items.length > 0)
+    .map(payslip => ({
+      userId,
+      date: payslip.date,
+      competence: toCompetenceDate(payslip.date),
+      payrollType: payslip.payrollType,
+      source: payslip.source,
+      codeData: payslip.items,
+      sourcePages: payslip.pages || [],
+      printedTotals: payslip.printedTotals || {},
+      fileHash: payslip.fileHash ?? null,
+      pageFingerprints: fingerprintPages(payslip.pages || [])
+    }));
+}
+
+// Processa cada arquivo do lote isoladamente, registrando falhas sem interromper os demais
+export async function processPayslipBatch(
+  files: UploadedPayslipFile[],
+  codes: string[],
+  profile: LayoutProfile | null,
+  options: BatchOptions = {}
+): Promise<ProcessedPayslipFile[]> {
+  const processed: ProcessedPayslipFile[] = [];
+
+  for (let index = 0; index < files.length; index++) {
+    const file = files[index];
+    options.signal?.throwIfAborted();
+
+    let processedFile: ProcessedPayslipFile;
+    try {
+      console.log(`Processando arquivo ${index + 1} de ${files.length} do lote`);
+      const { payslips, diagnostics } = await processPayslipFile(file.buffer, codes, profile, {
+        signal: options.signal,
+        onPageExtracted: (pageNumber, totalPages) =>
+          options.onPageExtracted?.(file.fileName, pageNumber, totalPages)
+      });
+      const results = withFileName(
+        payslips.filter(result => result.date && result.items.length > 0),
+        file.fileName,
+        hashContent(file.buffer)
+      );
+
+      processedFile = {
+        summary: {
+          fileName: file.fileName,
+          dates: sortCompetences(results.map(result => result.date)),
+          itemsExtracted: results.reduce((total, result) => total + result.items.length, 0),
+          diagnostics
+        },
+        results
+      };
+    } catch (error) {
+      // Cancelamento interrompe o lote inteiro em vez de ser registrado como falha do arquivo
+      if (options.signal?.aborted) {
+        throw error;
+      }
+
+      console.error(`Erro ao processar arquivo ${index + 1} de ${files.length} do lote:`, error);
+      processedFile = {
+        summary: {
+          fileName: file.fileName,
+          dates: [],
+          itemsExtracted: 0,
+          error: error instanceof Error ? error.message : 'Failed to process PDF'
+        },
+        results: []
+      };
+    }
+
+    processed.push(processedFile);
+    options.onFileProcessed?.(processedFile.summary);
+  }
+
+  return processed;
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { layoutProfiles } from "./layout-profiles";
+import { extractPayrollItems, extractPrintedTotals, extractTextFromPDF, processPages, type PDFPage } from "./pdf-extractor";
+import type { PayslipRow } from "./pdf-layout";
+
+const erp = layoutProfiles.get("ERP")!;
+
+// Página só com o texto corrido: os itens são encontrados pelos padrões de linha do perfil
+const page = (pageNumber: number, lines: string[]): PDFPage => ({
+  text: lines.join(" "),
+  pageNumber,
+  header: lines[0] ?? "",
+  rows: [],
+  lines,
+});
+
+// Linha reconstruída com o valor na coluna de proventos
+const row = (code: string, value: number, confidence?: number): PayslipRow => ({
+  code,
+  description: "VENCIMENTO",
+  proventos: value,
+  lastAmount: value,
+  text: `${code} VENCIMENTO ${value}`,
+  confidence,
+});
+
+describe("processPages", () => {
+  it("returns every payslip and lists the pages skipped for lack of a date or of items", () => {
+    const { payslips, diagnostics } = processPages([
+      page(1, ["Competência: 01/2020", "0002 VENCIMENTO 1.500,00"]),
+      page(2, ["Demonstrativo sem competência", "0002 VENCIMENTO 1.500,00"]),
+      page(3, ["Competência: 02/2020", "0009 OUTRA VERBA 10,00"]),
+      page(4, ["Competência: 03/2020", "0002 VENCIMENTO 1.600,00"]),
+    ], ["0002"], erp);
+
+    expect(payslips.map(payslip => [payslip.date, payslip.items.map(item => item.value)])).toEqual([
+      ["01/2020", [1500]],
+      ["03/2020", [1600]],
+    ]);
+    expect(diagnostics).toEqual({
+      totalPages: 4,
+      pagesWithoutDate: [2],
+      pagesWithoutItems: [{ pageNumber: 3, date: "02/2020" }],
+      ocrPages: [],
+    });
+  });
+});
+
+describe("extractPrintedTotals", () => {
+  it("reads the printed totals of the page with the default patterns", () => {
+    const text = "0002 VENCIMENTO 1.500,00 Total de Vantagens: R$ 1.500,00 Total de Descontos 165,00 Líquido a Receber 1.335,00";
+
+    expect(extractPrintedTotals(text, erp)).toEqual({ proventos: 1500, descontos: 165, net: 1335 });
+  });
+
+  it("leaves out the totals the page does not print", () => {
+    expect(extractPrintedTotals("Total dos Proventos 1.500,00", erp)).toEqual({ proventos: 1500 });
+  });
+});
+
+describe("extractPayrollItems", () => {
+  it("classifies each item by the column its value was printed in, falling back to the predefined codes", () => {
+    const extracted: PDFPage = {
+      ...page(1, ["Competência: 01/2020", "0009 OUTRA VERBA 10,00"]),
+      rows: [row("0002", 1500), { ...row("0500", 165), proventos: undefined, descontos: 165 }],
+    };
+
+    expect(extractPayrollItems(extracted, ["0002", "0500", "0009"], erp).map(item => [item.code, item.value, item.category])).toEqual([
+      ["0002", 1500, "PROVENTOS"],
+      ["0500", 165, "DESCONTOS"],
+      ["0009", 10, "OUTROS"],
+    ]);
+  });
+
+  it("stores descontos as negative values under the negative-descontos convention", () => {
+    const signed = { ...erp, signConvention: "negative-descontos" as const };
+    const extracted: PDFPage = { ...page(1, []), rows: [{ ...row("0500", 165), proventos: undefined, descontos: 165 }] };
+
+    expect(extractPayrollItems(extracted, ["0500"], signed)[0]).toMatchObject({ value: -165, category: "DESCONTOS" });
+  });
+
+  it("extracts every reconstructed row when no codes are given", () => {
+    const extracted: PDFPage = {
+      ...page(1, ["Competência: 01/2020", "0009 OUTRA VERBA 10,00"]),
+      rows: [row("0002", 1500), row("a10", 30), row("0002", 100)],
+    };
+
+    expect(extractPayrollItems(extracted, null, erp).map(item => [item.code, item.value])).toEqual([
+      ["0002", 1600],
+      ["A10", 30],
+    ]);
+  });
+});
+
+describe("OCR confidence", () => {
+  it("keeps the lowest confidence among the rows of an item and falls back to the page confidence", () => {
+    const scanned: PDFPage = {
+      ...page(1, ["Competência: 01/2020"]),
+      rows: [row("0002", 1000, 0.9), row("0002", 500, 0.55), row("0003", 200)],
+      ocrConfidence: 0.8,
+    };
+
+    expect(extractPayrollItems(scanned, ["0002", "0003"], erp).map(item => [item.code, item.value, item.confidence])).toEqual([
+      ["0002", 1500, 0.55],
+      ["0003", 200, 0.8],
+    ]);
+  });
+
+  it("leaves the items of pages with a text layer without confidence", () => {
+    const text: PDFPage = { ...page(1, ["Competência: 01/2020"]), rows: [row("0002", 1000)] };
+
+    expect(extractPayrollItems(text, ["0002"], erp)[0].confidence).toBeUndefined();
+  });
+
+  it("lists the pages read by OCR and marks their source pages", () => {
+    const { payslips, diagnostics } = processPages([
+      page(1, ["Competência: 01/2020", "0002 VENCIMENTO 1.500,00"]),
+      { ...page(2, ["Competência: 02/2020", "0002 VENCIMENTO 1.500,00"]), ocrConfidence: 0.7 },
+    ], ["0002"], erp);
+
+    expect(diagnostics.ocrPages).toEqual([2]);
+    expect(payslips.map(payslip => [payslip.pages![0].ocr, payslip.items[0].confidence])).toEqual([
+      [undefined, undefined],
+      [true, 0.7],
+    ]);
+  });
+
+  it("does not send pages with a text layer or without an image to OCR", async () => {
+    const pdf = await PDFDocument.create();
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+    pdf.addPage([595, 842]).drawText("Competência: 01/2020", { x: 40, y: 800, size: 10, font });
+    pdf.addPage([595, 842]);
+
+    const pages = await extractTextFromPDF(Buffer.from(await pdf.save()));
+
+    expect(pages.map(extracted => [extracted.text, extracted.ocrConfidence])).toEqual([
+      ["Competência: 01/2020", undefined],
+      ["", undefined],
+    ]);
+  });
+});
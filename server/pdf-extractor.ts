@@ -1,18 +1,52 @@
-import { ExtractedPayrollItem, ProcessedPayslip } from '@shared/schema';
+import {
+  ExtractedPayrollItem,
+  ExtractionResult,
+  PageWithoutItems,
+  PayrollCategory,
+  PayrollItemSource,
+  PayrollType,
+  PrintedTotals,
+  ProcessedPayslip,
+  SourcePage
+} from '@shared/schema';
 import pdfjsLib from 'pdfjs-dist/legacy/build/pdf';
 import 'pdfjs-dist/legacy/build/pdf.worker.entry';
-
-// Define os tipos de fontes possíveis do PDF
-export type PDFSource = 'ERP' | 'RH';
+import { LayoutProfile } from './layout-profiles';
+import { buildPageLayout, parseAmount, PayslipRow, PDFTextItem } from './pdf-layout';
+import { OCR_ENABLED, recognizePage } from './ocr';
+import { getCodeCategory } from './payroll-definitions';
+import { roundMoney } from './money';
 
 // Interface representando uma página extraída do PDF
-interface PDFPage {
+export interface PDFPage {
   text: string;
   pageNumber: number;
+  header: string; // Texto acima da tabela de verbas (identificação da folha)
+  rows: PayslipRow[]; // Linhas de verbas reconstruídas a partir das posições do texto
+  lines: string[]; // Texto de cada linha visual da página, de cima para baixo
+  ocrConfidence?: number; // Presente quando o texto foi obtido por OCR
+}
+
+// Opções de extração usadas pelo processamento em segundo plano
+export interface ExtractionOptions {
+  signal?: AbortSignal; // Permite cancelar a extração entre páginas
+  onPageExtracted?: (pageNumber: number, totalPages: number) => void;
 }
 
+// Páginas com menos caracteres que isso são consideradas sem camada de texto (digitalizadas)
+const MIN_TEXT_LENGTH = 20;
+
+// Meses por extenso e abreviados usados nas competências
+const MONTHS: Record<string, string> = {
+  'janeiro': '01', 'fevereiro': '02', 'março': '03', 'abril': '04',
+  'maio': '05', 'junho': '06', 'julho': '07', 'agosto': '08',
+  'setembro': '09', 'outubro': '10', 'novembro': '11', 'dezembro': '12',
+  'jan': '01', 'fev': '02', 'mar': '03', 'abr': '04', 'mai': '05', 'jun': '06',
+  'jul': '07', 'ago': '08', 'set': '09', 'out': '10', 'nov': '11', 'dez': '12'
+};
+
 // Função assíncrona para extrair texto de um PDF
-export async function extractTextFromPDF(pdfBuffer: Buffer): Promise<PDFPage[]> {
+export async function extractTextFromPDF(pdfBuffer: Buffer, options: ExtractionOptions = {}): Promise<PDFPage[]> {
   console.log("Iniciando extração do PDF...");
 
   try {
@@ -22,21 +56,60 @@ export async function extractTextFromPDF(pdfBuffer: Buffer): Promise<PDFPage[]>
 
     // Extrai texto de cada página
     for (let i = 1; i <= pdf.numPages; i++) {
+      // Devolve o controle ao event loop entre páginas para que consultas de andamento e cancelamentos sejam atendidos
+      await new Promise(resolve => setImmediate(resolve));
+      options.signal?.throwIfAborted();
+
       const page = await pdf.getPage(i);
       const textContent = await page.getTextContent();
       // Concatena todo o texto da página
-      const text = textContent.items
+      let text = textContent.items
         .map((item: any) => item.str)
         .join(' ')
         .replace(/\s+/g, ' ')
         .trim();
 
+      // Posição de cada item (transform[4] = x, transform[5] = y) para reconstruir linhas e colunas
+      let positionedItems: PDFTextItem[] = textContent.items
+        .filter((item: any) => typeof item.str === 'string')
+        .map((item: any) => ({
+          str: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width
+        }));
+
+      // Páginas digitalizadas não têm camada de texto: o texto é reconhecido por OCR
+      let ocrConfidence: number | undefined;
+      if (OCR_ENABLED && text.replace(/\s/g, '').length < MIN_TEXT_LENGTH) {
+        try {
+          console.log(`Página ${i} sem camada de texto, executando OCR...`);
+          const ocr = await recognizePage(page);
+          if (ocr) {
+            text = ocr.text;
+            positionedItems = ocr.items;
+            ocrConfidence = ocr.confidence;
+          }
+        } catch (error) {
+          console.error(`Erro no OCR da página ${i}:`, error);
+        }
+        options.signal?.throwIfAborted();
+      }
+
+      const { rows, header, lines } = buildPageLayout(positionedItems);
+
       pages.push({
         text,
-        pageNumber: i
+        pageNumber: i,
+        header,
+        rows,
+        lines,
+        ocrConfidence
       });
 
-      console.log(`Página ${i} extraída com ${text.length} caracteres`);
+      console.log(`Página ${i} extraída com ${text.length} caracteres e ${rows.length} linhas de verbas` +
+        (ocrConfidence !== undefined ? ` (OCR, confiança ${ocrConfidence.toFixed(2)})` : ''));
+      options.onPageExtracted?.(i, pdf.numPages);
     }
 
     return pages;
@@ -46,140 +119,246 @@ export async function extractTextFromPDF(pdfBuffer: Buffer): Promise<PDFPage[]>
   }
 }
 
-// Função para extrair a data no formato esperado a partir de um texto ERP
-function extractERPDate(text: string): string | null {
-  const patterns = [
-    /(?:Compet[êe]ncia|Per[íi]odo|Data[^:]*?):\s*(\d{2})[\/\s-](\d{4})/i,
-    /(\d{2})[\/\s-](\d{4})/
-  ];
+// Aplica um padrão de competência ao texto, retornando a data no formato MM/AAAA
+export function matchDatePattern(text: string, datePattern: string): string | null {
+  const match = text.match(new RegExp(datePattern, 'i'));
+  if (!match || !match[1] || !match[2]) return null;
+
+  // O mês pode vir como número ou por extenso
+  const month = /^\d+$/.test(match[1]) ? match[1].padStart(2, '0') : MONTHS[match[1].toLowerCase()];
+  return month ? `${month}/${match[2]}` : null;
+}
 
-  // Tenta encontrar uma data usando os padrões definidos
-  for (const pattern of patterns) {
-    const match = text.match(pattern);
-    if (match) {
-      return `${match[1]}/${match[2]}`;
+// Extrai a competência (MM/AAAA) usando os padrões de data do perfil
+export function extractDate(text: string, profile: LayoutProfile): string | null {
+  for (const datePattern of profile.datePatterns) {
+    const date = matchDatePattern(text, datePattern);
+    if (date) {
+      return date;
     }
   }
   return null;
 }
 
-// Função para extrair itens de folha de pagamento de textos ERP
-// function extractERPItems(text: string, codes: string[]): ExtractedPayrollItem[] {
-//   const items: ExtractedPayrollItem[] = [];
-//   const lines = text.split(/[\n\r]+/);
-
-//   for (const code of codes) {
-//     for (const line of lines) {
-//       // Padrão para encontrar códigos e valores
-//       const pattern = new RegExp(`\\b${code}\\b\\s*[-.]?\\s*([^\\n\\r]*?)\\s+R?\\$?\\s*(\\d+(?:[.,]\\d{3})*(?:[.,]\\d{2}))`, 'i');
-//       const match = line.match(pattern);
-
-//       if (match) {
-//         const description = match[1].trim();
-//         // Converte valor para formato numérico
-//         const valueStr = match[2].replace(/\./g, '').replace(',', '.');
-//         const value = parseFloat(valueStr);
-
-//         console.log(`Extraindo código ${code}: valor original="${match[2]}", convertido="${valueStr}", final=${value}`);
-
-//         if (!isNaN(value) && description) {
-//           const existingItem = items.find(item => item.code === code);
-//           if (existingItem) {
-//             existingItem.value += value;
-//           } else {
-//             items.push({ code, description, value });
-//           }
-//         }
-//       }
-//     }
-//   }
-
-//   return items;
-// }
-
-function extractERPItems(text: string, codes: string[]): ExtractedPayrollItem[] {
-  const itemsMap = new Map<string, { value: number, description: string, code: string }>();
-
-  for (const code of codes) {
-    // Cria uma regex com a flag global para capturar todas as ocorrências
-    // const pattern = new RegExp(`\\b${code}\\b\\s*[-.]?\\s*([^\\n\\r]*?)\\s+R?\\$?\\s*(\\d+(?:[.,]\\d{3})*(?:[.,]\\d{2}))`, 'gi');
-    const pattern = new RegExp(`(?<=\\s|^)${code}(?=\\s|[-.:])\\s*[-.]?\\s*([^\\n\\r]*?)\\s+R?\\$?\\s*(\\d+(?:[.,]\\d{3})*(?:[.,]\\d{2}))`, 'gi');
-    
-    // matchAll retorna todas as correspondências
-    const matches = text.matchAll(pattern);
-    
-    for (const match of matches) {
-      const description = match[1].trim();
-      // Converte o valor removendo pontos e trocando vírgula por ponto
-      const valueStr = match[2].replace(/\./g, '').replace(',', '.');
-      const value = parseFloat(valueStr);
-
-      if (!isNaN(value) && description) {
-        // Chave composta por código e descrição para garantir a soma correta
-        const key = `${code}-${description}`;
-
-        if (itemsMap.has(key)) {
-          const existingItem = itemsMap.get(key)!;
-          existingItem.value = parseFloat((existingItem.value + value).toFixed(2));
-        } else {
-          itemsMap.set(key, { code, description, value });
-        }
-        console.log(`Código ${code}: "${description}" acumulado para R$ ${itemsMap.get(key)!.value}`);
+// Escapa o código para uso dentro de uma expressão regular
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const PRINTED_TOTALS: (keyof PrintedTotals)[] = ['proventos', 'descontos', 'net'];
+
+// Identifica o tipo de folha pelo cabeçalho da página; o cabeçalho evita confundir com verbas como "13 SALARIO"
+export function extractPayrollType(header: string, profile: LayoutProfile): PayrollType {
+  const types = Object.keys(profile.payrollTypePatterns) as (keyof LayoutProfile['payrollTypePatterns'])[];
+  const payrollType = types.find(type =>
+    profile.payrollTypePatterns[type].some(pattern => new RegExp(pattern, 'i').test(header))
+  );
+  return payrollType ?? 'NORMAL';
+}
+
+// Extrai os totais impressos na página (vantagens, descontos e líquido) usando os padrões do perfil
+export function extractPrintedTotals(text: string, profile: LayoutProfile): PrintedTotals {
+  const totals: PrintedTotals = {};
+
+  PRINTED_TOTALS.forEach(total => {
+    for (const totalPattern of profile.totalPatterns[total]) {
+      const match = text.match(new RegExp(totalPattern, 'i'));
+      if (match && match[1]) {
+        totals[total] = Math.abs(parseAmount(match[1]));
+        break;
       }
     }
+  });
+  return totals;
+}
+
+// Soma os totais impressos de outra página da mesma competência
+function addPrintedTotals(target: PrintedTotals, totals: PrintedTotals): void {
+  PRINTED_TOTALS.forEach(total => {
+    if (totals[total] !== undefined) {
+      target[total] = roundMoney((target[total] ?? 0) + totals[total]!);
+    }
+  });
+}
+
+// Categoria da linha pela coluna em que o valor foi impresso ou, sem colunas, pelas verbas pré-definidas
+function rowCategory(row: PayslipRow, code: string): PayrollCategory {
+  if (row.proventos !== undefined && row.descontos === undefined) return 'PROVENTOS';
+  if (row.descontos !== undefined && row.proventos === undefined) return 'DESCONTOS';
+  return getCodeCategory(code);
+}
+
+// Soma o valor ao item do código, registrando o trecho de origem
+function addItemValue(
+  itemsMap: Map<string, ExtractedPayrollItem>,
+  code: string,
+  description: string,
+  category: PayrollCategory,
+  source: PayrollItemSource
+): void {
+  const existingItem = itemsMap.get(code);
+  if (existingItem) {
+    existingItem.value = roundMoney(existingItem.value + source.value);
+    existingItem.sources!.push(source);
+  } else {
+    itemsMap.set(code, { code, description, value: source.value, category, sources: [source] });
   }
 
-  return Array.from(itemsMap.values());
+  // Itens lidos por OCR ficam com a menor confiança entre suas origens
+  if (source.confidence !== undefined) {
+    const item = itemsMap.get(code)!;
+    item.confidence = Math.min(item.confidence ?? 1, source.confidence);
+  }
 }
 
+// Valor da linha conforme as colunas e a convenção de sinal do perfil
+function rowValue(row: PayslipRow, profile: LayoutProfile): number | undefined {
+  for (const column of profile.valueColumns) {
+    const value = column === 'last' ? row.lastAmount : row[column];
+    if (value === undefined) continue;
 
-// Função auxiliar para extrair data baseada na fonte do PDF
-export function extractDate(text: string, source: PDFSource): string | null {
-  return source === 'ERP' ? extractERPDate(text) : null;
+    if (profile.signConvention === 'negative-descontos') {
+      return column === 'descontos' ? -Math.abs(value) : value;
+    }
+    return Math.abs(value);
+  }
+  return undefined;
 }
 
-// Funções exportadas para extração de itens baseadas na fonte
-export function extractERPPayrollItems(text: string, codes: string[]): ExtractedPayrollItem[] {
-  return extractERPItems(text, codes);
+// Códigos de todas as linhas reconstruídas da página que têm valor (modo de descoberta)
+function discoverRowCodes(page: PDFPage, profile: LayoutProfile): string[] {
+  const codes = page.rows
+    .filter(row => rowValue(row, profile) !== undefined)
+    .map(row => row.code.toUpperCase());
+  return Array.from(new Set(codes));
 }
 
-// Função principal para processar o PDF
-export async function processPDF(
-  pdfBuffer: Buffer, 
-  codes: string[], 
-  source: PDFSource
-): Promise<ProcessedPayslip[]> {
+// Extrai os itens da página: primeiro pelas linhas reconstruídas, depois pelos padrões de texto do perfil.
+// Sem lista de códigos (null), extrai todas as linhas reconstruídas da página
+export function extractPayrollItems(page: PDFPage, codes: string[] | null, profile: LayoutProfile): ExtractedPayrollItem[] {
+  const itemsMap = new Map<string, ExtractedPayrollItem>();
+
+  for (const code of codes ?? discoverRowCodes(page, profile)) {
+    page.rows
+      .filter(row => row.code.toLowerCase() === code.toLowerCase())
+      .forEach(row => {
+        const value = rowValue(row, profile);
+        if (value === undefined) return;
+        addItemValue(itemsMap, code, row.description, rowCategory(row, code), {
+          pageNumber: page.pageNumber,
+          matchedText: row.text,
+          value,
+          confidence: row.confidence ?? page.ocrConfidence
+        });
+      });
+
+    // Códigos não encontrados nas linhas são procurados no texto corrido
+    if (itemsMap.has(code)) continue;
+
+    for (const rowPattern of profile.rowPatterns) {
+      const pattern = new RegExp(rowPattern.pattern.split('{code}').join(escapeRegExp(code)), 'gi');
+
+      Array.from(page.text.matchAll(pattern)).forEach(match => {
+        const description = (match[rowPattern.descriptionGroup] || '').trim();
+        const valueText = match[rowPattern.valueGroup];
+        if (!description || !valueText) return;
+
+        const value = Math.abs(parseAmount(valueText));
+        if (isNaN(value)) return;
+
+        addItemValue(itemsMap, code, description, getCodeCategory(code), {
+          pageNumber: page.pageNumber,
+          matchedText: match[0].trim(),
+          value,
+          confidence: page.ocrConfidence
+        });
+      });
+
+      if (itemsMap.has(code)) break;
+    }
+  }
+
+  return Array.from(itemsMap.values());
+}
+
+// Processa as páginas já extraídas do PDF com o perfil de layout escolhido
+export function processPages(pages: PDFPage[], codes: string[] | null, profile: LayoutProfile): ExtractionResult {
   try {
-    console.log(`Processando PDF de fonte ${source}`, codes);
+    console.log(`Processando PDF com perfil ${profile.id} e ${codes ? codes.length : 'todos os'} códigos`);
 
-    // Extrai texto de todas as páginas
-    const pages = await extractTextFromPDF(pdfBuffer);
     const results: ProcessedPayslip[] = [];
+    const pagesWithoutDate: number[] = [];
+    const pagesWithoutItems: PageWithoutItems[] = [];
+    let previousPage = null as { date: string; payrollType: PayrollType } | null;
 
     // Processa cada página individualmente
     for (const page of pages) {
       console.log(`Processando página ${page.pageNumber}`);
 
       // Extrai a data da página
-      const date = extractDate(page.text, source);
+      const date = extractDate(page.text, profile);
       if (!date) {
         console.log(`Data não encontrada na página ${page.pageNumber}`);
+        pagesWithoutDate.push(page.pageNumber);
         continue;
       }
-      console.log('Data extraída:', date);
 
-      // Extrai itens baseado na fonte do PDF
-      const items = extractERPPayrollItems(page.text, codes);
+      // Em layouts de várias páginas por competência, as páginas de continuação herdam o tipo da anterior
+      let payrollType = extractPayrollType(page.header, profile);
+      if (payrollType === 'NORMAL' && profile.groupBy === 'date' && previousPage?.date === date) {
+        payrollType = previousPage.payrollType;
+      }
+      previousPage = { date, payrollType };
 
+      const items = extractPayrollItems(page, codes, profile);
       console.log(`Encontrados ${items.length} itens na página ${page.pageNumber}`);
 
-      if (items.length > 0) {
-        results.push({ date, items, source });
+      if (items.length === 0) {
+        pagesWithoutItems.push({ pageNumber: page.pageNumber, date });
+        continue;
+      }
+
+      const sourcePage: SourcePage = { pageNumber: page.pageNumber, text: page.text };
+      if (page.ocrConfidence !== undefined) {
+        sourcePage.ocr = true;
+      }
+      const printedTotals = extractPrintedTotals(page.text, profile);
+      const existing = profile.groupBy === 'date'
+        ? results.find(result => result.date === date && result.payrollType === payrollType)
+        : undefined;
+
+      if (!existing) {
+        results.push({ date, payrollType, items, source: profile.id, pages: [sourcePage], printedTotals });
+        continue;
       }
+
+      // Agrega os itens e os totais impressos da página aos da mesma competência e tipo de folha
+      existing.pages!.push(sourcePage);
+      addPrintedTotals(existing.printedTotals!, printedTotals);
+      items.forEach(item => {
+        const existingItem = existing.items.find(i => i.code === item.code);
+        if (existingItem) {
+          existingItem.value = roundMoney(existingItem.value + item.value);
+          existingItem.sources = [...(existingItem.sources || []), ...(item.sources || [])];
+          if (item.confidence !== undefined) {
+            existingItem.confidence = Math.min(existingItem.confidence ?? 1, item.confidence);
+          }
+        } else {
+          existing.items.push(item);
+        }
+      });
     }
 
     console.log(`Processamento finalizado. Encontrados ${results.length} conjuntos de dados.`);
-    return results;
+    return {
+      payslips: results,
+      diagnostics: {
+        totalPages: pages.length,
+        pagesWithoutDate,
+        pagesWithoutItems,
+        ocrPages: pages.filter(page => page.ocrConfidence !== undefined).map(page => page.pageNumber)
+      }
+    };
   } catch (error) {
     console.error('Erro ao processar PDF:', error);
     throw error;
@@ -189,4 +368,4 @@ export async function processPDF(
 // Função auxiliar para formatar valores monetários
 export function formatCurrency(value: number): string {
   return `R$ ${value.toFixed(2).replace('.', ',')}`;
-}
\ No newline at end of file
+}
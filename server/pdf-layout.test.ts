@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { buildLines, buildPageLayout, parseAmount, type PDFTextItem } from "./pdf-layout";
+
+// Item de texto com largura proporcional ao número de caracteres
+const text = (str: string, x: number, y: number, confidence?: number): PDFTextItem => ({
+  str,
+  x,
+  y,
+  width: str.length * 6,
+  confidence,
+});
+
+describe("parseAmount", () => {
+  it("reads Brazilian amounts with the sign before or after the value", () => {
+    expect(parseAmount("1.234,56")).toBe(1234.56);
+    expect(parseAmount("-45,10")).toBe(-45.1);
+    expect(parseAmount("45,10-")).toBe(-45.1);
+  });
+});
+
+describe("buildLines", () => {
+  it("groups items within the vertical tolerance from top to bottom and left to right", () => {
+    const lines = buildLines([
+      text("1.500,00", 300, 700),
+      text("0002", 40, 701),
+      text("VENCIMENTO", 100, 699),
+      text("Competência: 01/2020", 40, 780),
+      text("   ", 40, 600),
+    ]);
+
+    expect(lines.map(line => line.text)).toEqual(["Competência: 01/2020", "0002 VENCIMENTO 1.500,00"]);
+  });
+});
+
+describe("buildPageLayout", () => {
+  const header = [
+    text("EMPRESA LTDA", 40, 800),
+    text("Competência: 01/2020", 40, 780),
+    text("Cód.", 40, 720),
+    text("Descrição", 100, 720),
+    text("Referência", 250, 720),
+    text("Proventos", 350, 720),
+    text("Descontos", 450, 720),
+  ];
+
+  it("assigns each amount to the nearest column of the table header", () => {
+    const layout = buildPageLayout([
+      ...header,
+      text("0002", 40, 700),
+      text("VENCIMENTO BASE", 100, 700),
+      text("30,00", 260, 700),
+      text("1.500,00", 350, 700),
+      text("0500", 40, 680),
+      text("PREVIDÊNCIA", 100, 680),
+      text("11%", 260, 680),
+      text("165,00", 455, 680),
+    ]);
+
+    expect(layout.rows).toEqual([
+      {
+        code: "0002",
+        description: "VENCIMENTO BASE",
+        reference: "30,00",
+        proventos: 1500,
+        lastAmount: 1500,
+        text: "0002 VENCIMENTO BASE 30,00 1.500,00",
+      },
+      {
+        code: "0500",
+        description: "PREVIDÊNCIA",
+        reference: "11%",
+        descontos: 165,
+        lastAmount: 165,
+        text: "0500 PREVIDÊNCIA 11% 165,00",
+      },
+    ]);
+    expect(layout.header).toBe("EMPRESA LTDA Competência: 01/2020 Cód. Descrição Referência Proventos Descontos");
+  });
+
+  it("uses the last amount as the value when the page has no column header", () => {
+    const layout = buildPageLayout([
+      text("Competência: 01/2020", 40, 780),
+      text("0002 VENCIMENTO 30 1.500,00", 40, 700),
+      text("Total 1.500,00", 40, 680),
+    ]);
+
+    expect(layout.rows).toEqual([
+      {
+        code: "0002",
+        description: "VENCIMENTO",
+        reference: "30",
+        lastAmount: 1500,
+        text: "0002 VENCIMENTO 30 1.500,00",
+      },
+    ]);
+    expect(layout.lines).toEqual(["Competência: 01/2020", "0002 VENCIMENTO 30 1.500,00", "Total 1.500,00"]);
+  });
+
+  it("keeps the lowest OCR confidence among the words of the row", () => {
+    const layout = buildPageLayout([
+      text("0002", 40, 700, 0.95),
+      text("VENCIMENTO", 100, 700, 0.6),
+      text("1.500,00", 300, 700, 0.9),
+    ]);
+
+    expect(layout.rows[0].confidence).toBe(0.6);
+  });
+
+  it("ignores lines without a code, a description or an amount", () => {
+    const layout = buildPageLayout([
+      text("0002 1.500,00", 40, 700),
+      text("VENCIMENTO 1.500,00", 40, 680),
+      text("0003 SALÁRIO FAMÍLIA", 40, 660),
+    ]);
+
+    expect(layout.rows).toEqual([]);
+    expect(layout.header).toBe("0002 1.500,00 VENCIMENTO 1.500,00 0003 SALÁRIO FAMÍLIA");
+  });
+});
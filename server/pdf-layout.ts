@@ -0,0 +1,230 @@
+// Reconstrução da estrutura de linhas e colunas do contracheque a partir das posições do pdf.js
+
+// Item de texto do pdf.js com posição na página
+export interface PDFTextItem {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  confidence?: number; // Confiança do OCR (0 a 1), ausente quando o texto vem da camada de texto do PDF
+}
+
+// Palavra de uma linha com posição horizontal estimada
+interface LayoutToken {
+  text: string;
+  x: number;
+  width: number;
+  confidence?: number;
+}
+
+// Linha visual da página (itens com a mesma coordenada vertical)
+interface LayoutLine {
+  y: number;
+  tokens: LayoutToken[];
+  text: string;
+}
+
+// Posição horizontal (centro) das colunas numéricas identificadas no cabeçalho
+interface ColumnAnchors {
+  reference?: number;
+  proventos?: number;
+  descontos?: number;
+}
+
+// Linha de verba do contracheque: código, descrição, referência e valores por coluna
+export interface PayslipRow {
+  code: string;
+  description: string;
+  reference?: string;
+  proventos?: number;
+  descontos?: number;
+  lastAmount: number; // Último valor monetário da linha, usado quando não há cabeçalho de colunas
+  text: string;
+  confidence?: number; // Menor confiança do OCR entre as palavras da linha
+}
+
+// Estrutura da página: linhas de verbas, texto do cabeçalho (acima da tabela de verbas) e texto de cada linha visual
+export interface PageLayout {
+  rows: PayslipRow[];
+  header: string;
+  lines: string[];
+}
+
+// Diferença vertical máxima para considerar itens na mesma linha
+const LINE_TOLERANCE = 2.5;
+
+// Linhas iniciais tratadas como cabeçalho quando a página não tem linhas de verbas reconhecidas
+const HEADER_LINE_LIMIT = 6;
+
+const CODE_PATTERN = /^(?=.*\d)[0-9A-Z]{2,6}$/i;
+const AMOUNT_PATTERN = /^-?(?:\d{1,3}(?:\.\d{3})*|\d+),\d{2}-?$/;
+const NUMERIC_PATTERN = /^[\d.,\/%-]*\d[\d.,\/%-]*$/;
+
+const REFERENCE_HEADER = /^(refer[êe]ncia|ref\.?|qtd\.?|quant(idade)?\.?|prazo)$/i;
+const PROVENTOS_HEADER = /^(proventos|vantagens|vencimentos|cr[ée]ditos|rendimentos)$/i;
+const DESCONTOS_HEADER = /^(descontos|d[ée]bitos)$/i;
+
+// Converte valores no formato brasileiro (1.234,56) para número, aceitando o sinal antes ou depois
+export function parseAmount(value: string): number {
+  const amount = parseFloat(value.replace(/[-.]/g, '').replace(',', '.'));
+  return value.includes('-') ? -amount : amount;
+}
+
+// Divide cada item em palavras, estimando a posição horizontal de cada uma pelo número de caracteres
+function tokenize(item: PDFTextItem): LayoutToken[] {
+  const tokens: LayoutToken[] = [];
+  const charWidth = item.str.length > 0 ? item.width / item.str.length : 0;
+  const wordPattern = /\S+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = wordPattern.exec(item.str)) !== null) {
+    tokens.push({
+      text: match[0],
+      x: item.x + match.index * charWidth,
+      width: match[0].length * charWidth,
+      confidence: item.confidence
+    });
+  }
+  return tokens;
+}
+
+// Agrupa os itens da página em linhas, de cima para baixo e da esquerda para a direita
+export function buildLines(items: PDFTextItem[]): LayoutLine[] {
+  const sorted = items
+    .filter(item => item.str.trim().length > 0)
+    .slice()
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const lines: { y: number; items: PDFTextItem[] }[] = [];
+  sorted.forEach(item => {
+    const line = lines.find(l => Math.abs(l.y - item.y) <= LINE_TOLERANCE);
+    if (line) {
+      line.items.push(item);
+    } else {
+      lines.push({ y: item.y, items: [item] });
+    }
+  });
+
+  return lines.map(line => {
+    const tokens = line.items
+      .slice()
+      .sort((a, b) => a.x - b.x)
+      .flatMap(tokenize);
+    return {
+      y: line.y,
+      tokens,
+      text: tokens.map(token => token.text).join(' ')
+    };
+  });
+}
+
+// Localiza o cabeçalho da tabela de verbas (linha com colunas de proventos e descontos)
+function findColumnAnchors(lines: LayoutLine[]): ColumnAnchors | null {
+  for (const line of lines) {
+    const center = (token: LayoutToken) => token.x + token.width / 2;
+    const proventos = line.tokens.find(token => PROVENTOS_HEADER.test(token.text));
+    const descontos = line.tokens.find(token => DESCONTOS_HEADER.test(token.text));
+
+    if (proventos && descontos) {
+      const reference = line.tokens.find(token => REFERENCE_HEADER.test(token.text));
+      return {
+        reference: reference ? center(reference) : undefined,
+        proventos: center(proventos),
+        descontos: center(descontos)
+      };
+    }
+  }
+  return null;
+}
+
+// Identifica a coluna mais próxima de um valor numérico
+function nearestColumn(anchors: ColumnAnchors, x: number): keyof ColumnAnchors {
+  let nearest: keyof ColumnAnchors = 'proventos';
+  let smallestDistance = Infinity;
+
+  (Object.keys(anchors) as (keyof ColumnAnchors)[]).forEach(column => {
+    const anchor = anchors[column];
+    if (anchor === undefined) return;
+
+    const distance = Math.abs(anchor - x);
+    if (distance < smallestDistance) {
+      smallestDistance = distance;
+      nearest = column;
+    }
+  });
+  return nearest;
+}
+
+// Interpreta uma linha como verba: código no início, descrição e colunas numéricas ao final
+function parseRow(line: LayoutLine, anchors: ColumnAnchors | null): PayslipRow | null {
+  const tokens = line.tokens;
+  const codeIndex = tokens.slice(0, 2).findIndex(token => CODE_PATTERN.test(token.text));
+  if (codeIndex === -1) return null;
+
+  // Colunas numéricas ao final da linha (referência e valores)
+  let numericStart = tokens.length;
+  while (numericStart > codeIndex + 1 && NUMERIC_PATTERN.test(tokens[numericStart - 1].text)) {
+    numericStart--;
+  }
+
+  const numericTokens = tokens.slice(numericStart);
+  const amountTokens = numericTokens.filter(token => AMOUNT_PATTERN.test(token.text));
+  if (amountTokens.length === 0) return null;
+
+  const description = tokens
+    .slice(codeIndex + 1, numericStart)
+    .map(token => token.text)
+    .join(' ')
+    .replace(/^[-.:]\s*/, '')
+    .trim();
+  if (!description) return null;
+
+  const row: PayslipRow = {
+    code: tokens[codeIndex].text,
+    description,
+    lastAmount: parseAmount(amountTokens[amountTokens.length - 1].text),
+    text: line.text
+  };
+
+  const confidences = tokens
+    .map(token => token.confidence)
+    .filter((confidence): confidence is number => confidence !== undefined);
+  if (confidences.length > 0) {
+    row.confidence = Math.min(...confidences);
+  }
+
+  if (anchors) {
+    const references: string[] = [];
+    numericTokens.forEach(token => {
+      const column = nearestColumn(anchors, token.x + token.width / 2);
+      if (column === 'reference' || !AMOUNT_PATTERN.test(token.text)) {
+        references.push(token.text);
+      } else {
+        row[column] = parseAmount(token.text);
+      }
+    });
+
+    if (references.length > 0) row.reference = references.join(' ');
+  } else if (numericTokens.length > 1) {
+    // Sem cabeçalho, a última coluna é o valor e as anteriores são referência
+    row.reference = numericTokens.slice(0, -1).map(token => token.text).join(' ');
+  }
+
+  return row;
+}
+
+// Constrói o modelo de linhas de verbas e o cabeçalho a partir dos itens posicionados da página
+export function buildPageLayout(items: PDFTextItem[]): PageLayout {
+  const lines = buildLines(items);
+  const anchors = findColumnAnchors(lines);
+  const parsedRows = lines.map(line => parseRow(line, anchors));
+
+  const firstRowIndex = parsedRows.findIndex(row => row !== null);
+  const headerEnd = firstRowIndex === -1 ? HEADER_LINE_LIMIT : firstRowIndex;
+
+  return {
+    rows: parsedRows.filter((row): row is PayslipRow => row !== null),
+    header: lines.slice(0, headerEnd).map(line => line.text).join(' '),
+    lines: lines.map(line => line.text)
+  };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import type { User } from "@shared/schema";
+import { isPrescribed, prescriptionLimit, prescriptionOf } from "./prescription";
+
+describe("prescriptionLimit", () => {
+  it("returns the month of the filing, five years earlier", () => {
+    expect(prescriptionLimit("2024-06-10")).toBe("06/2019");
+    expect(prescriptionLimit("2024-01-31")).toBe("01/2019");
+    expect(prescriptionLimit("2024-12-01")).toBe("12/2019");
+  });
+
+  it("rejects dates outside the YYYY-MM-DD format", () => {
+    expect(prescriptionLimit("10/06/2024")).toBeNull();
+    expect(prescriptionLimit("2024-13-01")).toBeNull();
+  });
+});
+
+describe("isPrescribed", () => {
+  const limit = prescriptionLimit("2024-06-10")!;
+
+  it("prescribes only the competences before the limit", () => {
+    expect(isPrescribed("05/2019", limit)).toBe(true);
+    expect(isPrescribed("12/2018", limit)).toBe(true);
+    expect(isPrescribed("06/2019", limit)).toBe(false);
+    expect(isPrescribed("07/2019", limit)).toBe(false);
+  });
+
+  it("never prescribes dates outside the MM/YYYY format", () => {
+    expect(isPrescribed("13/2018", limit)).toBe(false);
+    expect(isPrescribed("", limit)).toBe(false);
+  });
+});
+
+describe("prescriptionOf", () => {
+  const user: User = { id: 1, username: "ana", password: "hash", filingDate: null, excludePrescribed: false };
+
+  it("is undefined until the filing date is set", () => {
+    expect(prescriptionOf(user)).toBeUndefined();
+  });
+
+  it("carries the filing date and whether prescribed months are excluded", () => {
+    expect(prescriptionOf({ ...user, filingDate: "2024-06-10", excludePrescribed: true }))
+      .toEqual({ filingDate: "2024-06-10", exclude: true });
+  });
+});
@@ -0,0 +1,26 @@
+import type { User } from '@shared/schema';
+import { addMonths, compareCompetences, parseCompetence } from './competence';
+
+// Prescrição quinquenal das dívidas da Fazenda Pública (Decreto 20.910/1932): prescrevem as parcelas vencidas mais de
+// cinco anos antes do ajuizamento da ação
+export interface PrescriptionOptions {
+  filingDate: string; // Data do ajuizamento (AAAA-MM-DD)
+  exclude: boolean; // Retira os meses prescritos da tabela; sem ela, eles apenas são marcados
+}
+
+// Primeira competência não prescrita: a do mês do ajuizamento, cinco anos antes. A remuneração de uma competência é
+// paga no início do mês seguinte, já dentro do prazo; a da competência anterior, no próprio mês, é tratada como prescrita
+export function prescriptionLimit(filingDate: string): string | null {
+  const match = filingDate.match(/^(\d{4})-(\d{2})-\d{2}$/);
+  return match ? addMonths(`${match[2]}/${match[1]}`, -60) : null;
+}
+
+// Competências fora do formato MM/AAAA nunca são consideradas prescritas
+export function isPrescribed(date: string, limit: string): boolean {
+  return parseCompetence(date) !== null && compareCompetences(date, limit) < 0;
+}
+
+// Prescrição configurada para o processo do usuário; indefinida enquanto o ajuizamento não for informado
+export function prescriptionOf(user: User): PrescriptionOptions | undefined {
+  return user.filingDate ? { filingDate: user.filingDate, exclude: user.excludePrescribed } : undefined;
+}
@@ -0,0 +1,113 @@
+import path from 'path';
+import { PriceIndexAccumulation, PriceIndexId, PriceIndexSummary } from '@shared/schema';
+import { formatCompetence, parseCompetence, sortCompetences } from './competence';
+import { CSV_FILES, loadDataDirectory } from './data-directory';
+
+interface PriceIndexDefinition {
+  id: PriceIndexId;
+  name: string;
+  accumulation: PriceIndexAccumulation;
+}
+
+// Índices suportados; as séries mensais vêm de arquivos CSV mantidos pelos administradores.
+// SELIC e poupança também são usadas como taxas de juros de mora (ver interest.ts)
+export const PRICE_INDEXES: PriceIndexDefinition[] = [
+  { id: 'IPCA-E', name: 'IPCA-E (IBGE)', accumulation: 'compound' },
+  { id: 'INPC', name: 'INPC (IBGE)', accumulation: 'compound' },
+  { id: 'IGP-M', name: 'IGP-M (FGV)', accumulation: 'compound' },
+  { id: 'SELIC', name: 'Taxa SELIC (BCB)', accumulation: 'simple' },
+  { id: 'TR', name: 'Taxa Referencial (BCB)', accumulation: 'compound' },
+  { id: 'POUPANCA', name: 'Juros da poupança (BCB)', accumulation: 'simple' }
+];
+
+export const PRICE_INDEX_IDS = PRICE_INDEXES.map(index => index.id) as [PriceIndexId, ...PriceIndexId[]];
+
+// Diretório com um arquivo CSV por índice (IPCA-E.csv, INPC.csv...)
+const PRICE_INDEXES_DIR = process.env.PRICE_INDEXES_DIR || path.resolve(process.cwd(), 'price-indexes');
+
+// Competência em MM/AAAA ou AAAA-MM, como publicado pelo IBGE e pelo Banco Central
+function parseSeriesMonth(text: string): string | null {
+  const isoMatch = text.match(/^(\d{4})-(\d{2})(?:-\d{2})?$/);
+  const date = isoMatch ? `${isoMatch[2]}/${isoMatch[1]}` : text;
+  const competence = parseCompetence(date);
+  return competence ? formatCompetence(competence) : null;
+}
+
+// Número com vírgula ou ponto decimal; com os dois, o ponto é o separador de milhar (1.234,56)
+function parseDecimal(text: string): number | null {
+  const value = text.replace(/%|R\$/g, '').trim();
+  const normalized = value.includes(',') ? value.replace(/\./g, '').replace(',', '.') : value;
+  const rate = Number(normalized);
+  return normalized !== '' && Number.isFinite(rate) ? rate : null;
+}
+
+// Lê as linhas "competência;valor" do arquivo (variações das séries de índices ou valores das tabelas de valores devidos).
+// A primeira linha pode ser um cabeçalho; linhas em branco são ignoradas
+export function parseSeriesCsv(content: string): Map<string, number> {
+  const series = new Map<string, number>();
+
+  content.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+
+    const fields = (/[;\t]/.test(line) ? line.split(/[;\t]/) : line.split(',')).map(field => field.trim().replace(/^"|"$/g, ''));
+    const date = parseSeriesMonth(fields[0]);
+    const rate = fields.length > 1 ? parseDecimal(fields[1]) : null;
+    if (!date || rate === null) {
+      if (index > 0) {
+        throw new Error(`linha ${index + 1} inválida: "${line.trim()}"`);
+      }
+      return;
+    }
+
+    series.set(date, rate);
+  });
+
+  return series;
+}
+
+// Registro das séries mensais dos índices (variação percentual de cada competência)
+export class PriceIndexRegistry {
+  private series: Map<PriceIndexId, Map<string, number>>;
+
+  constructor() {
+    this.series = new Map();
+  }
+
+  get(id: PriceIndexId): Map<string, number> | undefined {
+    return this.series.get(id);
+  }
+
+  definition(id: PriceIndexId): PriceIndexDefinition {
+    return PRICE_INDEXES.find(index => index.id === id)!;
+  }
+
+  list(): PriceIndexSummary[] {
+    return PRICE_INDEXES.map(index => {
+      const months = sortCompetences(Array.from(this.series.get(index.id)?.keys() || []));
+      return {
+        ...index,
+        firstMonth: months[0],
+        lastMonth: months[months.length - 1],
+        months: months.length
+      };
+    });
+  }
+
+  // Carrega a série de cada arquivo <ÍNDICE>.csv do diretório
+  loadFromDirectory(directory: string): number {
+    return loadDataDirectory(directory, CSV_FILES, 'Série de índice inválida', (content, fileName) => {
+      const baseName = fileName.slice(0, -'.csv'.length).toUpperCase();
+      const index = PRICE_INDEXES.find(definition => definition.id === baseName);
+      if (!index) {
+        throw new Error('índice desconhecido');
+      }
+
+      const series = parseSeriesCsv(content);
+      this.series.set(index.id, series);
+      return `Índice ${index.id} carregado de ${fileName} (${series.size} meses)`;
+    });
+  }
+}
+
+export const priceIndexes = new PriceIndexRegistry();
+priceIndexes.loadFromDirectory(PRICE_INDEXES_DIR);
@@ -3,10 +3,37 @@ import express, { type Express, Request, Response, NextFunction } from "express"
 import { createServer, type Server } from "http";
 import XLSX from 'xlsx';
 import { storage } from "./storage";
+import { hashPassword, isLegacyPassword, verifyPassword } from "./auth";
 import multer from "multer";
-import { processPDF as processERPPDF, PDFSource } from "./pdf-extractor";
-import { processPDF as processRHPDF } from "./rh-extractor";
-import { ExtractedPayrollItem, PayrollResult, ProcessedPayslip, User } from "@shared/schema";
+import path from "path";
+import { AUTO_PROFILE_ID, LayoutProfile, layoutProfiles } from "./layout-profiles";
+import { expandUploadedFiles, processPayslipBatch, processPayslipFile, toPayrollDataRows, withFileName } from "./payslip-processor";
+import { jobQueue } from "./jobs";
+import { DUPLICATE_MODES, findDuplicateFiles, findDuplicatePayslips, hashContent, savePayrollRows, selectPayrollRows } from "./payslip-dedup";
+import { documentStore, storeSourceDocuments } from "./document-store";
+import { applyOverrides, getActiveOverrides, getEffectivePayrollData, getPayrollItemStates } from "./payroll-overrides";
+import { buildReconciliationReport, computeMonthlyTotals } from "./payroll-totals";
+import { buildCodeCatalogue } from "./code-discovery";
+import { CsvOptions, toCsv } from "./csv-export";
+import {
+  buildCategorySheets,
+  buildCodeToDisplayMap,
+  buildSheet,
+  consolidatePayroll,
+  ExportSheet,
+  FACTOR_DECIMALS,
+  isMarkedPrescribed,
+  payrollRowKey
+} from "./payroll-consolidation";
+import { PRICE_INDEX_IDS, parseSeriesCsv, priceIndexes } from "./price-indexes";
+import { applyRequestedCorrection, correctedTotals } from "./monetary-correction";
+import { competenceSchema } from "./competence";
+import { buildInterestSheet, calculateInterest, interestRequestSchema } from "./interest";
+import { buildDifferencesSheet, computeDifferences } from "./payroll-differences";
+import { prescriptionLimit, prescriptionOf } from "./prescription";
+import { irrfTables } from "./irrf-tables";
+import { buildIrrfSheet, calculateIrrf, irrfRequestSchema } from "./irrf";
+import { DueSeries, DuplicateMode, InsertDueSeries, ExtractedPayrollItem, PayrollData, PayrollType, ProcessedPayslip, SourcePage, User } from "@shared/schema";
 import { z } from "zod";
 import session from 'express-session';
 import createMemoryStore from 'memorystore';
@@ -15,10 +42,28 @@ import createMemoryStore from 'memorystore';
 import {
   predefinedCodes,
   predefinedModels,
+  payrollTypeLabels,
   getCodeByNumber,
   getModelByName
 } from './payroll-definitions';
 
+// Converte uma planilha exportada em planilha XLSX, com formato de moeda nos valores numéricos
+// (e as casas decimais próprias das colunas que não são valores monetários, como fatores e taxas)
+function toWorksheet(sheet: ExportSheet): XLSX.WorkSheet {
+  const ws = XLSX.utils.aoa_to_sheet(sheet.rows);
+  const range = XLSX.utils.decode_range(ws['!ref']!);
+  for(let R = 1; R <= range.e.r; ++R) {
+    for(let C = 1; C <= range.e.c; ++C) {
+      const cell = XLSX.utils.encode_cell({r: R, c: C});
+      const decimals = sheet.columnDecimals?.[C];
+      if(ws[cell] && typeof ws[cell].v === 'number') {
+        ws[cell].z = decimals === undefined ? '#,##0.00' : decimals === 0 ? '0' : `0.${'0'.repeat(decimals)}`;
+      }
+    }
+  }
+  return ws;
+}
+
 // Configuração do multer para upload de arquivos
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -27,6 +72,26 @@ const upload = multer({
   },
 });
 
+// Configuração do multer para upload em lote (vários PDFs ou arquivos ZIP)
+const batchUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024, // Limite de 50 MB por arquivo (ZIPs podem conter vários PDFs)
+    files: 100,
+  },
+});
+
+// Opções de extração informadas nos envios de PDFs
+interface ExtractionOptions {
+  profile: LayoutProfile | null; // Nulo para detectar o layout de cada arquivo
+  codes: string[];
+  discover: boolean; // Modo de descoberta: lista as verbas do arquivo sem salvar
+  duplicateMode: DuplicateMode;
+}
+
+// Folha da competência em que um item é corrigido; sem indicação, a folha normal
+const payrollTypeSchema = z.enum(['NORMAL', 'SUPLEMENTAR', 'DECIMO_TERCEIRO', 'FERIAS', 'RESCISAO']).default('NORMAL');
+
 // Extensão dos tipos do Express para incluir sessão e usuário
 declare module 'express-session' {
   interface SessionData {
@@ -53,7 +118,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     store: new MemoryStore({
       checkPeriod: 86400000 // Limpa entradas expiradas a cada 24h
     }),
-    secret: 'contracheque-secret-key',
+    secret: process.env.SESSION_SECRET || 'contracheque-secret-key',
     resave: false,
     saveUninitialized: false
   }));
@@ -67,7 +132,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const user = await storage.getUser(userId);
-      if (!user || user.username !== 'dlinhares') {
+      if (!user) {
         return res.status(401).json({ message: "Unauthorized - Invalid user" });
       }
 
@@ -79,7 +144,141 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   };
 
+  // Correção monetária opcional da tabela e das exportações: índice e competência de destino (MM/AAAA)
+  const correctionQuerySchema = z.object({
+    index: z.enum(PRICE_INDEX_IDS).optional(),
+    target: competenceSchema.optional()
+  }).refine(query => !query.index === !query.target, { message: "index and target must be informed together" });
+
+  // Resposta para séries de índice sem a variação de algum mês do período corrigido
+  const missingIndexMonths = (res: Response, index: string | undefined, missingMonths: string[]) =>
+    res.status(422).json({
+      message: `Index series ${index} has no data for ${missingMonths.join(", ")}`,
+      missingMonths
+    });
+
+  // Série de valores devidos de uma coluna: o método define quais campos são obrigatórios. A tabela de valores
+  // chega como o texto de um CSV "competência;valor" (tableCsv) e é gravada como valor por competência
+  const dueSeriesSchema = z.object({
+    column: z.string().min(1),
+    method: z.enum(['fixed', 'percentage', 'table']),
+    amount: z.number().nullish(),
+    percentage: z.number().min(0).nullish(),
+    baseColumn: z.string().min(1).nullish(),
+    tableCsv: z.string().min(1).optional(),
+    startDate: competenceSchema.nullish(),
+    endDate: competenceSchema.nullish(),
+    reflexes: z.boolean().optional()
+  });
+
+  // Converte os dados recebidos nos campos da série, conferindo os obrigatórios do método (current: série já gravada)
+  const toDueSeriesFields = (
+    data: Partial<z.infer<typeof dueSeriesSchema>>,
+    current?: DueSeries
+  ): Partial<InsertDueSeries> => {
+    const { tableCsv, ...fields } = data;
+    const dueTable = tableCsv !== undefined
+      ? Object.fromEntries(parseSeriesCsv(tableCsv))
+      : current?.dueTable;
+    const merged = { ...current, ...fields, dueTable };
+
+    if (merged.method === 'fixed' && (merged.amount === null || merged.amount === undefined)) {
+      throw new Error("Fixed series require amount");
+    }
+    if (merged.method === 'percentage' && (merged.percentage === null || merged.percentage === undefined || !merged.baseColumn)) {
+      throw new Error("Percentage series require percentage and baseColumn");
+    }
+    if (merged.method === 'table' && !dueTable) {
+      throw new Error("Table series require tableCsv");
+    }
+    return tableCsv !== undefined ? { ...fields, dueTable } : fields;
+  };
+
+  // Opções dos envios de PDFs (um arquivo, lote ou job): perfil de layout, códigos procurados e tratamento dos
+  // contracheques já importados. Lança um erro com a mensagem da resposta 400 quando alguma opção é inválida
+  const parseExtractionOptions = (body: Record<string, unknown>, allowDiscover = false): ExtractionOptions => {
+    // O perfil de layout é escolhido pelo id (o campo "source" é aceito por compatibilidade);
+    // sem perfil, ou com "auto", o layout é detectado em cada arquivo
+    const profileId = String(body.profile || body.source || AUTO_PROFILE_ID);
+
+    // No modo de descoberta os códigos não são informados: todas as verbas do arquivo são listadas, sem salvar
+    const discover = allowDiscover && body.mode === 'discover';
+
+    if (!body.codes && !discover) {
+      throw new Error("Codes are required");
+    }
+
+    const profile = profileId === AUTO_PROFILE_ID ? null : layoutProfiles.get(profileId);
+    if (profile === undefined) {
+      throw new Error(`Unknown layout profile: ${profileId}`);
+    }
+
+    const codes = discover ? [] : String(body.codes).split(/[\s,]+/).filter(Boolean);
+    if (!discover && codes.length === 0) {
+      throw new Error("No valid codes provided");
+    }
+
+    const duplicateMode = (body.onDuplicate || 'ask') as DuplicateMode;
+    if (!DUPLICATE_MODES.includes(duplicateMode)) {
+      throw new Error(`Unknown duplicate mode: ${duplicateMode}`);
+    }
+
+    return { profile, codes, discover, duplicateMode };
+  };
+
   // Rotas de autenticação
+  router.post("/auth/register", async (req: Request, res: Response) => {
+    const registerSchema = z.object({
+      username: z.string().trim().min(3).max(50),
+      password: z.string().min(6)
+    });
+
+    const parsed = registerSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "Username must have at least 3 characters and password at least 6"
+      });
+    }
+
+    const { username, password } = parsed.data;
+
+    try {
+      const existing = await storage.getUserByUsername(username);
+      if (existing) {
+        return res.status(409).json({
+          message: "Username already taken"
+        });
+      }
+
+      // Dois cadastros simultâneos do mesmo nome passam pela verificação acima; o segundo esbarra na
+      // unicidade do nome no armazenamento e também recebe 409
+      let user: User;
+      try {
+        user = await storage.createUser({
+          username,
+          password: await hashPassword(password)
+        });
+      } catch (error) {
+        if (await storage.getUserByUsername(username)) {
+          return res.status(409).json({
+            message: "Username already taken"
+          });
+        }
+        throw error;
+      }
+
+      req.session.userId = user.id;
+
+      return res.status(201).json({
+        id: user.id,
+        username: user.username
+      });
+    } catch (error) {
+      console.error("Error registering user:", error);
+      return res.status(500).json({ message: "Failed to register user" });
+    }
+  });
+
   router.post("/auth/login", async (req: Request, res: Response) => {
     const { username, password } = req.body;
 
@@ -89,20 +288,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     }
 
-    const user = await storage.getUserByUsername(username);
+    try {
+      const user = await storage.getUserByUsername(username);
 
-    if (!user || user.password !== password) {
-      return res.status(401).json({
-        message: "Invalid credentials"
-      });
-    }
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return res.status(401).json({
+          message: "Invalid credentials"
+        });
+      }
 
-    req.session.userId = user.id;
+      // Usuários gravados com a senha em texto puro passam a ter o hash no primeiro login
+      if (isLegacyPassword(user.password)) {
+        await storage.updateUserPassword(user.id, await hashPassword(password));
+      }
 
-    return res.status(200).json({
-      id: user.id,
-      username: user.username
-    });
+      req.session.userId = user.id;
+
+      return res.status(200).json({
+        id: user.id,
+        username: user.username
+      });
+    } catch (error) {
+      console.error("Error logging in:", error);
+      return res.status(500).json({ message: "Failed to login" });
+    }
   });
 
   // Rota de logout
@@ -115,6 +324,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // Rota para alteração de senha do usuário autenticado
+  router.post("/auth/change-password", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const changePasswordSchema = z.object({
+      currentPassword: z.string().min(1),
+      newPassword: z.string().min(6)
+    });
+
+    const parsed = changePasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: "New password must have at least 6 characters"
+      });
+    }
+
+    const { currentPassword, newPassword } = parsed.data;
+
+    try {
+      if (!(await verifyPassword(currentPassword, req.user.password))) {
+        return res.status(401).json({
+          message: "Current password is incorrect"
+        });
+      }
+
+      await storage.updateUserPassword(req.user.id, await hashPassword(newPassword));
+      res.status(200).json({ message: "Password changed successfully" });
+    } catch (error) {
+      console.error("Error changing password:", error);
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+
+  // Prescrição quinquenal do processo: data do ajuizamento e exclusão dos meses prescritos
+  const prescriptionResponse = (user: User) => ({
+    filingDate: user.filingDate,
+    excludePrescribed: user.excludePrescribed,
+    limit: user.filingDate ? prescriptionLimit(user.filingDate) : null
+  });
+
+  router.get("/prescription", requireAuth, (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    res.status(200).json(prescriptionResponse(req.user));
+  });
+
+  router.put("/prescription", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const prescriptionSchema = z.object({
+      filingDate: z.string()
+        .regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Expected YYYY-MM-DD" })
+        .refine(date => !isNaN(Date.parse(date)) && new Date(date).toISOString().startsWith(date), { message: "Invalid date" })
+        .nullable(),
+      excludePrescribed: z.boolean().default(false)
+    });
+
+    const parsed = prescriptionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid prescription data", errors: parsed.error.errors });
+    }
+
+    const user = await storage.updateUserPrescription(req.user.id, parsed.data);
+    res.status(200).json(prescriptionResponse(user!));
+  });
+
   // Rota para verificar autenticação
   router.get("/auth/check", requireAuth, (req: Request, res: Response) => {
     if (!req.user) {
@@ -315,472 +596,966 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.status(200).json({ message: "Code group deleted successfully" });
   });
 
-  // Rota para processar PDF
-  router.post("/process-pdf", requireAuth, upload.single("pdf"), async (req: Request, res: Response) => {
+  // Rotas das séries de valores devidos (comparação devido x pago)
+  router.get("/due-series", requireAuth, async (req: Request, res: Response) => {
     if (!req.user) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
-    if (!req.file) {
-      return res.status(400).json({ message: "No file uploaded" });
+    const series = await storage.getDueSeriesByUserId(req.user.id);
+    res.status(200).json(series);
+  });
+
+  // Criar série de valores devidos
+  router.post("/due-series", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
     }
 
-    const { source, codes } = req.body;
+    try {
+      const data = dueSeriesSchema.parse(req.body);
+      const series = await storage.createDueSeries({
+        ...toDueSeriesFields(data),
+        userId: req.user.id,
+        column: data.column,
+        method: data.method
+      });
 
-    if (!source || !codes) {
-      return res.status(400).json({ message: "Source and codes are required" });
+      res.status(201).json(series);
+    } catch (error) {
+      res.status(400).json({
+        message: "Invalid due series data",
+        ...(error instanceof Error && !(error instanceof z.ZodError) ? { error: error.message } : {})
+      });
     }
+  });
 
-    // Validação da fonte
-    if (source !== "ERP" && source !== "RH") {
-      return res.status(400).json({ message: "Invalid source. Must be 'ERP' or 'RH'" });
+  // Atualizar série de valores devidos
+  router.put("/due-series/:id", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
     }
 
-    // Processamento dos códigos
-    console.log('Códigos recebidos:', codes);
-    const codesList = (codes as string).split(/[\s,]+/).filter(Boolean);
-    console.log('Códigos processados:', codesList);
-
-    if (codesList.length === 0) {
-      return res.status(400).json({ message: "No valid codes provided" });
-    }
+    const id = parseInt(req.params.id);
 
     try {
-      console.log('Processando PDF com códigos:', codesList);
-      const results = source === 'ERP'
-        ? await processERPPDF(req.file.buffer, codesList, source as PDFSource)
-        : await processRHPDF(req.file.buffer, codesList);
-      console.log('Resultado do processamento (múltiplas páginas):', JSON.stringify(results, null, 2));
+      const data = dueSeriesSchema.partial().parse(req.body);
 
-      // Processamento e salvamento dos resultados
-      let successCount = 0;
+      const series = await storage.getDueSeriesById(id);
 
-      for (const result of results) {
-        if (result.date && result.items.length > 0) {
-          console.log(`Salvando dados processados da data ${result.date} na base`);
-          await storage.createPayrollData({
-            userId: req.user.id,
-            date: result.date,
-            source,
-            codeData: JSON.stringify(result.items)
-          });
-          successCount++;
-        } else {
-          console.log(`Nenhum item encontrado ou data inválida para um dos resultados`);
-        }
+      if (!series) {
+        return res.status(404).json({ message: "Due series not found" });
       }
 
-      if (successCount === 0) {
-        console.log('Não foi possível extrair nenhum dado válido do PDF');
-      } else {
-        console.log(`${successCount} páginas do PDF foram processadas com sucesso`);
+      if (series.userId !== req.user.id) {
+        return res.status(403).json({ message: "Forbidden" });
       }
 
-      res.status(200).json(results[0] || { date: '', items: [], source });
+      const updatedSeries = await storage.updateDueSeries(id, toDueSeriesFields(data, series));
+      res.status(200).json(updatedSeries);
     } catch (error) {
-      console.error("PDF processing error:", error);
-      console.log("PDF content sample:", req.file.buffer.toString('utf-8').substring(0, 1000));
-      res.status(500).json({ message: "Failed to process PDF" });
+      res.status(400).json({
+        message: "Invalid due series data",
+        ...(error instanceof Error && !(error instanceof z.ZodError) ? { error: error.message } : {})
+      });
     }
   });
 
-  // Rota para obter dados consolidados da folha de pagamento
-  router.get("/payroll-data", requireAuth, async (req: Request, res: Response) => {
+  // Excluir série de valores devidos
+  router.delete("/due-series/:id", requireAuth, async (req: Request, res: Response) => {
     if (!req.user) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
-    try {
-      const payrollData = await storage.getPayrollDataByUserId(req.user.id);
-      const codeGroups = await storage.getCodeGroupsByUserId(req.user.id);
-
-      // Mapeamento de códigos para exibição
-      const codeToDisplayMap = new Map<string, string>();
-      
-      // Primeiro, mapear códigos predefinidos
-      predefinedCodes.forEach(pc => {
-        const codes = pc.code.split(/[\s,]+/).filter(Boolean);
-        codes.forEach(code => {
-          codeToDisplayMap.set(code.trim(), pc.description);
-        });
-      });
-
-      // Depois, mapear códigos de grupos personalizados
-      codeGroups.forEach(group => {
-        const codes = group.codes.split(/[\s,]+/).filter(Boolean);
-        codes.forEach(code => {
-          codeToDisplayMap.set(code.trim(), group.displayName);
-        });
-      });
+    const id = parseInt(req.params.id);
+    const series = await storage.getDueSeriesById(id);
 
-      // Consolidação dos dados
-      const consolidatedData: PayrollResult[] = [];
-      const uniqueDates = new Set<string>();
-      const uniqueDisplayCodes = new Set<string>();
-      const codeDescriptions = new Map<string, string>();
+    if (!series) {
+      return res.status(404).json({ message: "Due series not found" });
+    }
 
-      // Coleta de datas e códigos únicos
-      payrollData.forEach(data => {
-        uniqueDates.add(data.date);
+    if (series.userId !== req.user.id) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
 
-        const items = JSON.parse(data.codeData as string) as ExtractedPayrollItem[];
-        items.forEach(item => {
-          const displayName = codeToDisplayMap.get(item.code) || item.code;
-          uniqueDisplayCodes.add(displayName);
-          codeDescriptions.set(displayName, displayName);
-        });
-      });
+    await storage.deleteDueSeries(id);
+    res.status(200).json({ message: "Due series deleted successfully" });
+  });
 
-      // Criação dos resultados consolidados
-      uniqueDates.forEach(date => {
-        const result: PayrollResult = { date };
+  // Lista os índices de correção monetária e o período de cada série importada
+  router.get("/price-indexes", requireAuth, (_req: Request, res: Response) => {
+    res.status(200).json(priceIndexes.list());
+  });
 
-        uniqueDisplayCodes.forEach(displayCode => {
-          result[displayCode] = 0;
-        });
+  // Lista as versões da tabela progressiva mensal do IRRF, em ordem de vigência
+  router.get("/irrf-tables", requireAuth, (_req: Request, res: Response) => {
+    res.status(200).json(irrfTables.list());
+  });
 
-        payrollData
-          .filter(data => data.date === date)
-          .forEach(data => {
-            const items = JSON.parse(data.codeData as string) as ExtractedPayrollItem[];
-
-            items.forEach(item => {
-              const displayCode = codeToDisplayMap.get(item.code) || item.code;
-              if (typeof result[displayCode] === 'number') {
-                result[displayCode] = (result[displayCode] as number) + item.value;
-              } else {
-                result[displayCode] = item.value;
-              }
-            });
-          });
+  // Lista os perfis de layout disponíveis para extração
+  router.get("/layout-profiles", requireAuth, (_req: Request, res: Response) => {
+    res.status(200).json(layoutProfiles.list());
+  });
 
-        consolidatedData.push(result);
-      });
+  // Rota para processar PDF
+  router.post("/process-pdf", requireAuth, upload.single("pdf"), async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
 
-      const codeInfo = Array.from(uniqueDisplayCodes).map(displayCode => ({
-        code: displayCode,
-        description: codeDescriptions.get(displayCode) || displayCode
-      }));
+    if (!req.file) {
+      return res.status(400).json({ message: "No file uploaded" });
+    }
 
-      res.status(200).json({
-        data: consolidatedData,
-        codes: Array.from(uniqueDisplayCodes),
-        codeInfo: codeInfo
-      });
+    let options: ExtractionOptions;
+    try {
+      options = parseExtractionOptions(req.body, true);
     } catch (error) {
-      console.error("Error fetching payroll data:", error);
-      res.status(500).json({ message: "Failed to fetch payroll data" });
+      return res.status(400).json({ message: (error as Error).message });
     }
-  });
+    const { profile, codes: codesList, duplicateMode } = options;
+
+    if (options.discover) {
+      try {
+        const payslips: ProcessedPayslip[] = [];
+        for (const file of expandUploadedFiles([{ fileName: req.file.originalname, buffer: req.file.buffer }])) {
+          const extraction = await processPayslipFile(file.buffer, null, profile);
+          payslips.push(...withFileName(extraction.payslips, file.fileName));
+        }
 
-  // Rota para limpar dados da folha de pagamento
-  router.post("/payroll-data/clear", requireAuth, async (req: Request, res: Response) => {
-    if (!req.user) {
-      return res.status(401).json({ message: "Unauthorized" });
+        const codeGroups = await storage.getCodeGroupsByUserId(req.user.id);
+        return res.status(200).json({ catalogue: buildCodeCatalogue(payslips, buildCodeToDisplayMap(codeGroups)) });
+      } catch (error) {
+        console.error("Code discovery error:", error);
+        return res.status(500).json({ message: "Failed to discover codes" });
+      }
     }
 
     try {
-      const deleted = await storage.clearPayrollDataByUserId(req.user.id);
+      // Sem escolha do usuário, o reenvio de um arquivo já importado é recusado para que ele decida o que fazer
+      if (duplicateMode === 'ask') {
+        const duplicates = findDuplicateFiles(
+          await storage.getPayrollDataByUserId(req.user.id),
+          [{ fileName: req.file.originalname, buffer: req.file.buffer }]
+        );
+        if (duplicates.length > 0) {
+          return res.status(409).json({ message: "File was already imported", duplicates });
+        }
+      }
 
-      if (deleted) {
-        res.status(200).json({ message: "All payroll data cleared successfully" });
+      console.log(`Processando PDF com ${codesList ? codesList.length : 'todos os'} códigos`);
+      const extraction = await processPayslipFile(req.file.buffer, codesList, profile);
+      const results = withFileName(extraction.payslips, req.file.originalname, hashContent(req.file.buffer));
+      console.log(`Processamento concluído: ${results.length} contracheques extraídos do PDF`);
+
+      // O mesmo contracheque pode já ter sido importado a partir de outro arquivo: só as páginas o revelam
+      if (duplicateMode === 'ask') {
+        const duplicates = findDuplicatePayslips(await storage.getPayrollDataByUserId(req.user.id), results);
+        if (duplicates.length > 0) {
+          return res.status(409).json({ message: "Payslips were already imported", duplicates });
+        }
+      }
+
+      // O documento original só é guardado se algum contracheque dele for de fato gravado
+      const selection = await selectPayrollRows(req.user.id, toPayrollDataRows(req.user.id, results), duplicateMode);
+      const extracted = results.filter(result => result.date && result.items.length > 0);
+      await storeSourceDocuments(req.user.id, [{ fileName: req.file.originalname, buffer: req.file.buffer }], [{
+        summary: {
+          fileName: req.file.originalname,
+          dates: extracted.map(result => result.date),
+          itemsExtracted: extracted.reduce((total, result) => total + result.items.length, 0),
+          diagnostics: extraction.diagnostics
+        },
+        results: extracted
+      }], selection.rows);
+
+      // Salvamento dos resultados
+      const { saved, skipped, replaced } = await savePayrollRows(selection);
+      const successCount = saved.length;
+
+      if (successCount === 0) {
+        console.log('Não foi possível extrair nenhum dado válido do PDF');
       } else {
-        res.status(500).json({ message: "Failed to clear some payroll data" });
+        console.log(`${successCount} páginas do PDF foram processadas com sucesso`);
       }
+
+      res.status(200).json({
+        payslips: results,
+        diagnostics: {
+          ...extraction.diagnostics,
+          persistedCount: successCount,
+          skippedCount: skipped,
+          replacedCount: replaced
+        }
+      });
     } catch (error) {
-      console.error("Error clearing payroll data:", error);
-      res.status(500).json({ message: "Failed to clear payroll data" });
+      console.error("PDF processing error:", error);
+      res.status(500).json({ message: "Failed to process PDF" });
     }
   });
 
-  // Rota para exportar XLSX
-  router.get("/export/csv", requireAuth, async (req: Request, res: Response) => {
+  // Rota para processar vários PDFs (ou ZIPs com PDFs) em uma única requisição
+  router.post("/process-pdfs", requireAuth, batchUpload.array("pdfs", 100), async (req: Request, res: Response) => {
     if (!req.user) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
-    try {
-      const payrollData = await storage.getPayrollDataByUserId(req.user.id);
-      const codeGroups = await storage.getCodeGroupsByUserId(req.user.id);
+    const uploadedFiles = (req.files as Express.Multer.File[] | undefined) || [];
+    if (uploadedFiles.length === 0) {
+      return res.status(400).json({ message: "No files uploaded" });
+    }
 
-      // Mapeamento de códigos
-      const codeToDisplayMap = new Map<string, string>();
-      codeGroups.forEach(group => {
-        const codes = group.codes.split(/[\s,]+/).filter(Boolean);
-        codes.forEach(code => {
-          codeToDisplayMap.set(code, group.displayName);
-        });
-      });
+    let options: ExtractionOptions;
+    try {
+      options = parseExtractionOptions(req.body);
+    } catch (error) {
+      return res.status(400).json({ message: (error as Error).message });
+    }
+    const { profile, codes: codesList, duplicateMode } = options;
 
-      // Preparação dos dados para CSV
-      const uniqueDates = new Set<string>();
-      const advantagesCodes = new Set<string>();
-      const discountsCodes = new Set<string>();
-      const codeDescriptions = new Map<string, string>();
-      const consolidatedByDate = new Map<string, { advantages: Map<string, number>, discounts: Map<string, number> }>();
+    try {
+      const files = expandUploadedFiles(uploadedFiles.map(file => ({
+        fileName: file.originalname,
+        buffer: file.buffer
+      })));
 
-      payrollData.forEach(data => {
-        uniqueDates.add(data.date);
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No PDF files found in upload" });
+      }
 
-        if (!consolidatedByDate.has(data.date)) {
-          consolidatedByDate.set(data.date, {
-            advantages: new Map<string, number>(),
-            discounts: new Map<string, number>()
-          });
+      if (duplicateMode === 'ask') {
+        const duplicates = findDuplicateFiles(await storage.getPayrollDataByUserId(req.user.id), files);
+        if (duplicates.length > 0) {
+          return res.status(409).json({ message: "Some files were already imported", duplicates });
         }
+      }
 
-        const items = JSON.parse(data.codeData as string) as ExtractedPayrollItem[];
-        items.forEach(item => {
-          const displayCode = codeToDisplayMap.get(item.code) || item.code;
-          const isDiscount = predefinedCodes.find(pc => 
-            pc.code.split(/[\s,]+/).some(c => c.trim() === item.code) && 
-            pc.category === 'DESCONTOS'
-          );
-
-          if (isDiscount) {
-            discountsCodes.add(displayCode);
-          } else {
-            advantagesCodes.add(displayCode);
-          }
-
-          if (item.description) {
-            if (codeToDisplayMap.has(item.code)) {
-              codeDescriptions.set(displayCode, displayCode);
-            } else {
-              codeDescriptions.set(displayCode, item.description);
-            }
-          }
+      console.log(`Processando lote com ${files.length} arquivos`);
+      const processed = await processPayslipBatch(files, codesList, profile);
 
-          const dateValues = consolidatedByDate.get(data.date)!;
-          const targetMap = isDiscount ? dateValues.discounts : dateValues.advantages;
-          const currentValue = targetMap.get(displayCode) || 0;
-          targetMap.set(displayCode, currentValue + item.value);
-        });
-      });
+      if (duplicateMode === 'ask') {
+        const duplicates = findDuplicatePayslips(
+          await storage.getPayrollDataByUserId(req.user.id),
+          processed.flatMap(file => file.results)
+        );
+        if (duplicates.length > 0) {
+          return res.status(409).json({ message: "Some payslips were already imported", duplicates });
+        }
+      }
 
-      // Função de formatação de moeda
-      const formatCurrency = (value: number): string => {
-        return `R$ ${value.toFixed(2).replace('.', ',')}`;
-      };
-
-      // Organizar códigos por categoria
-      const advantagesArray: string[] = [];
-      const discountsArray: string[] = [];
-      
-      predefinedCodes.forEach(code => {
-        const codes = code.code.split(/[\s,]+/).filter(Boolean);
-        codes.forEach(c => {
-          if (code.category === 'PROVENTOS') {
-            advantagesArray.push(c.trim());
-          } else if (code.category === 'DESCONTOS') {
-            discountsArray.push(c.trim());
-          }
-        });
-      });
+      // Salva todos os resultados do lote de uma só vez, guardando apenas os documentos com contracheques gravados
+      const rows = toPayrollDataRows(req.user.id, processed.flatMap(file => file.results));
+      const selection = await selectPayrollRows(req.user.id, rows, duplicateMode);
+      await storeSourceDocuments(req.user.id, files, processed, selection.rows);
+      const { saved, skipped, replaced } = await savePayrollRows(selection);
 
-      // Preparar dados para planilha de vantagens
-      const advantagesData: any[] = [];
-      
-      // Mapear códigos para suas descrições predefinidas
-      const advantageCodeMap = new Map<string, string>();
-      predefinedCodes.forEach(code => {
-        if (code.category === 'PROVENTOS') {
-          code.code.split(/[,\s]+/).forEach(c => {
-            advantageCodeMap.set(c.trim(), code.description);
-          });
-        }
+      const summaries = processed.map(file => file.summary);
+      res.status(200).json({
+        files: summaries,
+        totalFiles: summaries.length,
+        failedFiles: summaries.filter(summary => summary.error).length,
+        savedCount: saved.length,
+        skippedCount: skipped,
+        replacedCount: replaced
       });
+    } catch (error) {
+      console.error("Batch PDF processing error:", error);
+      res.status(500).json({ message: "Failed to process PDF batch" });
+    }
+  });
 
-      // Criar cabeçalhos únicos baseados nos códigos predefinidos
-      const uniqueAdvantages = Array.from(new Set(
-        advantagesArray.map(code => {
-          return advantageCodeMap.get(code) || code;
-        })
-      ));
-
-      const advantagesHeaders = ['DATA', ...uniqueAdvantages, 'Total Vantagens'];
-      advantagesData.push(advantagesHeaders);
-
-      // Gerar linhas de dados
-      uniqueDates.forEach(date => {
-        const row = [date];
-        const dateData = payrollData.filter(data => data.date === date);
-        let totalAdvantages = 0;
-
-        uniqueAdvantages.forEach(description => {
-          let value = 0;
-          dateData.forEach(data => {
-            const items = JSON.parse(data.codeData as string) as ExtractedPayrollItem[];
-            items.forEach(item => {
-              if (advantageCodeMap.get(item.code) === description || 
-                  (!advantageCodeMap.has(item.code) && item.code === description)) {
-                value += item.value;
-                totalAdvantages += item.value;
-              }
-            });
-          });
-          row.push(value);
-        });
-        row.push(totalAdvantages);
-        advantagesData.push(row);
-      });
+  // Rota para criar um job de extração em segundo plano (um ou vários PDFs/ZIPs)
+  router.post("/jobs", requireAuth, batchUpload.array("pdfs", 100), async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
 
-      // Preparar dados para planilha de descontos
-      const discountsData: any[] = [];
-      
-      // Mapear códigos para suas descrições predefinidas
-      const discountCodeMap = new Map<string, string>();
-      predefinedCodes.forEach(code => {
-        if (code.category === 'DESCONTOS') {
-          code.code.split(/[,\s]+/).forEach(c => {
-            discountCodeMap.set(c.trim(), code.description);
-          });
-        }
-      });
+    const uploadedFiles = (req.files as Express.Multer.File[] | undefined) || [];
+    if (uploadedFiles.length === 0) {
+      return res.status(400).json({ message: "No files uploaded" });
+    }
 
-      // Criar cabeçalhos únicos baseados nos códigos predefinidos
-      const uniqueDiscounts = Array.from(new Set(
-        discountsArray.map(code => {
-          return discountCodeMap.get(code) || code;
-        })
-      ));
-
-      const discountsHeaders = ['DATA', ...uniqueDiscounts, 'Total Descontos'];
-      discountsData.push(discountsHeaders);
-
-      // Gerar linhas de dados
-      uniqueDates.forEach(date => {
-        const row = [date];
-        const dateData = payrollData.filter(data => data.date === date);
-        let totalDiscounts = 0;
-
-        uniqueDiscounts.forEach(description => {
-          let value = 0;
-          dateData.forEach(data => {
-            const items = JSON.parse(data.codeData as string) as ExtractedPayrollItem[];
-            items.forEach(item => {
-              if (discountCodeMap.get(item.code) === description || 
-                  (!discountCodeMap.has(item.code) && item.code === description)) {
-                value += item.value;
-                totalDiscounts += item.value;
-              }
-            });
-          });
-          row.push(value);
-        });
-        row.push(totalDiscounts);
-        discountsData.push(row);
-      });
+    let options: ExtractionOptions;
+    try {
+      options = parseExtractionOptions(req.body);
+    } catch (error) {
+      return res.status(400).json({ message: (error as Error).message });
+    }
+    const { profile, codes: codesList, duplicateMode } = options;
 
-      // Criar workbook com duas planilhas
-      const wb = XLSX.utils.book_new();
-      
-      const wsVantagens = XLSX.utils.aoa_to_sheet(advantagesData);
-      const wsDescontos = XLSX.utils.aoa_to_sheet(discountsData);
-
-      // Ajustar formato das células para moeda
-      const range = XLSX.utils.decode_range(wsVantagens['!ref']);
-      for(let R = 1; R <= range.e.r; ++R) {
-        for(let C = 1; C <= range.e.c; ++C) {
-          const cell = XLSX.utils.encode_cell({r: R, c: C});
-          if(wsVantagens[cell]) {
-            wsVantagens[cell].z = '#,##0.00';
-          }
-        }
+    try {
+      const files = expandUploadedFiles(uploadedFiles.map(file => ({
+        fileName: file.originalname,
+        buffer: file.buffer
+      })));
+
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No PDF files found in upload" });
       }
 
-      const rangeDesc = XLSX.utils.decode_range(wsDescontos['!ref']);
-      for(let R = 1; R <= rangeDesc.e.r; ++R) {
-        for(let C = 1; C <= rangeDesc.e.c; ++C) {
-          const cell = XLSX.utils.encode_cell({r: R, c: C});
-          if(wsDescontos[cell]) {
-            wsDescontos[cell].z = '#,##0.00';
-          }
+      if (duplicateMode === 'ask') {
+        const duplicates = findDuplicateFiles(await storage.getPayrollDataByUserId(req.user.id), files);
+        if (duplicates.length > 0) {
+          return res.status(409).json({ message: "Some files were already imported", duplicates });
         }
       }
 
-      XLSX.utils.book_append_sheet(wb, wsVantagens, "VANTAGENS");
-      XLSX.utils.book_append_sheet(wb, wsDescontos, "DESCONTOS");
+      const job = jobQueue.enqueue(req.user.id, files, codesList, profile, duplicateMode);
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Error creating extraction job:", error);
+      res.status(400).json({ message: "Failed to read uploaded files" });
+    }
+  });
 
-      // Gerar buffer do arquivo XLSX
-      const buf = XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' });
+  // Lista os jobs de extração do usuário
+  router.get("/jobs", requireAuth, (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
 
-      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
-      res.setHeader("Content-Disposition", "attachment; filename=contracheques.xlsx");
-      res.status(200).send(buf);
+    res.status(200).json(jobQueue.getJobsByUserId(req.user.id));
+  });
+
+  // Consulta o andamento de um job de extração
+  router.get("/jobs/:id", requireAuth, (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const job = jobQueue.getJob(req.params.id, req.user.id);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    res.status(200).json(job);
+  });
+
+  // Cancela um job de extração pendente ou em execução
+  router.post("/jobs/:id/cancel", requireAuth, (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const job = jobQueue.cancel(req.params.id, req.user.id);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    res.status(200).json(job);
+  });
+
+  // Grava um job que encontrou contracheques já importados, ignorando-os ou substituindo-os
+  router.post("/jobs/:id/resolve", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const duplicateMode = req.body?.onDuplicate;
+    if (duplicateMode !== 'skip' && duplicateMode !== 'replace') {
+      return res.status(400).json({ message: `Unknown duplicate mode: ${duplicateMode}` });
+    }
+
+    const current = jobQueue.getJob(req.params.id, req.user.id);
+    if (!current) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    if (current.status !== 'conflict') {
+      return res.status(409).json({ message: "Job is not waiting for a duplicate decision" });
+    }
+
+    // Falhas ao gravar os contracheques ficam registradas no próprio job, como nos demais jobs (status failed)
+    try {
+      const job = await jobQueue.resolve(req.params.id, req.user.id, duplicateMode);
+      res.status(200).json(job);
     } catch (error) {
-      console.error("Error exporting CSV:", error);
-      res.status(500).json({ message: "Failed to export data as CSV" });
+      console.error("Error resolving job:", error);
+      res.status(500).json({ message: "Failed to resolve job" });
     }
   });
 
-  // Rota para exportar JSON
-  router.get("/export/json", requireAuth, async (req: Request, res: Response) => {
+  // Rota para obter dados consolidados da folha de pagamento
+  router.get("/payroll-data", requireAuth, async (req: Request, res: Response) => {
     if (!req.user) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
+    const correctionQuery = correctionQuerySchema.safeParse(req.query);
+    if (!correctionQuery.success) {
+      return res.status(400).json({ message: "Invalid monetary correction options", errors: correctionQuery.error.errors });
+    }
+
     try {
-      const payrollData = await storage.getPayrollDataByUserId(req.user.id);
+      const overrides = await storage.getPayrollOverridesByUserId(req.user.id);
+      const payrollData = applyOverrides(await storage.getPayrollDataByUserId(req.user.id), overrides);
       const codeGroups = await storage.getCodeGroupsByUserId(req.user.id);
 
-      // Mapeamento de códigos
-      const codeToDisplayMap = new Map<string, string>();
-      codeGroups.forEach(group => {
-        const codes = group.codes.split(/[\s,]+/).filter(Boolean);
-        codes.forEach(code => {
-          codeToDisplayMap.set(code, group.displayName);
-        });
+      // Mapeamento de códigos para exibição
+      const codeToDisplayMap = buildCodeToDisplayMap(codeGroups);
+
+      // Com separateTypes, cada tipo de folha da competência (normal, suplementar, 13º...) é uma linha própria
+      const separateTypes = req.query.separateTypes === 'true';
+      const rowKey = (data: PayrollData) => payrollRowKey(data, separateTypes);
+
+      // Consolidação dos dados, a mesma usada nas exportações
+      const consolidated = consolidatePayroll(payrollData, codeGroups, {
+        separateTypes,
+        dropEmptyColumns: req.query.dropEmpty === 'true',
+        continuousTimeline: req.query.continuous === 'true',
+        prescription: prescriptionOf(req.user)
       });
+      const prescription = consolidated.prescription;
+      const displayCodes = consolidated.columns.map(column => column.name);
 
-      // Preparação dos dados para JSON
-      const uniqueDates = new Set<string>();
-      const uniqueDisplayCodes = new Set<string>();
-      const codeDescriptions = new Map<string, string>();
-      const consolidatedByDate = new Map<string, Map<string, number>>();
-      const consolidatedData: any[] = [];
+      // Os valores da tabela continuam nominais; a correção aparece em colunas de totais corrigidos
+      const corrected = applyRequestedCorrection(consolidated, correctionQuery.data);
+      if (corrected.missingMonths.length > 0) {
+        return missingIndexMonths(res, correctionQuery.data.index, corrected.missingMonths);
+      }
 
-      payrollData.forEach(data => {
-        uniqueDates.add(data.date);
+      const codeInfo = displayCodes.map(displayCode => ({
+        code: displayCode,
+        description: displayCode
+      }));
 
-        if (!consolidatedByDate.has(data.date)) {
-          consolidatedByDate.set(data.date, new Map<string, number>());
-        }
+      // Células com valores corrigidos manualmente
+      const overriddenCells = Array.from(getActiveOverrides(overrides).values()).map(override => ({
+        date: override.date,
+        ...(separateTypes ? { payrollType: override.payrollType } : {}),
+        column: codeToDisplayMap.get(override.code) || override.code
+      }));
 
-        const items = JSON.parse(data.codeData as string) as ExtractedPayrollItem[];
-        items.forEach(item => {
-          const displayCode = codeToDisplayMap.get(item.code) || item.code;
-          uniqueDisplayCodes.add(displayCode);
+      // Células com itens lidos por OCR, com a menor confiança entre eles
+      const lowConfidence = new Map<string, { date: string; payrollType?: string; column: string; confidence: number }>();
+      payrollData.forEach(data => {
+        data.codeData
+          .filter(item => item.confidence !== undefined)
+          .forEach(item => {
+            const column = codeToDisplayMap.get(item.code) || item.code;
+            const key = `${rowKey(data)}|${column}`;
+            const cell = lowConfidence.get(key);
+            if (!cell || item.confidence! < cell.confidence) {
+              lowConfidence.set(key, {
+                date: data.date,
+                ...(separateTypes ? { payrollType: data.payrollType } : {}),
+                column,
+                confidence: item.confidence!
+              });
+            }
+          });
+      });
 
-          if (item.description) {
-            if (codeToDisplayMap.has(item.code)) {
-              codeDescriptions.set(displayCode, displayCode);
-            } else {
-              codeDescriptions.set(displayCode, item.description);
+      res.status(200).json({
+        data: consolidated.rows,
+        codes: displayCodes,
+        codeInfo: codeInfo,
+        overriddenCells,
+        lowConfidenceCells: Array.from(lowConfidence.values()),
+        monthlyTotals: computeMonthlyTotals(payrollData, separateTypes)
+          .filter(totals => !prescription?.excluded || !prescription.months.includes(totals.date)),
+        missingMonths: consolidated.missingMonths,
+        prescription: prescription ?? null,
+        correction: corrected.payroll.correction
+          ? {
+              index: corrected.payroll.correction.index,
+              target: corrected.payroll.correction.target,
+              totals: correctedTotals(corrected.payroll)
             }
-          }
-        });
+          : null
       });
+    } catch (error) {
+      console.error("Error fetching payroll data:", error);
+      res.status(500).json({ message: "Failed to fetch payroll data" });
+    }
+  });
 
-      // Geração do JSON
-      uniqueDates.forEach(date => {
-        const row: any = { date };
+  // Rota para conferir, por competência, a soma dos itens extraídos com os totais impressos nos contracheques
+  router.get("/payroll-data/reconciliation", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
 
-        const dateItems = payrollData
-          .filter(data => data.date === date)
-          .flatMap(data => JSON.parse(data.codeData as string) as ExtractedPayrollItem[]);
+    try {
+      const payrollData = await getEffectivePayrollData(req.user.id);
+      const separateTypes = req.query.separateTypes === 'true';
+      res.status(200).json(buildReconciliationReport(computeMonthlyTotals(payrollData, separateTypes)));
+    } catch (error) {
+      console.error("Error building reconciliation report:", error);
+      res.status(500).json({ message: "Failed to build reconciliation report" });
+    }
+  });
 
-        dateItems.forEach(item => {
-          const displayCode = codeToDisplayMap.get(item.code) || item.code;
-          const formattedValue = `R$ ${item.value.toFixed(2).replace('.', ',')}`;
-          row[item.description] = formattedValue;
+  // Rota para revisar a origem de uma célula da tabela (itens, trechos e páginas do PDF)
+  router.get("/payroll-data/sources", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const querySchema = z.object({
+      date: z.string().min(1),
+      column: z.string().min(1),
+      payrollType: z.string().optional() // Restringe a um tipo de folha quando a tabela os exibe separadamente
+    });
+
+    const parsed = querySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Date and column are required" });
+    }
+
+    const { date, column, payrollType } = parsed.data;
+
+    try {
+      const payrollData = await storage.getPayrollDataByUserId(req.user.id);
+      const codeGroups = await storage.getCodeGroupsByUserId(req.user.id);
+      const codeToDisplayMap = buildCodeToDisplayMap(codeGroups);
+
+      const items: (ExtractedPayrollItem & { payrollDataId: number; source: string; payrollType: string; documentId?: string })[] = [];
+      const pages: SourcePage[] = [];
+
+      payrollData
+        .filter(data => data.date === date && (!payrollType || data.payrollType === payrollType))
+        .forEach(data => {
+          const rowPages = data.sourcePages ?? [];
+
+          data.codeData
+            .filter(item => (codeToDisplayMap.get(item.code) || item.code) === column)
+            .forEach(item => {
+              items.push({
+                ...item,
+                payrollDataId: data.id,
+                source: data.source,
+                payrollType: data.payrollType,
+                documentId: data.documentId ?? undefined
+              });
+
+              // Inclui apenas as páginas que contribuíram para o item
+              (item.sources || []).forEach(itemSource => {
+                const page = rowPages.find(p =>
+                  p.pageNumber === itemSource.pageNumber && p.fileName === itemSource.fileName
+                );
+                if (page && !pages.includes(page)) {
+                  pages.push(page);
+                }
+              });
+            });
         });
 
-        consolidatedData.push(row);
+      res.status(200).json({ date, column, items, pages });
+    } catch (error) {
+      console.error("Error fetching payroll sources:", error);
+      res.status(500).json({ message: "Failed to fetch payroll sources" });
+    }
+  });
+
+  // Rota para listar os itens de uma competência com valores extraídos e corrigidos
+  router.get("/payroll-data/items", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const date = typeof req.query.date === "string" ? req.query.date : "";
+    if (!date) {
+      return res.status(400).json({ message: "Date is required" });
+    }
+
+    try {
+      const payrollData = await storage.getPayrollDataByUserId(req.user.id);
+      const overrides = await storage.getPayrollOverridesByUserId(req.user.id);
+
+      res.status(200).json(getPayrollItemStates(payrollData, overrides, date));
+    } catch (error) {
+      console.error("Error fetching payroll items:", error);
+      res.status(500).json({ message: "Failed to fetch payroll items" });
+    }
+  });
+
+  // Rota para corrigir ou adicionar manualmente o valor de um item em uma competência
+  router.put("/payroll-data/items", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const itemSchema = z.object({
+      date: competenceSchema,
+      payrollType: payrollTypeSchema,
+      code: z.string().trim().min(1),
+      description: z.string().trim().optional(),
+      value: z.number().finite()
+    });
+
+    try {
+      const { date, payrollType, code, description, value } = itemSchema.parse(req.body);
+
+      const payrollData = await storage.getPayrollDataByUserId(req.user.id);
+      const overrides = await storage.getPayrollOverridesByUserId(req.user.id);
+      const current = getPayrollItemStates(payrollData, overrides, date)
+        .find(item => item.payrollType === payrollType && item.code === code);
+
+      const override = await storage.createPayrollOverride({
+        userId: req.user.id,
+        date,
+        payrollType,
+        code,
+        description: description || current?.description || code,
+        action: current?.extractedValue != null ? "edit" : "add",
+        originalValue: current?.extractedValue ?? null,
+        value,
+        changedBy: req.user.username
+      });
+
+      res.status(200).json(override);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid payroll item data" });
+    }
+  });
+
+  // Rota para excluir manualmente um item de uma competência
+  router.delete("/payroll-data/items", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const date = typeof req.query.date === "string" ? req.query.date : "";
+    const code = typeof req.query.code === "string" ? req.query.code : "";
+    if (!date || !code) {
+      return res.status(400).json({ message: "Date and code are required" });
+    }
+    const payrollTypeQuery = payrollTypeSchema.safeParse(req.query.payrollType);
+    if (!payrollTypeQuery.success) {
+      return res.status(400).json({ message: `Unknown payroll type: ${req.query.payrollType}` });
+    }
+    const payrollType = payrollTypeQuery.data;
+
+    try {
+      const payrollData = await storage.getPayrollDataByUserId(req.user.id);
+      const overrides = await storage.getPayrollOverridesByUserId(req.user.id);
+      const current = getPayrollItemStates(payrollData, overrides, date)
+        .find(item => item.payrollType === payrollType && item.code === code);
+
+      if (!current) {
+        return res.status(404).json({ message: "Payroll item not found" });
+      }
+
+      const override = await storage.createPayrollOverride({
+        userId: req.user.id,
+        date,
+        payrollType,
+        code,
+        description: current.description,
+        action: "delete",
+        originalValue: current.extractedValue,
+        value: null,
+        changedBy: req.user.username
+      });
+
+      res.status(200).json(override);
+    } catch (error) {
+      console.error("Error deleting payroll item:", error);
+      res.status(500).json({ message: "Failed to delete payroll item" });
+    }
+  });
+
+  // Rota para desfazer a correção de um item, voltando ao valor extraído
+  router.post("/payroll-data/items/revert", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const revertSchema = z.object({
+      date: z.string().min(1),
+      payrollType: payrollTypeSchema,
+      code: z.string().min(1)
+    });
+
+    try {
+      const { date, payrollType, code } = revertSchema.parse(req.body);
+
+      const payrollData = await storage.getPayrollDataByUserId(req.user.id);
+      const overrides = await storage.getPayrollOverridesByUserId(req.user.id);
+      const current = getPayrollItemStates(payrollData, overrides, date)
+        .find(item => item.payrollType === payrollType && item.code === code);
+
+      if (!current?.override) {
+        return res.status(404).json({ message: "No override found for this item" });
+      }
+
+      const override = await storage.createPayrollOverride({
+        userId: req.user.id,
+        date,
+        payrollType,
+        code,
+        description: current.description,
+        action: "revert",
+        originalValue: current.extractedValue,
+        value: null,
+        changedBy: req.user.username
+      });
+
+      res.status(200).json(override);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid payroll item data" });
+    }
+  });
+
+  // Rota para consultar a trilha de auditoria das correções manuais
+  router.get("/payroll-data/overrides", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const overrides = await storage.getPayrollOverridesByUserId(req.user.id);
+      res.status(200).json(overrides.slice().sort((a, b) => b.id - a.id));
+    } catch (error) {
+      console.error("Error fetching payroll overrides:", error);
+      res.status(500).json({ message: "Failed to fetch payroll overrides" });
+    }
+  });
+
+  // Lista os PDFs originais guardados no repositório de documentos do usuário
+  router.get("/documents", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const documents = await documentStore.list(req.user.id);
+      res.status(200).json({ enabled: documentStore.enabled, documents });
+    } catch (error) {
+      console.error("Error listing documents:", error);
+      res.status(500).json({ message: "Failed to list documents" });
+    }
+  });
+
+  // Baixa um PDF original do repositório de documentos
+  router.get("/documents/:id", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const document = await documentStore.get(req.user.id, req.params.id);
+      const content = document && await documentStore.read(req.user.id, document.id);
+      if (!document || !content) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      // Exibido no navegador por padrão; ?download=true força o download
+      const disposition = req.query.download === 'true' ? 'attachment' : 'inline';
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader(
+        'Content-Disposition',
+        `${disposition}; filename="document.pdf"; filename*=UTF-8''${encodeURIComponent(path.basename(document.fileName))}`
+      );
+      res.send(content);
+    } catch (error) {
+      console.error("Error reading document:", error);
+      res.status(500).json({ message: "Failed to read document" });
+    }
+  });
+
+  // Exclui um PDF original do repositório de documentos (os dados extraídos dele são mantidos)
+  router.delete("/documents/:id", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const deleted = await documentStore.delete(req.user.id, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      res.status(200).json({ message: "Document deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting document:", error);
+      res.status(500).json({ message: "Failed to delete document" });
+    }
+  });
+
+  // Rota para limpar dados da folha de pagamento
+  router.post("/payroll-data/clear", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const deleted = await storage.clearPayrollDataByUserId(req.user.id);
+      await storage.clearPayrollOverridesByUserId(req.user.id);
+
+      if (deleted) {
+        res.status(200).json({ message: "All payroll data cleared successfully" });
+      } else {
+        res.status(500).json({ message: "Failed to clear some payroll data" });
+      }
+    } catch (error) {
+      console.error("Error clearing payroll data:", error);
+      res.status(500).json({ message: "Failed to clear payroll data" });
+    }
+  });
+
+  // Rota para exportar XLSX (planilhas VANTAGENS e DESCONTOS, com as mesmas colunas da tabela)
+  router.get("/export/xlsx", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const correctionQuery = correctionQuerySchema.safeParse(req.query);
+    if (!correctionQuery.success) {
+      return res.status(400).json({ message: "Invalid monetary correction options", errors: correctionQuery.error.errors });
+    }
+
+    try {
+      const nominal = consolidatePayroll(
+        await getEffectivePayrollData(req.user.id),
+        await storage.getCodeGroupsByUserId(req.user.id),
+        {
+          separateTypes: req.query.separateTypes === 'true',
+          dropEmptyColumns: req.query.dropEmpty === 'true',
+          continuousTimeline: req.query.continuous === 'true',
+          prescription: prescriptionOf(req.user)
+        }
+      );
+
+      const { payroll: consolidated, missingMonths } = applyRequestedCorrection(nominal, correctionQuery.data);
+      if (missingMonths.length > 0) {
+        return missingIndexMonths(res, correctionQuery.data.index, missingMonths);
+      }
+
+      const wb = XLSX.utils.book_new();
+      buildCategorySheets(consolidated).forEach(sheet => {
+        XLSX.utils.book_append_sheet(wb, toWorksheet(sheet), sheet.name);
+      });
+
+      // Gerar buffer do arquivo XLSX
+      const buf = XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' });
+
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", `attachment; filename=contracheques${consolidated.correction ? '-corrigido' : ''}.xlsx`);
+      res.status(200).send(buf);
+    } catch (error) {
+      console.error("Error exporting XLSX:", error);
+      res.status(500).json({ message: "Failed to export data as XLSX" });
+    }
+  });
+
+  // Rota para exportar CSV: a tabela consolidada ou as visões VANTAGENS e DESCONTOS.
+  // O padrão é o formato pt-BR (";" e vírgula decimal); delimiter, decimal e bom ajustam o arquivo para outros programas
+  router.get("/export/csv", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const querySchema = z.object({
+      view: z.enum(['consolidado', 'vantagens', 'descontos']).default('consolidado'),
+      delimiter: z.enum([';', ',', 'tab']).default(';'),
+      decimal: z.enum([',', '.']).default(','),
+      bom: z.enum(['true', 'false']).optional(),
+      separateTypes: z.enum(['true', 'false']).optional(),
+      dropEmpty: z.enum(['true', 'false']).optional(),
+      continuous: z.enum(['true', 'false']).optional()
+    });
+
+    const parsed = querySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid CSV export options", errors: parsed.error.errors });
+    }
+
+    const correctionQuery = correctionQuerySchema.safeParse(req.query);
+    if (!correctionQuery.success) {
+      return res.status(400).json({ message: "Invalid monetary correction options", errors: correctionQuery.error.errors });
+    }
+
+    const { view, delimiter, decimal, bom } = parsed.data;
+    const options: CsvOptions = {
+      delimiter: delimiter === 'tab' ? '\t' : delimiter,
+      decimalSeparator: decimal,
+      bom: bom === 'true'
+    };
+    if (options.delimiter === options.decimalSeparator) {
+      return res.status(400).json({ message: "Delimiter and decimal separator must be different" });
+    }
+
+    try {
+      const nominal = consolidatePayroll(
+        await getEffectivePayrollData(req.user.id),
+        await storage.getCodeGroupsByUserId(req.user.id),
+        {
+          separateTypes: parsed.data.separateTypes === 'true',
+          dropEmptyColumns: parsed.data.dropEmpty === 'true',
+          continuousTimeline: parsed.data.continuous === 'true',
+          prescription: prescriptionOf(req.user)
+        }
+      );
+      const { payroll: consolidated, missingMonths } = applyRequestedCorrection(nominal, correctionQuery.data);
+      if (missingMonths.length > 0) {
+        return missingIndexMonths(res, correctionQuery.data.index, missingMonths);
+      }
+
+      const sheet = view === 'consolidado'
+        ? buildSheet('CONSOLIDADO', consolidated, consolidated.columns)
+        : buildCategorySheets(consolidated).find(categorySheet => categorySheet.name === view.toUpperCase())!;
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename=contracheques-${view}${consolidated.correction ? '-corrigido' : ''}.csv`);
+      res.status(200).send(toCsv(sheet.rows, options, sheet.columnDecimals));
+    } catch (error) {
+      console.error("Error exporting CSV:", error);
+      res.status(500).json({ message: "Failed to export data as CSV" });
+    }
+  });
+
+  // Rota para exportar JSON
+  router.get("/export/json", requireAuth, async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const correctionQuery = correctionQuerySchema.safeParse(req.query);
+    if (!correctionQuery.success) {
+      return res.status(400).json({ message: "Invalid monetary correction options", errors: correctionQuery.error.errors });
+    }
+
+    try {
+      // Com separateTypes, cada tipo de folha da competência é exportado em um registro próprio
+      const separateTypes = req.query.separateTypes === 'true';
+      const nominal = consolidatePayroll(
+        await getEffectivePayrollData(req.user.id),
+        await storage.getCodeGroupsByUserId(req.user.id),
+        {
+          separateTypes,
+          dropEmptyColumns: req.query.dropEmpty === 'true',
+          continuousTimeline: req.query.continuous === 'true',
+          prescription: prescriptionOf(req.user)
+        }
+      );
+
+      const { payroll: consolidated, missingMonths } = applyRequestedCorrection(nominal, correctionQuery.data);
+      if (missingMonths.length > 0) {
+        return missingIndexMonths(res, correctionQuery.data.index, missingMonths);
+      }
+
+      // Geração do JSON, com as colunas da tabela e valores formatados em reais (nulos nos meses sem contracheque).
+      // Com correção monetária, cada registro traz o fator aplicado e os valores já corrigidos; com a prescrição
+      // marcada, informa se a competência está prescrita
+      const consolidatedData = consolidated.rows.map(row => {
+        const missingMonth = consolidated.missingMonths.includes(row.date);
+        const record: Record<string, string | number | boolean | null> = separateTypes
+          ? { date: row.date, payrollType: missingMonth ? null : payrollTypeLabels[row.payrollType as PayrollType] }
+          : { date: row.date };
+        if (consolidated.prescription && !consolidated.prescription.excluded) {
+          record.prescribed = isMarkedPrescribed(row, consolidated);
+        }
+        if (consolidated.correction) {
+          record.correctionIndex = consolidated.correction.index;
+          record.correctionTarget = consolidated.correction.target;
+          record.correctionFactor = missingMonth ? null : parseFloat(consolidated.correction.factors[row.date].toFixed(FACTOR_DECIMALS));
+        }
+        consolidated.columns.forEach(column => {
+          record[column.name] = missingMonth ? null : `R$ ${(row[column.name] as number).toFixed(2).replace('.', ',')}`;
+        });
+        return record;
       });
 
       res.setHeader("Content-Type", "application/json");
-      res.setHeader("Content-Disposition", "attachment; filename=contracheques.json");
+      res.setHeader("Content-Disposition", `attachment; filename=contracheques${consolidated.correction ? '-corrigido' : ''}.json`);
       res.status(200).json(consolidatedData);
     } catch (error) {
       console.error("Error exporting JSON:", error);
@@ -789,6 +1564,152 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
 
+  // Diferenças entre os valores devidos (séries cadastradas) e os pagos, com reflexos, em JSON, XLSX ou CSV
+  const differencesHandler = (format: 'json' | 'xlsx' | 'csv') => async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const csvQuerySchema = z.object({
+      delimiter: z.enum([';', ',', 'tab']).default(';'),
+      decimal: z.enum([',', '.']).default(','),
+      bom: z.enum(['true', 'false']).optional()
+    });
+    const csvQuery = csvQuerySchema.safeParse(req.query);
+    if (!csvQuery.success) {
+      return res.status(400).json({ message: "Invalid CSV export options", errors: csvQuery.error.errors });
+    }
+    const csvOptions: CsvOptions = {
+      delimiter: csvQuery.data.delimiter === 'tab' ? '\t' : csvQuery.data.delimiter,
+      decimalSeparator: csvQuery.data.decimal,
+      bom: csvQuery.data.bom === 'true'
+    };
+    if (format === 'csv' && csvOptions.delimiter === csvOptions.decimalSeparator) {
+      return res.status(400).json({ message: "Delimiter and decimal separator must be different" });
+    }
+
+    try {
+      const consolidated = consolidatePayroll(
+        await getEffectivePayrollData(req.user.id),
+        await storage.getCodeGroupsByUserId(req.user.id),
+        { prescription: prescriptionOf(req.user) }
+      );
+      const differences = computeDifferences(consolidated, await storage.getDueSeriesByUserId(req.user.id));
+
+      if (format === 'json') {
+        return res.status(200).json(differences);
+      }
+
+      const sheet = buildDifferencesSheet(differences);
+      if (format === 'csv') {
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", "attachment; filename=diferencas.csv");
+        return res.status(200).send(toCsv(sheet.rows, csvOptions, sheet.columnDecimals));
+      }
+
+      const wb = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(wb, toWorksheet(sheet), sheet.name);
+      const buf = XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' });
+
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", "attachment; filename=diferencas.xlsx");
+      res.status(200).send(buf);
+    } catch (error) {
+      console.error("Error computing differences:", error);
+      res.status(500).json({ message: "Failed to compute differences" });
+    }
+  };
+
+  router.get("/differences", requireAuth, differencesHandler('json'));
+  router.get("/differences/export/xlsx", requireAuth, differencesHandler('xlsx'));
+  router.get("/differences/export/csv", requireAuth, differencesHandler('csv'));
+
+  // Juros de mora sobre os valores mensais da tabela: memória de cálculo mês a mês (JSON ou XLSX)
+  const interestHandler = (format: 'json' | 'xlsx') => async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const parsed = interestRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid interest calculation options", errors: parsed.error.errors });
+    }
+
+    try {
+      const consolidated = consolidatePayroll(
+        await getEffectivePayrollData(req.user.id),
+        await storage.getCodeGroupsByUserId(req.user.id),
+        { prescription: prescriptionOf(req.user) }
+      );
+      const { calculation, missingMonths } = calculateInterest(consolidated, parsed.data);
+      if (missingMonths.length > 0) {
+        return res.status(422).json({
+          message: `Index series have no data for ${missingMonths.join(", ")}`,
+          missingMonths
+        });
+      }
+
+      if (format === 'json') {
+        return res.status(200).json(calculation);
+      }
+
+      const sheet = buildInterestSheet(calculation);
+      const wb = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(wb, toWorksheet(sheet), sheet.name);
+      const buf = XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' });
+
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", "attachment; filename=memoria-de-calculo.xlsx");
+      res.status(200).send(buf);
+    } catch (error) {
+      console.error("Error calculating interest:", error);
+      res.status(500).json({ message: "Failed to calculate interest" });
+    }
+  };
+
+  router.post("/interest", requireAuth, interestHandler('json'));
+  router.post("/interest/xlsx", requireAuth, interestHandler('xlsx'));
+
+  // Recálculo do IRRF de cada competência pelas tabelas vigentes, comparado com o imposto extraído (JSON ou XLSX)
+  const irrfHandler = (format: 'json' | 'xlsx') => async (req: Request, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const parsed = irrfRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid IRRF calculation options", errors: parsed.error.errors });
+    }
+
+    try {
+      const consolidated = consolidatePayroll(
+        await getEffectivePayrollData(req.user.id),
+        await storage.getCodeGroupsByUserId(req.user.id),
+        { prescription: prescriptionOf(req.user) }
+      );
+      const calculation = calculateIrrf(consolidated, parsed.data);
+
+      if (format === 'json') {
+        return res.status(200).json(calculation);
+      }
+
+      const sheet = buildIrrfSheet(calculation);
+      const wb = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(wb, toWorksheet(sheet), sheet.name);
+      const buf = XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' });
+
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", "attachment; filename=conferencia-irrf.xlsx");
+      res.status(200).send(buf);
+    } catch (error) {
+      console.error("Error calculating IRRF:", error);
+      res.status(500).json({ message: "Failed to calculate IRRF" });
+    }
+  };
+
+  router.post("/irrf", requireAuth, irrfHandler('json'));
+  router.post("/irrf/xlsx", requireAuth, irrfHandler('xlsx'));
+
   // Adiciona novas rotas para verbas e modelos pré-definidos
   router.get("/predefined-codes", requireAuth, (req: Request, res: Response) => {
     if (!req.user) {
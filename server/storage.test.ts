@@ -0,0 +1,291 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import path from "path";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import type { ExtractedPayrollItem, InsertPayrollData } from "@shared/schema";
+import { DatabaseStorage, MemStorage, type IStorage } from "./storage";
+
+// Contrato do armazenamento: as duas implementações precisam se comportar da mesma forma. O DatabaseStorage roda
+// sobre o PGlite (Postgres em memória) com as migrações do projeto aplicadas
+const backends: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DatabaseStorage", async () => {
+    const db = drizzle(new PGlite(), { schema });
+    await migrate(db, { migrationsFolder: path.resolve(__dirname, "..", "migrations") });
+    return new DatabaseStorage(db);
+  }],
+];
+
+const items: ExtractedPayrollItem[] = [
+  {
+    code: "0001",
+    description: "VENCIMENTO",
+    value: 1500.5,
+    category: "PROVENTOS",
+    sources: [{ fileName: "jan.pdf", pageNumber: 1, matchedText: "0001 VENCIMENTO 1.500,50", value: 1500.5 }],
+  },
+  { code: "0500", description: "PREVIDENCIA", value: 165.06, category: "DESCONTOS" },
+];
+
+const payslipRow = (userId: number, date: string, overrides: Partial<InsertPayrollData> = {}): InsertPayrollData => {
+  const [month, year] = date.split("/");
+  return {
+    userId,
+    date,
+    competence: `${year}-${month}-01`,
+    payrollType: "NORMAL",
+    source: "ERP",
+    codeData: items,
+    sourcePages: [{ fileName: "jan.pdf", pageNumber: 1, text: "CONTRACHEQUE" }],
+    printedTotals: { proventos: 1500.5, descontos: 165.06, net: 1335.44 },
+    fileHash: "abc",
+    pageFingerprints: ["f1", "f2"],
+    documentId: null,
+    ...overrides,
+  };
+};
+
+describe.each(backends)("%s", (_name, createStorage) => {
+  let storage: IStorage;
+  let nextUserId = 1000;
+  const newUserId = () => nextUserId++;
+
+  beforeAll(async () => {
+    storage = await createStorage();
+  });
+
+  describe("users", () => {
+    it("creates users with the prescription defaults and finds them by id and username", async () => {
+      const user = await storage.createUser({ username: "ana", password: "hash" });
+
+      expect(user).toMatchObject({ username: "ana", password: "hash", filingDate: null, excludePrescribed: false });
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername("ana")).toEqual(user);
+      expect(await storage.getUserByUsername("missing")).toBeUndefined();
+      expect(await storage.getUser(999999)).toBeUndefined();
+    });
+
+    it("rejects a second user with the same username", async () => {
+      await storage.createUser({ username: "carla", password: "hash" });
+
+      await expect(storage.createUser({ username: "carla", password: "other" })).rejects.toThrow();
+      expect((await storage.getUserByUsername("carla"))!.password).toBe("hash");
+    });
+
+    it("updates the password and the prescription settings", async () => {
+      const user = await storage.createUser({ username: "bruno", password: "old" });
+
+      expect(await storage.updateUserPassword(user.id, "new")).toMatchObject({ id: user.id, password: "new" });
+      expect(await storage.updateUserPrescription(user.id, { filingDate: "2024-06-10", excludePrescribed: true }))
+        .toMatchObject({ filingDate: "2024-06-10", excludePrescribed: true });
+      expect(await storage.getUser(user.id)).toMatchObject({ password: "new", filingDate: "2024-06-10", excludePrescribed: true });
+      expect(await storage.updateUserPassword(999999, "x")).toBeUndefined();
+    });
+  });
+
+  describe("templates", () => {
+    it("creates, lists, updates and deletes templates per user", async () => {
+      const userId = newUserId();
+      const template = await storage.createTemplate({ userId, name: "Padrão", codes: "0001,0500" });
+      await storage.createTemplate({ userId: newUserId(), name: "Outro usuário", codes: "0001" });
+
+      expect(await storage.getTemplatesByUserId(userId)).toEqual([template]);
+      expect(await storage.updateTemplate(template.id, { name: "Renomeado" })).toEqual({ ...template, name: "Renomeado" });
+      expect(await storage.updateTemplate(template.id, {})).toEqual({ ...template, name: "Renomeado" });
+      expect(await storage.updateTemplate(999999, { name: "x" })).toBeUndefined();
+      expect(await storage.deleteTemplate(template.id)).toBe(true);
+      expect(await storage.deleteTemplate(template.id)).toBe(false);
+      expect(await storage.getTemplateById(template.id)).toBeUndefined();
+    });
+  });
+
+  describe("code groups", () => {
+    it("creates, lists, updates and deletes code groups per user", async () => {
+      const userId = newUserId();
+      const group = await storage.createCodeGroup({ userId, displayName: "CET", codes: "00153,0153" });
+
+      expect(await storage.getCodeGroupsByUserId(userId)).toEqual([group]);
+      expect(await storage.getCodeGroupById(group.id)).toEqual(group);
+      expect(await storage.updateCodeGroup(group.id, { codes: "0153" })).toEqual({ ...group, codes: "0153" });
+      expect(await storage.deleteCodeGroup(group.id)).toBe(true);
+      expect(await storage.getCodeGroupsByUserId(userId)).toEqual([]);
+    });
+  });
+
+  describe("payroll data", () => {
+    it("stores the jsonb fields as objects and reads them back unchanged", async () => {
+      const userId = newUserId();
+      const row = payslipRow(userId, "01/2020");
+      const created = await storage.createPayrollData(row);
+
+      expect(created).toEqual({ ...row, id: created.id });
+      const [stored] = await storage.getPayrollDataByUserId(userId);
+      expect(stored.codeData).toEqual(items);
+      expect(stored.sourcePages).toEqual(row.sourcePages);
+      expect(stored.printedTotals).toEqual(row.printedTotals);
+      expect(stored.pageFingerprints).toEqual(["f1", "f2"]);
+    });
+
+    it("fills the optional columns with their defaults", async () => {
+      const userId = newUserId();
+      const created = await storage.createPayrollData({ userId, date: "03/2020", source: "RH", codeData: items });
+
+      expect(created).toMatchObject({
+        competence: null,
+        payrollType: "NORMAL",
+        sourcePages: null,
+        printedTotals: null,
+        fileHash: null,
+        pageFingerprints: null,
+        documentId: null,
+      });
+    });
+
+    it("returns the user's rows in chronological order of competence", async () => {
+      const userId = newUserId();
+      await storage.createPayrollDataBatch([
+        payslipRow(userId, "02/2021"),
+        payslipRow(userId, "12/2020"),
+        payslipRow(userId, "01/2021", { payrollType: "DECIMO_TERCEIRO" }),
+      ]);
+      await storage.createPayrollData(payslipRow(newUserId(), "01/2019"));
+
+      const rows = await storage.getPayrollDataByUserId(userId);
+      expect(rows.map(row => row.date)).toEqual(["12/2020", "01/2021", "02/2021"]);
+      expect(rows[1].payrollType).toBe("DECIMO_TERCEIRO");
+    });
+
+    it("accepts an empty batch", async () => {
+      expect(await storage.createPayrollDataBatch([])).toEqual([]);
+    });
+
+    it("deletes rows by id and clears only the given user", async () => {
+      const userId = newUserId();
+      const otherUserId = newUserId();
+      const [first, second] = await storage.createPayrollDataBatch([payslipRow(userId, "01/2022"), payslipRow(userId, "02/2022")]);
+      await storage.createPayrollData(payslipRow(otherUserId, "01/2022"));
+
+      expect(await storage.deletePayrollData([first.id])).toBe(true);
+      expect((await storage.getPayrollDataByUserId(userId)).map(row => row.id)).toEqual([second.id]);
+
+      expect(await storage.clearPayrollDataByUserId(userId)).toBe(true);
+      expect(await storage.getPayrollDataByUserId(userId)).toEqual([]);
+      expect(await storage.getPayrollDataByUserId(otherUserId)).toHaveLength(1);
+    });
+
+    it("deletes every existing id even when some were already gone", async () => {
+      const userId = newUserId();
+      const [first, second, third] = await storage.createPayrollDataBatch([
+        payslipRow(userId, "01/2023"),
+        payslipRow(userId, "02/2023"),
+        payslipRow(userId, "03/2023"),
+      ]);
+      await storage.deletePayrollData([first.id]);
+
+      expect(await storage.deletePayrollData([first.id, second.id])).toBe(false);
+      expect((await storage.getPayrollDataByUserId(userId)).map(row => row.id)).toEqual([third.id]);
+      expect(await storage.deletePayrollData([])).toBe(true);
+    });
+
+    it("replaces rows by deleting the given ids and inserting the new rows", async () => {
+      const userId = newUserId();
+      const [old, kept] = await storage.createPayrollDataBatch([payslipRow(userId, "01/2024"), payslipRow(userId, "02/2024")]);
+
+      const [created] = await storage.replacePayrollData([old.id], [payslipRow(userId, "01/2024", { fileHash: "def" })]);
+
+      expect(created).toMatchObject({ date: "01/2024", fileHash: "def" });
+      expect((await storage.getPayrollDataByUserId(userId)).map(row => row.id)).toEqual([created.id, kept.id]);
+      expect(await storage.replacePayrollData([], [])).toEqual([]);
+    });
+  });
+
+  describe("payroll overrides", () => {
+    it("keeps every change as an audit trail and clears it per user", async () => {
+      const userId = newUserId();
+      const edit = await storage.createPayrollOverride({
+        userId,
+        date: "01/2020",
+        code: "0001",
+        description: "VENCIMENTO",
+        action: "edit",
+        originalValue: 1500.5,
+        value: 1600,
+        changedBy: "ana",
+      });
+      const deletion = await storage.createPayrollOverride({
+        userId,
+        date: "01/2020",
+        code: "0500",
+        action: "delete",
+        changedBy: "ana",
+      });
+
+      const thirteenth = await storage.createPayrollOverride({
+        userId,
+        date: "12/2020",
+        payrollType: "DECIMO_TERCEIRO",
+        code: "0001",
+        action: "edit",
+        value: 800,
+        changedBy: "ana",
+      });
+
+      expect(edit.changedAt).toBeInstanceOf(Date);
+      expect(edit.payrollType).toBe("NORMAL");
+      expect(thirteenth.payrollType).toBe("DECIMO_TERCEIRO");
+      expect(deletion).toMatchObject({ description: null, originalValue: null, value: null });
+      expect((await storage.getPayrollOverridesByUserId(userId)).map(override => override.id)).toEqual([edit.id, deletion.id, thirteenth.id]);
+
+      expect(await storage.clearPayrollOverridesByUserId(userId)).toBe(true);
+      expect(await storage.getPayrollOverridesByUserId(userId)).toEqual([]);
+    });
+  });
+
+  describe("due series", () => {
+    it("stores the due table as an object and applies the defaults", async () => {
+      const userId = newUserId();
+      const series = await storage.createDueSeries({
+        userId,
+        column: "VENCIMENTO",
+        method: "table",
+        dueTable: { "01/2020": 1000, "02/2020": 1010.5 },
+      });
+
+      expect(series).toMatchObject({
+        amount: null,
+        percentage: null,
+        baseColumn: null,
+        startDate: null,
+        endDate: null,
+        reflexes: true,
+      });
+      expect((await storage.getDueSeriesById(series.id))!.dueTable).toEqual({ "01/2020": 1000, "02/2020": 1010.5 });
+    });
+
+    it("updates and deletes series", async () => {
+      const userId = newUserId();
+      const series = await storage.createDueSeries({ userId, column: "GRAT", method: "fixed", amount: 500 });
+
+      expect(await storage.updateDueSeries(series.id, { amount: 600, reflexes: false }))
+        .toEqual({ ...series, amount: 600, reflexes: false });
+      expect(await storage.getDueSeriesByUserId(userId)).toHaveLength(1);
+      expect(await storage.deleteDueSeries(series.id)).toBe(true);
+      expect(await storage.deleteDueSeries(series.id)).toBe(false);
+      expect(await storage.getDueSeriesByUserId(userId)).toEqual([]);
+    });
+  });
+});
+
+describe("DatabaseStorage.replacePayrollData", () => {
+  it("keeps the replaced rows when the insert fails", async () => {
+    const storage = await backends[1][1]();
+    const userId = 1;
+    const [old] = await storage.createPayrollDataBatch([payslipRow(userId, "01/2024")]);
+    const invalid = { ...payslipRow(userId, "01/2024"), date: null } as unknown as InsertPayrollData;
+
+    await expect(storage.replacePayrollData([old.id], [invalid])).rejects.toThrow();
+    expect(await storage.getPayrollDataByUserId(userId)).toEqual([old]);
+  });
+});
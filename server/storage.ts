@@ -3,6 +3,8 @@ import {
   templates, 
   codeGroups,
   payrollData,
+  payrollOverrides,
+  dueSeries,
   type User, 
   type InsertUser, 
   type Template, 
@@ -10,14 +12,23 @@ import {
   type CodeGroup,
   type InsertCodeGroup,
   type PayrollData,
-  type InsertPayrollData
+  type InsertPayrollData,
+  type PayrollOverride,
+  type InsertPayrollOverride,
+  type DueSeries,
+  type InsertDueSeries
 } from "@shared/schema";
+import { asc, eq, inArray } from "drizzle-orm";
+import { createDatabase, type Database } from "./db";
+import { sortByCompetence } from "./competence";
 
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUserPassword(id: number, password: string): Promise<User | undefined>;
+  updateUserPrescription(id: number, data: Pick<User, 'filingDate' | 'excludePrescribed'>): Promise<User | undefined>;
   
   // Template operations
   getTemplatesByUserId(userId: number): Promise<Template[]>;
@@ -36,7 +47,22 @@ export interface IStorage {
   // Payroll data operations
   getPayrollDataByUserId(userId: number): Promise<PayrollData[]>;
   createPayrollData(data: InsertPayrollData): Promise<PayrollData>;
+  createPayrollDataBatch(data: InsertPayrollData[]): Promise<PayrollData[]>;
+  deletePayrollData(ids: number[]): Promise<boolean>; // Exclui todos os ids encontrados; false se algum não existia
+  replacePayrollData(ids: number[], data: InsertPayrollData[]): Promise<PayrollData[]>; // Exclui e grava atomicamente
   clearPayrollDataByUserId(userId: number): Promise<boolean>;
+  
+  // Payroll override operations
+  getPayrollOverridesByUserId(userId: number): Promise<PayrollOverride[]>;
+  createPayrollOverride(override: InsertPayrollOverride): Promise<PayrollOverride>;
+  clearPayrollOverridesByUserId(userId: number): Promise<boolean>;
+  
+  // Due series operations
+  getDueSeriesByUserId(userId: number): Promise<DueSeries[]>;
+  getDueSeriesById(id: number): Promise<DueSeries | undefined>;
+  createDueSeries(series: InsertDueSeries): Promise<DueSeries>;
+  updateDueSeries(id: number, data: Partial<InsertDueSeries>): Promise<DueSeries | undefined>;
+  deleteDueSeries(id: number): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
@@ -44,26 +70,28 @@ export class MemStorage implements IStorage {
   private templates: Map<number, Template>;
   private codeGroups: Map<number, CodeGroup>;
   private payrollData: Map<number, PayrollData>;
+  private payrollOverrides: Map<number, PayrollOverride>;
+  private dueSeries: Map<number, DueSeries>;
   private currentUserId: number;
   private currentTemplateId: number;
   private currentCodeGroupId: number;
   private currentPayrollId: number;
+  private currentOverrideId: number;
+  private currentDueSeriesId: number;
 
   constructor() {
     this.users = new Map();
     this.templates = new Map();
     this.codeGroups = new Map();
     this.payrollData = new Map();
+    this.payrollOverrides = new Map();
+    this.dueSeries = new Map();
     this.currentUserId = 1;
     this.currentTemplateId = 1;
     this.currentCodeGroupId = 1;
     this.currentPayrollId = 1;
-    
-    // Add default user for the application
-    this.createUser({ 
-      username: "dlinhares", 
-      password: "123456" 
-    });
+    this.currentOverrideId = 1;
+    this.currentDueSeriesId = 1;
   }
 
   // User operations
@@ -78,12 +106,35 @@ export class MemStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
+    // Mesma restrição de unicidade da coluna username no banco
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new Error(`Username already exists: ${insertUser.username}`);
+    }
+
     const id = this.currentUserId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, filingDate: null, excludePrescribed: false, id };
     this.users.set(id, user);
     return user;
   }
 
+  async updateUserPassword(id: number, password: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser: User = { ...user, password };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserPrescription(id: number, data: Pick<User, 'filingDate' | 'excludePrescribed'>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser: User = { ...user, ...data };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
   // Template operations
   async getTemplatesByUserId(userId: number): Promise<Template[]> {
     return Array.from(this.templates.values()).filter(
@@ -148,18 +199,47 @@ export class MemStorage implements IStorage {
 
   // Payroll data operations
   async getPayrollDataByUserId(userId: number): Promise<PayrollData[]> {
-    return Array.from(this.payrollData.values()).filter(
+    return sortByCompetence(Array.from(this.payrollData.values()).filter(
       (data) => data.userId === userId
-    );
+    ));
   }
 
   async createPayrollData(insertData: InsertPayrollData): Promise<PayrollData> {
     const id = this.currentPayrollId++;
-    const data: PayrollData = { ...insertData, id };
+    const data: PayrollData = {
+      ...insertData,
+      competence: insertData.competence ?? null,
+      payrollType: insertData.payrollType ?? 'NORMAL',
+      sourcePages: insertData.sourcePages ?? null,
+      printedTotals: insertData.printedTotals ?? null,
+      fileHash: insertData.fileHash ?? null,
+      pageFingerprints: insertData.pageFingerprints ?? null,
+      documentId: insertData.documentId ?? null,
+      id
+    };
     this.payrollData.set(id, data);
     return data;
   }
 
+  async createPayrollDataBatch(insertData: InsertPayrollData[]): Promise<PayrollData[]> {
+    const created: PayrollData[] = [];
+    for (const item of insertData) {
+      created.push(await this.createPayrollData(item));
+    }
+    return created;
+  }
+
+  async deletePayrollData(ids: number[]): Promise<boolean> {
+    const deleted = ids.filter(id => this.payrollData.delete(id));
+    return deleted.length === new Set(ids).size;
+  }
+
+  async replacePayrollData(ids: number[], insertData: InsertPayrollData[]): Promise<PayrollData[]> {
+    const created = await this.createPayrollDataBatch(insertData);
+    await this.deletePayrollData(ids);
+    return created;
+  }
+
   async clearPayrollDataByUserId(userId: number): Promise<boolean> {
     // Encontrar todos os IDs de registros desse usuário
     const userPayrollIds = Array.from(this.payrollData.entries())
@@ -175,6 +255,252 @@ export class MemStorage implements IStorage {
     
     return allDeleted;
   }
+
+  // Payroll override operations
+  async getPayrollOverridesByUserId(userId: number): Promise<PayrollOverride[]> {
+    return Array.from(this.payrollOverrides.values()).filter(
+      (override) => override.userId === userId
+    );
+  }
+
+  async createPayrollOverride(insertOverride: InsertPayrollOverride): Promise<PayrollOverride> {
+    const id = this.currentOverrideId++;
+    const override: PayrollOverride = {
+      ...insertOverride,
+      payrollType: insertOverride.payrollType ?? 'NORMAL',
+      description: insertOverride.description ?? null,
+      originalValue: insertOverride.originalValue ?? null,
+      value: insertOverride.value ?? null,
+      changedAt: new Date(),
+      id
+    };
+    this.payrollOverrides.set(id, override);
+    return override;
+  }
+
+  async clearPayrollOverridesByUserId(userId: number): Promise<boolean> {
+    Array.from(this.payrollOverrides.entries())
+      .filter(([_, override]) => override.userId === userId)
+      .forEach(([id, _]) => this.payrollOverrides.delete(id));
+    return true;
+  }
+
+  // Due series operations
+  async getDueSeriesByUserId(userId: number): Promise<DueSeries[]> {
+    return Array.from(this.dueSeries.values()).filter(
+      (series) => series.userId === userId
+    );
+  }
+
+  async getDueSeriesById(id: number): Promise<DueSeries | undefined> {
+    return this.dueSeries.get(id);
+  }
+
+  async createDueSeries(insertSeries: InsertDueSeries): Promise<DueSeries> {
+    const id = this.currentDueSeriesId++;
+    const series: DueSeries = {
+      ...insertSeries,
+      amount: insertSeries.amount ?? null,
+      percentage: insertSeries.percentage ?? null,
+      baseColumn: insertSeries.baseColumn ?? null,
+      dueTable: insertSeries.dueTable ?? null,
+      startDate: insertSeries.startDate ?? null,
+      endDate: insertSeries.endDate ?? null,
+      reflexes: insertSeries.reflexes ?? true,
+      id
+    };
+    this.dueSeries.set(id, series);
+    return series;
+  }
+
+  async updateDueSeries(id: number, data: Partial<InsertDueSeries>): Promise<DueSeries | undefined> {
+    const series = this.dueSeries.get(id);
+    if (!series) return undefined;
+
+    const updatedSeries: DueSeries = { ...series, ...data };
+    this.dueSeries.set(id, updatedSeries);
+    return updatedSeries;
+  }
+
+  async deleteDueSeries(id: number): Promise<boolean> {
+    return this.dueSeries.delete(id);
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUserPassword(id: number, password: string): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set({ password }).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async updateUserPrescription(id: number, data: Pick<User, 'filingDate' | 'excludePrescribed'>): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set(data).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  // Template operations
+  async getTemplatesByUserId(userId: number): Promise<Template[]> {
+    return this.db.select().from(templates).where(eq(templates.userId, userId)).orderBy(templates.id);
+  }
+
+  async getTemplateById(id: number): Promise<Template | undefined> {
+    const [template] = await this.db.select().from(templates).where(eq(templates.id, id));
+    return template;
+  }
+
+  async createTemplate(insertTemplate: InsertTemplate): Promise<Template> {
+    const [template] = await this.db.insert(templates).values(insertTemplate).returning();
+    return template;
+  }
+
+  async updateTemplate(id: number, data: Partial<InsertTemplate>): Promise<Template | undefined> {
+    if (Object.keys(data).length === 0) return this.getTemplateById(id);
+
+    const [template] = await this.db.update(templates).set(data).where(eq(templates.id, id)).returning();
+    return template;
+  }
+
+  async deleteTemplate(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(templates).where(eq(templates.id, id)).returning({ id: templates.id });
+    return deleted.length > 0;
+  }
+
+  // Code group operations
+  async getCodeGroupsByUserId(userId: number): Promise<CodeGroup[]> {
+    return this.db.select().from(codeGroups).where(eq(codeGroups.userId, userId)).orderBy(codeGroups.id);
+  }
+
+  async getCodeGroupById(id: number): Promise<CodeGroup | undefined> {
+    const [codeGroup] = await this.db.select().from(codeGroups).where(eq(codeGroups.id, id));
+    return codeGroup;
+  }
+
+  async createCodeGroup(insertCodeGroup: InsertCodeGroup): Promise<CodeGroup> {
+    const [codeGroup] = await this.db.insert(codeGroups).values(insertCodeGroup).returning();
+    return codeGroup;
+  }
+
+  async updateCodeGroup(id: number, data: Partial<InsertCodeGroup>): Promise<CodeGroup | undefined> {
+    if (Object.keys(data).length === 0) return this.getCodeGroupById(id);
+
+    const [codeGroup] = await this.db.update(codeGroups).set(data).where(eq(codeGroups.id, id)).returning();
+    return codeGroup;
+  }
+
+  async deleteCodeGroup(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(codeGroups).where(eq(codeGroups.id, id)).returning({ id: codeGroups.id });
+    return deleted.length > 0;
+  }
+
+  // Payroll data operations
+  async getPayrollDataByUserId(userId: number): Promise<PayrollData[]> {
+    return this.db.select().from(payrollData).where(eq(payrollData.userId, userId))
+      .orderBy(asc(payrollData.competence), payrollData.id);
+  }
+
+  async createPayrollData(insertData: InsertPayrollData): Promise<PayrollData> {
+    const [data] = await this.db.insert(payrollData).values(insertData).returning();
+    return data;
+  }
+
+  async createPayrollDataBatch(insertData: InsertPayrollData[]): Promise<PayrollData[]> {
+    if (insertData.length === 0) return [];
+
+    return this.db.insert(payrollData).values(insertData).returning();
+  }
+
+  async deletePayrollData(ids: number[]): Promise<boolean> {
+    if (ids.length === 0) return true;
+
+    const deleted = await this.db.delete(payrollData).where(inArray(payrollData.id, ids)).returning({ id: payrollData.id });
+    return deleted.length === new Set(ids).size;
+  }
+
+  // Numa transação, para que uma falha na gravação não perca os registros substituídos
+  async replacePayrollData(ids: number[], insertData: InsertPayrollData[]): Promise<PayrollData[]> {
+    return this.db.transaction(async (tx) => {
+      if (ids.length > 0) {
+        await tx.delete(payrollData).where(inArray(payrollData.id, ids));
+      }
+      return insertData.length > 0 ? tx.insert(payrollData).values(insertData).returning() : [];
+    });
+  }
+
+  async clearPayrollDataByUserId(userId: number): Promise<boolean> {
+    await this.db.delete(payrollData).where(eq(payrollData.userId, userId));
+    return true;
+  }
+
+  // Payroll override operations
+  async getPayrollOverridesByUserId(userId: number): Promise<PayrollOverride[]> {
+    return this.db.select().from(payrollOverrides).where(eq(payrollOverrides.userId, userId)).orderBy(payrollOverrides.id);
+  }
+
+  async createPayrollOverride(insertOverride: InsertPayrollOverride): Promise<PayrollOverride> {
+    const [override] = await this.db.insert(payrollOverrides).values(insertOverride).returning();
+    return override;
+  }
+
+  async clearPayrollOverridesByUserId(userId: number): Promise<boolean> {
+    await this.db.delete(payrollOverrides).where(eq(payrollOverrides.userId, userId));
+    return true;
+  }
+
+  // Due series operations
+  async getDueSeriesByUserId(userId: number): Promise<DueSeries[]> {
+    return this.db.select().from(dueSeries).where(eq(dueSeries.userId, userId)).orderBy(dueSeries.id);
+  }
+
+  async getDueSeriesById(id: number): Promise<DueSeries | undefined> {
+    const [series] = await this.db.select().from(dueSeries).where(eq(dueSeries.id, id));
+    return series;
+  }
+
+  async createDueSeries(insertSeries: InsertDueSeries): Promise<DueSeries> {
+    const [series] = await this.db.insert(dueSeries).values(insertSeries).returning();
+    return series;
+  }
+
+  async updateDueSeries(id: number, data: Partial<InsertDueSeries>): Promise<DueSeries | undefined> {
+    if (Object.keys(data).length === 0) return this.getDueSeriesById(id);
+
+    const [series] = await this.db.update(dueSeries).set(data).where(eq(dueSeries.id, id)).returning();
+    return series;
+  }
+
+  async deleteDueSeries(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(dueSeries).where(eq(dueSeries.id, id)).returning({ id: dueSeries.id });
+    return deleted.length > 0;
+  }
+}
+
+// Usa o PostgreSQL quando DATABASE_URL estiver configurada; caso contrário, mantém os dados em memória
+function createStorage(): IStorage {
+  if (process.env.DATABASE_URL) {
+    console.log("Usando armazenamento PostgreSQL");
+    return new DatabaseStorage(createDatabase(process.env.DATABASE_URL));
+  }
+
+  console.log("DATABASE_URL não definida, usando armazenamento em memória");
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, doublePrecision, timestamp, date } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -6,6 +6,8 @@ export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  filingDate: date("filing_date", { mode: "string" }), // Ajuizamento da ação, marco da prescrição quinquenal (AAAA-MM-DD)
+  excludePrescribed: boolean("exclude_prescribed").notNull().default(false), // Remove os meses prescritos da tabela e dos cálculos
 });
 
 export const templates = pgTable("templates", {
@@ -26,8 +28,60 @@ export const payrollData = pgTable("payroll_data", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
   date: text("date").notNull(),
-  source: text("source").notNull(), // "ERP" or "RH"
-  codeData: jsonb("code_data").notNull(), // Store code, description, and value
+  competence: date("competence", { mode: "string" }), // Competência como data (AAAA-MM-01), para ordenação cronológica
+  payrollType: text("payroll_type").notNull().default("NORMAL"), // Tipo de folha da competência (ver PayrollType)
+  source: text("source").notNull(), // Layout profile id (e.g. "ERP", "RH")
+  codeData: jsonb("code_data").$type<ExtractedPayrollItem[]>().notNull(), // Store code, description, and value
+  sourcePages: jsonb("source_pages").$type<SourcePage[]>(), // Texto das páginas que originaram os itens (para revisão)
+  printedTotals: jsonb("printed_totals").$type<PrintedTotals>(), // Totais impressos no contracheque (ex.: líquido), para conferência
+  fileHash: text("file_hash"), // SHA-256 do PDF de origem, para reconhecer arquivos enviados novamente
+  pageFingerprints: jsonb("page_fingerprints").$type<string[]>(), // SHA-256 do texto de cada página que originou o registro
+  documentId: text("document_id"), // Documento de origem guardado no repositório de documentos (quando habilitado)
+});
+
+// Correções manuais de valores extraídos; cada alteração gera um novo registro (trilha de auditoria)
+export const payrollOverrides = pgTable("payroll_overrides", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  date: text("date").notNull(),
+  payrollType: text("payroll_type").notNull().default("NORMAL"), // Folha da competência em que o item é corrigido (ver PayrollType)
+  code: text("code").notNull(),
+  description: text("description"),
+  action: text("action").notNull(), // "edit", "add", "delete" or "revert"
+  originalValue: doublePrecision("original_value"), // Valor extraído no momento da alteração (nulo se o item não existia)
+  value: doublePrecision("value"), // Valor corrigido (nulo para exclusão e reversão)
+  changedBy: text("changed_by").notNull(),
+  changedAt: timestamp("changed_at").defaultNow().notNull(),
+});
+
+// Valores devidos de uma coluna da tabela (verba ou grupo de códigos), comparados com os pagos nos contracheques
+export const dueSeries = pgTable("due_series", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  column: text("column_name").notNull(), // Coluna da tabela consolidada cujo valor pago é comparado
+  method: text("method").notNull(), // "fixed", "percentage" ou "table" (ver DueSeriesMethod)
+  amount: doublePrecision("amount"), // Valor mensal devido (fixed)
+  percentage: doublePrecision("percentage"), // Percentual da coluna baseColumn na mesma competência (percentage)
+  baseColumn: text("base_column"),
+  dueTable: jsonb("due_table").$type<Record<string, number>>(), // Valor devido por competência (MM/AAAA), importado de CSV (table)
+  startDate: text("start_date"), // Primeira e última competências comparadas (MM/AAAA); nulas para todo o período
+  endDate: text("end_date"),
+  reflexes: boolean("reflexes").notNull().default(true), // Calcula os reflexos da diferença em 13º e 1/3 de férias
+});
+
+export const insertDueSeriesSchema = createInsertSchema(dueSeries, {
+  dueTable: z.record(z.number()).nullish(),
+}).pick({
+  userId: true,
+  column: true,
+  method: true,
+  amount: true,
+  percentage: true,
+  baseColumn: true,
+  dueTable: true,
+  startDate: true,
+  endDate: true,
+  reflexes: true,
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -47,11 +101,36 @@ export const insertCodeGroupSchema = createInsertSchema(codeGroups).pick({
   codes: true,
 });
 
-export const insertPayrollDataSchema = createInsertSchema(payrollData).pick({
+// As colunas jsonb guardam os objetos como estão (o drizzle serializa na gravação e interpreta na leitura)
+export const insertPayrollDataSchema = createInsertSchema(payrollData, {
+  codeData: z.custom<ExtractedPayrollItem[]>(),
+  sourcePages: z.custom<SourcePage[]>().nullish(),
+  printedTotals: z.custom<PrintedTotals>().nullish(),
+  pageFingerprints: z.array(z.string()).nullish(),
+}).pick({
   userId: true,
   date: true,
+  competence: true,
+  payrollType: true,
   source: true,
   codeData: true,
+  sourcePages: true,
+  printedTotals: true,
+  fileHash: true,
+  pageFingerprints: true,
+  documentId: true,
+});
+
+export const insertPayrollOverrideSchema = createInsertSchema(payrollOverrides).pick({
+  userId: true,
+  date: true,
+  payrollType: true,
+  code: true,
+  description: true,
+  action: true,
+  originalValue: true,
+  value: true,
+  changedBy: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -66,20 +145,336 @@ export type CodeGroup = typeof codeGroups.$inferSelect;
 export type InsertPayrollData = z.infer<typeof insertPayrollDataSchema>;
 export type PayrollData = typeof payrollData.$inferSelect;
 
+export type InsertPayrollOverride = z.infer<typeof insertPayrollOverrideSchema>;
+export type PayrollOverride = typeof payrollOverrides.$inferSelect;
+export type PayrollOverrideAction = 'edit' | 'add' | 'delete' | 'revert';
+
+export type InsertDueSeries = z.infer<typeof insertDueSeriesSchema>;
+export type DueSeries = typeof dueSeries.$inferSelect;
+
+// Forma de obter o valor devido: valor fixo mensal, percentual de outra coluna ou tabela importada
+export type DueSeriesMethod = 'fixed' | 'percentage' | 'table';
+
+// Tipo de folha: uma competência pode ter, além da folha normal, folhas suplementares, de 13º, férias ou rescisão
+export type PayrollType = 'NORMAL' | 'SUPLEMENTAR' | 'DECIMO_TERCEIRO' | 'FERIAS' | 'RESCISAO';
+
 // Custom types for the application
+export interface PayrollItemSource {
+  fileName?: string;
+  pageNumber: number;
+  matchedText: string; // Trecho bruto capturado pela regex
+  value: number;
+  confidence?: number; // Confiança do OCR (0 a 1), ausente quando o trecho vem da camada de texto do PDF
+}
+
+export type PayrollCategory = 'PROVENTOS' | 'DESCONTOS' | 'OUTROS';
+
 export interface ExtractedPayrollItem {
   code: string;
   description: string;
   value: number;
+  category: PayrollCategory;
+  sources?: PayrollItemSource[];
+  confidence?: number; // Menor confiança de OCR entre as origens do item
+}
+
+export interface SourcePage {
+  fileName?: string;
+  pageNumber: number;
+  text: string;
+  ocr?: boolean; // Texto obtido por OCR de página digitalizada
+}
+
+// Totais impressos no próprio contracheque
+export interface PrintedTotals {
+  proventos?: number; // Total de vantagens
+  descontos?: number; // Total de descontos
+  net?: number; // Líquido a receber
 }
 
 export interface ProcessedPayslip {
   date: string;
+  payrollType: PayrollType;
   items: ExtractedPayrollItem[];
   source: string;
+  pages?: SourcePage[];
+  printedTotals?: PrintedTotals;
+  fileHash?: string; // SHA-256 do arquivo PDF de origem
+}
+
+// PDF original guardado no repositório de documentos do usuário
+export interface StoredDocument {
+  id: string;
+  fileName: string;
+  fileHash: string;
+  size: number; // Tamanho do PDF em bytes
+  layout?: string; // Perfil de layout usado na extração
+  uploadedAt: string;
+  months: string[]; // Competências encontradas no documento
+}
+
+// Código encontrado no modo de descoberta, com as competências em que aparece
+export interface DiscoveredCode {
+  code: string;
+  description: string;
+  category: PayrollCategory;
+  occurrences: number; // Linhas do contracheque com o código
+  months: string[];
+  total: number; // Soma dos valores em todas as competências
+  mappedTo?: string; // Coluna em que o código já é exibido (verba pré-definida ou grupo do usuário)
+}
+
+export interface PageWithoutItems {
+  pageNumber: number;
+  date: string;
+}
+
+export interface LayoutCandidate {
+  profileId: string;
+  confidence: number; // 0 a 1
+}
+
+export interface LayoutDetection {
+  profileId: string; // Perfil usado na extração
+  confidence: number; // Aderência do PDF ao perfil usado (0 a 1)
+  automatic: boolean; // false quando o perfil foi escolhido manualmente
+  candidates: LayoutCandidate[]; // Todos os perfis avaliados, do mais provável ao menos provável
+}
+
+export interface ExtractionDiagnostics {
+  totalPages: number;
+  pagesWithoutDate: number[]; // Páginas ignoradas por não conterem competência
+  pagesWithoutItems: PageWithoutItems[]; // Páginas com data, mas sem nenhum dos códigos procurados
+  ocrPages: number[]; // Páginas sem camada de texto lidas por OCR
+  layout?: LayoutDetection;
+}
+
+export interface ExtractionResult {
+  payslips: ProcessedPayslip[];
+  diagnostics: ExtractionDiagnostics;
+}
+
+export interface BatchFileSummary {
+  fileName: string;
+  dates: string[];
+  itemsExtracted: number;
+  diagnostics?: ExtractionDiagnostics;
+  error?: string;
+}
+
+// "conflict": extração concluída, mas com contracheques já importados; aguarda o usuário ignorar ou substituir
+export type ExtractionJobStatus = 'queued' | 'running' | 'conflict' | 'completed' | 'failed' | 'cancelled';
+
+export interface ExtractionJobProgress {
+  totalFiles: number;
+  filesProcessed: number;
+  currentFile?: string;
+  pagesProcessed: number;
+  currentFilePages?: number;
+  datesFound: string[];
+  errors: string[];
+}
+
+export interface ExtractionJobInfo {
+  id: string;
+  status: ExtractionJobStatus;
+  source: string;
+  createdAt: string;
+  finishedAt?: string;
+  progress: ExtractionJobProgress;
+  files: BatchFileSummary[];
+  savedCount: number;
+  skippedCount: number; // Contracheques já importados que foram ignorados
+  replacedCount: number; // Registros anteriores substituídos pelos reenviados
+  duplicates?: DuplicateFile[]; // Contracheques já importados encontrados no envio (status "conflict")
+}
+
+// O que fazer com contracheques já importados: perguntar (o envio é recusado), ignorar ou substituir
+export type DuplicateMode = 'ask' | 'skip' | 'replace';
+
+// Arquivo do envio que já foi importado anteriormente
+export interface DuplicateFile {
+  fileName: string;
+  dates: string[]; // Competências já gravadas a partir do mesmo arquivo
+}
+
+export interface PayrollItemState {
+  payrollType: PayrollType;
+  code: string;
+  description: string;
+  extractedValue: number | null; // Soma dos valores extraídos dos PDFs (nulo se adicionado manualmente)
+  value: number | null; // Valor efetivo usado na tabela e nas exportações (nulo se excluído)
+  override?: PayrollOverride;
+}
+
+// Totais da competência calculados a partir dos itens, conferidos com os totais impressos
+export interface MonthlyTotals {
+  date: string;
+  payrollType?: PayrollType; // Presente quando as folhas da competência são exibidas separadamente
+  proventos: number;
+  descontos: number;
+  net: number; // Proventos menos descontos (itens de outras categorias não entram no cálculo)
+  printed: PrintedTotals; // Soma dos totais impressos nos contracheques da competência
+  reconciliation: TotalReconciliation[]; // Conferência somada apenas dos contracheques que imprimem cada total
+  netMismatch: boolean; // Líquido calculado diferente do impresso
+  missingItems: boolean; // Algum total impresso difere da soma dos itens (provavelmente faltam verbas)
+}
+
+// Conferência de um total impresso com a soma dos itens extraídos
+export interface TotalReconciliation {
+  total: keyof PrintedTotals;
+  extracted: number;
+  printed: number;
+  difference: number; // Impresso menos extraído
+}
+
+export interface MonthlyReconciliation {
+  date: string;
+  payrollType?: PayrollType;
+  totals: TotalReconciliation[];
+  missingItems: boolean;
 }
 
 export interface PayrollResult {
   date: string;
   [code: string]: string | number;
 }
+
+// Índices de preços e taxas disponíveis para a correção monetária e para os juros de mora
+export type PriceIndexId = 'IPCA-E' | 'INPC' | 'IGP-M' | 'SELIC' | 'TR' | 'POUPANCA';
+
+// Acumulação das variações mensais: composta (produto) ou simples (soma, como a SELIC nos cálculos judiciais)
+export type PriceIndexAccumulation = 'compound' | 'simple';
+
+export interface PriceIndexSummary {
+  id: PriceIndexId;
+  name: string;
+  accumulation: PriceIndexAccumulation;
+  firstMonth?: string; // Primeira e última competências da série importada (MM/AAAA)
+  lastMonth?: string;
+  months: number; // Quantidade de meses importados (zero quando não há arquivo da série)
+}
+
+// Correção monetária aplicada à tabela consolidada: índice, competência de destino e fator de cada competência
+export interface AppliedCorrection {
+  index: PriceIndexId;
+  target: string;
+  factors: Record<string, number>;
+}
+
+// Prescrição quinquenal aplicada à tabela consolidada: competências anteriores ao limite estão prescritas e,
+// com excluded, foram retiradas da tabela, dos totais e dos cálculos
+export interface AppliedPrescription {
+  filingDate: string; // Data do ajuizamento (AAAA-MM-DD)
+  limit: string; // Primeira competência não prescrita (MM/AAAA)
+  excluded: boolean;
+  months: string[]; // Competências prescritas, marcadas ou excluídas
+}
+
+// Totais de uma linha da tabela corrigidos até a competência de destino
+export interface CorrectedTotals {
+  date: string;
+  payrollType?: PayrollType;
+  factor: number;
+  proventos: number;
+  descontos: number;
+  net: number;
+}
+
+// Regra de juros de mora vigente a partir de uma competência: taxa fixa mensal ou taxa mensal de uma série
+export interface InterestRule {
+  from: string; // Competência inicial (MM/AAAA); a regra vale até o início da seguinte
+  type: 'fixed' | 'series';
+  rate?: number; // Taxa mensal em % (regras de taxa fixa)
+  series?: PriceIndexId; // Série das taxas mensais (regras por série, como poupança e SELIC)
+  compounding: 'simple' | 'compound';
+  replacesCorrection: boolean; // A taxa já inclui a correção monetária, que deixa de ser aplicada (SELIC da EC 113/2021)
+}
+
+// Juros de uma parcela no período de uma regra
+export interface InterestPeriod {
+  rule: string; // Descrição da regra (ex.: "1% a.m.", "SELIC")
+  from: string;
+  to: string;
+  months: number;
+  rate: number; // Taxa acumulada no período, em %
+}
+
+// Linha da memória de cálculo: uma parcela mensal corrigida e acrescida de juros
+export interface InterestCalculationRow {
+  date: string;
+  amount: number; // Valor nominal da competência
+  correctionFactor: number;
+  correctedAmount: number;
+  interestFrom?: string; // Primeira competência com juros (ausente quando não há juros até a data do cálculo)
+  interestMonths: number;
+  interestRate: number; // Soma das taxas dos períodos, em %
+  interest: number;
+  total: number;
+  periods: InterestPeriod[];
+  prescribed: boolean; // Competência alcançada pela prescrição quinquenal, mantida e marcada na tabela
+}
+
+export interface InterestCalculation {
+  target: string; // Competência da data do cálculo (MM/AAAA)
+  citation: string; // Data da citação (AAAA-MM-DD)
+  basis: string; // Valores corrigidos: total de proventos, descontos, líquido ou colunas escolhidas
+  correctionIndex?: PriceIndexId;
+  correctionUntil?: string; // Última competência corrigida quando uma regra substitui a correção monetária
+  rules: InterestRule[];
+  prescriptionLimit?: string; // Primeira competência não prescrita, quando os meses prescritos são marcados
+  rows: InterestCalculationRow[];
+  totals: { amount: number; correctedAmount: number; interest: number; total: number };
+}
+
+// Comparação de uma coluna em uma competência: valor pago (extraído) e valor devido
+export interface DifferenceCell {
+  paid: number;
+  due: number;
+  difference: number; // Devido menos pago
+}
+
+// Diferenças de uma competência, com os reflexos em 13º e 1/3 de férias
+export interface DifferenceRow {
+  date: string;
+  cells: Record<string, DifferenceCell>; // Por coluna comparada (ausente fora do período ou sem valor na tabela)
+  difference: number;
+  reflex13: number;
+  reflexVacation: number;
+  total: number;
+  prescribed: boolean; // Competência alcançada pela prescrição quinquenal, mantida e marcada na tabela
+}
+
+export interface PayrollDifferences {
+  columns: string[];
+  prescriptionLimit?: string; // Primeira competência não prescrita, quando os meses prescritos são marcados
+  rows: DifferenceRow[];
+  totals: { difference: number; reflex13: number; reflexVacation: number; total: number };
+}
+
+// Recálculo do IRRF de um grupo de verbas em uma competência, comparado com o imposto extraído do contracheque
+export interface IrrfCalculationRow {
+  date: string;
+  group: string; // Grupo de tributação (mensal, férias ou 13º), calculado em separado
+  table?: string; // Competência inicial da tabela progressiva aplicada (ausente sem tabela para a competência)
+  gross: number; // Rendimentos tributáveis extraídos
+  deductions: number; // Previdência e dependentes, ou o desconto simplificado quando mais vantajoso
+  deductionType: 'legal' | 'simplified';
+  base: number;
+  rate: number; // Alíquota da faixa (%)
+  reduction: number; // Redução do imposto para rendimentos mais baixos, quando prevista na tabela
+  expected: number;
+  withheld: number;
+  difference: number; // Retido menos o devido (positivo quando o imposto foi retido a maior)
+  discrepancy: boolean;
+  prescribed: boolean; // Competência alcançada pela prescrição quinquenal, mantida e marcada na tabela
+}
+
+export interface IrrfCalculation {
+  dependents: number;
+  tolerance: number;
+  groups: { name: string; taxableColumns: string[]; deductionColumns: string[]; withheldColumns: string[] }[];
+  prescriptionLimit?: string; // Primeira competência não prescrita, quando os meses prescritos são marcados
+  rows: IrrfCalculationRow[];
+  totals: { expected: number; withheld: number; difference: number };
+}